@@ -9,12 +9,38 @@ export interface Account {
   status: AccountStatus;
   createdAt: string;
   updatedAt: string;
+  /** Provider-specific identifier from the last successful provisioning. */
+  externalId?: string;
+  /** Provider metadata from the last successful provisioning. */
+  providerMetadata?: Record<string, unknown>;
+  /** When provisioning last succeeded. */
+  provisionedAt?: string;
+  /** Error from the last failed provisioning attempt; cleared on success. */
+  provisioningError?: string;
+  /**
+   * Providers to try, in order, when a send through `provider` fails
+   * transiently. Overrides PROVIDER_FAILOVER_CHAIN for this account.
+   */
+  failoverProviders?: AccountProvider[];
+  /** Agents that own the account and may read the mail it receives. */
+  agentIds?: string[];
 }
 
 export interface CreateAccountInput {
   email: string;
   provider: AccountProvider;
   status?: AccountStatus;
+  failoverProviders?: AccountProvider[];
+  agentIds?: string[];
+}
+
+/** Outcome of a provisioning attempt to persist on the account. */
+export interface AccountProvisioningUpdate {
+  status?: AccountStatus;
+  externalId?: string;
+  metadata?: Record<string, unknown>;
+  /** Set when provisioning failed; omitted on success. */
+  error?: string;
 }
 
 export interface AccountRepository {
@@ -23,4 +49,30 @@ export interface AccountRepository {
   getByEmail(email: string): Promise<Account | null>;
   list(): Promise<Account[]>;
   updateStatus(id: string, status: AccountStatus): Promise<Account | null>;
+  updateProvisioning(id: string, update: AccountProvisioningUpdate): Promise<Account | null>;
+  /** Accounts owned by an agent. */
+  listByAgent(agentId: string): Promise<Account[]>;
+  /** Replace the account's owning agents. */
+  updateAgents(id: string, agentIds: string[]): Promise<Account | null>;
+}
+
+/**
+ * Account as returned by the HTTP API. Copies only known public fields so
+ * stray properties in the store (e.g. legacy plaintext credentials) never leak.
+ */
+export function toPublicAccount(account: Account): Account {
+  return {
+    id: account.id,
+    email: account.email,
+    provider: account.provider,
+    status: account.status,
+    createdAt: account.createdAt,
+    updatedAt: account.updatedAt,
+    externalId: account.externalId,
+    providerMetadata: account.providerMetadata,
+    provisionedAt: account.provisionedAt,
+    provisioningError: account.provisioningError,
+    failoverProviders: account.failoverProviders,
+    agentIds: account.agentIds,
+  };
 }
@@ -0,0 +1,184 @@
+/**
+ * Validation and limits for email attachments. Outbound attachments arrive
+ * base64 encoded in the JSON body, so they are covered by the attestation
+ * body hash like every other field. Downloads of received attachments are
+ * capped and checked against a configurable file type denylist.
+ */
+
+import type { EmailAttachment } from './providers.js';
+
+/** Default cap on decoded attachment bytes per email (10 MB). */
+export const DEFAULT_MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+
+export const MAX_ATTACHMENTS = 20;
+
+/** Default cap on a single received attachment download (25 MB). */
+export const DEFAULT_MAX_RECEIVED_ATTACHMENT_BYTES = 25 * 1024 * 1024;
+
+/** Executable and script types mail providers and clients reject or flag. */
+const BLOCKED_EXTENSIONS = new Set([
+  'app', 'bat', 'cmd', 'com', 'cpl', 'dll', 'exe', 'hta', 'jar', 'js', 'jse',
+  'lnk', 'msi', 'msp', 'pif', 'ps1', 'reg', 'scr', 'sh', 'vb', 'vbe', 'vbs', 'wsf',
+]);
+
+const BLOCKED_CONTENT_TYPES = new Set([
+  'application/x-msdownload',
+  'application/x-msdos-program',
+  'application/x-ms-installer',
+  'application/x-sh',
+  'application/java-archive',
+  'application/javascript',
+  'text/javascript',
+]);
+
+export interface FileTypeDenylist {
+  /** Lower-cased extensions without the dot. */
+  extensions: Set<string>;
+  /** Lower-cased MIME types; `type/*` denies a whole top-level type. */
+  contentTypes: Set<string>;
+}
+
+const DEFAULT_DENYLIST: FileTypeDenylist = {
+  extensions: BLOCKED_EXTENSIONS,
+  contentTypes: BLOCKED_CONTENT_TYPES,
+};
+
+const CONTENT_TYPE = /^[a-z0-9!#$&^_.+-]+\/[a-z0-9!#$&^_.+-]+$/i;
+const BASE64 = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+export class AttachmentError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'AttachmentError';
+    this.status = status;
+  }
+}
+
+/** MAX_ATTACHMENT_BYTES, or the 10 MB default. */
+export function getMaxAttachmentBytes(): number {
+  const value = Number(process.env.MAX_ATTACHMENT_BYTES);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_ATTACHMENT_BYTES;
+}
+
+/** RECEIVED_ATTACHMENT_MAX_BYTES, or the 25 MB default. */
+export function getMaxReceivedAttachmentBytes(): number {
+  const value = Number(process.env.RECEIVED_ATTACHMENT_MAX_BYTES);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_MAX_RECEIVED_ATTACHMENT_BYTES;
+}
+
+/**
+ * Denylist for received attachment downloads from RECEIVED_ATTACHMENT_DENYLIST:
+ * comma-separated extensions (`exe`, `.js`) and MIME types (`application/x-sh`,
+ * `application/*`). Unset uses the executable types blocked for sending; an
+ * empty value denies nothing.
+ */
+export function getReceivedAttachmentDenylist(): FileTypeDenylist {
+  const configured = process.env.RECEIVED_ATTACHMENT_DENYLIST;
+  if (configured === undefined) return DEFAULT_DENYLIST;
+  const denylist: FileTypeDenylist = { extensions: new Set(), contentTypes: new Set() };
+  for (const entry of configured.split(',')) {
+    const value = entry.trim().toLowerCase();
+    if (!value) continue;
+    if (value.includes('/')) denylist.contentTypes.add(value);
+    else denylist.extensions.add(value.replace(/^\./, ''));
+  }
+  return denylist;
+}
+
+/**
+ * Whether a file name's extension or a content type is denied. Trailing dots
+ * and spaces, which Windows drops, do not hide the extension.
+ */
+export function isDeniedFileType(
+  filename: string,
+  contentType: string,
+  denylist: FileTypeDenylist = DEFAULT_DENYLIST,
+): boolean {
+  const name = filename.trim().replace(/[.\s]+$/, '');
+  const extension = name.includes('.') ? name.slice(name.lastIndexOf('.') + 1).toLowerCase() : '';
+  const type = contentType.split(';')[0].trim().toLowerCase();
+  return (
+    (extension !== '' && denylist.extensions.has(extension)) ||
+    denylist.contentTypes.has(type) ||
+    denylist.contentTypes.has(`${type.split('/')[0]}/*`)
+  );
+}
+
+/** Decoded size of base64 content without decoding it. */
+export function base64Size(content: string): number {
+  const padding = content.endsWith('==') ? 2 : content.endsWith('=') ? 1 : 0;
+  return (content.length / 4) * 3 - padding;
+}
+
+/**
+ * Validate the attachments field of a send request. Throws AttachmentError
+ * with 400 for malformed input, 413 when over the size limit and 415 for
+ * blocked file types.
+ */
+export function parseAttachments(
+  value: unknown,
+  maxBytes: number = getMaxAttachmentBytes(),
+): EmailAttachment[] {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value)) {
+    throw new AttachmentError('attachments must be an array', 400);
+  }
+  if (value.length > MAX_ATTACHMENTS) {
+    throw new AttachmentError(`at most ${MAX_ATTACHMENTS} attachments allowed`, 400);
+  }
+
+  let totalBytes = 0;
+  const attachments = value.map((item, index): EmailAttachment => {
+    const field = `attachments[${index}]`;
+    if (!item || typeof item !== 'object') {
+      throw new AttachmentError(`${field} must be an object`, 400);
+    }
+    const raw = item as Record<string, unknown>;
+
+    const filename = typeof raw.filename === 'string' ? raw.filename.trim() : '';
+    if (!filename || filename.length > 255 || /[\\/\r\n"]/.test(filename)) {
+      throw new AttachmentError(`${field}.filename must be a plain file name`, 400);
+    }
+
+    const contentType =
+      typeof (raw.contentType ?? raw.content_type) === 'string'
+        ? String(raw.contentType ?? raw.content_type).trim().toLowerCase()
+        : '';
+    if (!CONTENT_TYPE.test(contentType)) {
+      throw new AttachmentError(`${field}.contentType must be a MIME type`, 400);
+    }
+
+    const content =
+      typeof raw.content === 'string' ? raw.content.replace(/\s+/g, '') : '';
+    if (!content || !BASE64.test(content)) {
+      throw new AttachmentError(`${field}.content must be base64`, 400);
+    }
+
+    const contentIdRaw = raw.contentId ?? raw.content_id;
+    let contentId: string | undefined;
+    if (contentIdRaw !== undefined) {
+      contentId =
+        typeof contentIdRaw === 'string' ? contentIdRaw.trim().replace(/^<|>$/g, '') : '';
+      if (!contentId || /[\s<>]/.test(contentId)) {
+        throw new AttachmentError(`${field}.contentId must be a non-empty token`, 400);
+      }
+    }
+
+    if (isDeniedFileType(filename, contentType)) {
+      throw new AttachmentError(`${field}: file type not allowed`, 415);
+    }
+
+    totalBytes += base64Size(content);
+    return { filename, content, contentType, ...(contentId ? { contentId } : {}) };
+  });
+
+  if (totalBytes > maxBytes) {
+    throw new AttachmentError(
+      `attachments exceed ${maxBytes} bytes (got ${totalBytes})`,
+      413,
+    );
+  }
+  return attachments;
+}
@@ -10,6 +10,13 @@ export interface ReplayStore {
   isUsed(tokenId: string): boolean;
   /** Mark token as used. Expires after ttlMs. */
   markUsed(tokenId: string, ttlMs: number): void;
+  /**
+   * Mark token as used unless it already is, in one step. Returns false when
+   * it was already used, so concurrent requests cannot both pass.
+   */
+  claim(tokenId: string, ttlMs: number): boolean;
+  /** Forget a claimed token so it can be used again (e.g. after a failure). */
+  release(tokenId: string): void;
 }
 
 const DEFAULT_TTL_MS = 5 * 60 * 1000; // 5 minutes, matches verifier replay window
@@ -27,6 +34,16 @@ export class InMemoryReplayStore implements ReplayStore {
     this.entries.set(tokenId, Date.now() + ttlMs);
   }
 
+  claim(tokenId: string, ttlMs: number = DEFAULT_TTL_MS): boolean {
+    if (this.isUsed(tokenId)) return false;
+    this.markUsed(tokenId, ttlMs);
+    return true;
+  }
+
+  release(tokenId: string): void {
+    this.entries.delete(tokenId);
+  }
+
   private evictExpired(): void {
     const now = Date.now();
     for (const [id, expiresAt] of this.entries.entries()) {
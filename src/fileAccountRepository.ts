@@ -4,6 +4,7 @@ import { basename, dirname, join } from 'node:path';
 
 import type {
   Account,
+  AccountProvisioningUpdate,
   AccountRepository,
   AccountStatus,
   CreateAccountInput,
@@ -45,6 +46,12 @@ export class FileAccountRepository implements AccountRepository {
         createdAt: now,
         updatedAt: now,
       };
+      if (input.failoverProviders?.length) {
+        account.failoverProviders = [...input.failoverProviders];
+      }
+      if (input.agentIds?.length) {
+        account.agentIds = [...new Set(input.agentIds)];
+      }
 
       store.accounts.push(account);
       await this.writeStore(store);
@@ -71,6 +78,11 @@ export class FileAccountRepository implements AccountRepository {
     return [...store.accounts];
   }
 
+  async listByAgent(agentId: string): Promise<Account[]> {
+    const store = await this.readStore();
+    return store.accounts.filter((account) => account.agentIds?.includes(agentId));
+  }
+
   async updateStatus(id: string, status: AccountStatus): Promise<Account | null> {
     return this.withWriteLock(async () => {
       const store = await this.readStore();
@@ -88,6 +100,56 @@ export class FileAccountRepository implements AccountRepository {
     });
   }
 
+  async updateProvisioning(
+    id: string,
+    update: AccountProvisioningUpdate,
+  ): Promise<Account | null> {
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      const account = store.accounts.find((item) => item.id === id);
+
+      if (!account) {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      if (update.error) {
+        account.provisioningError = update.error;
+      } else {
+        if (update.status) account.status = update.status;
+        if (update.externalId !== undefined) account.externalId = update.externalId;
+        if (update.metadata !== undefined) account.providerMetadata = update.metadata;
+        account.provisionedAt = now;
+        delete account.provisioningError;
+      }
+      account.updatedAt = now;
+
+      await this.writeStore(store);
+      return account;
+    });
+  }
+
+  async updateAgents(id: string, agentIds: string[]): Promise<Account | null> {
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      const account = store.accounts.find((item) => item.id === id);
+
+      if (!account) {
+        return null;
+      }
+
+      if (agentIds.length) {
+        account.agentIds = [...new Set(agentIds)];
+      } else {
+        delete account.agentIds;
+      }
+      account.updatedAt = new Date().toISOString();
+
+      await this.writeStore(store);
+      return account;
+    });
+  }
+
   private async withWriteLock<T>(operation: () => Promise<T>): Promise<T> {
     const previous = this.writeQueue;
     let release!: () => void;
@@ -0,0 +1,200 @@
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+
+import type {
+  CreateMessageInput,
+  MessageEvent,
+  MessageListFilter,
+  MessageRepository,
+  MessageStatus,
+  MessageStatusUpdate,
+  SentMessage,
+} from './messages.js';
+
+interface MessageStore {
+  messages: SentMessage[];
+}
+
+const DEFAULT_LIST_LIMIT = 50;
+
+export class FileMessageRepository implements MessageRepository {
+  private readonly filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async create(input: CreateMessageInput): Promise<SentMessage> {
+    const now = new Date().toISOString();
+    const status = input.status ?? 'queued';
+    const message: SentMessage = {
+      id: input.id ?? randomUUID(),
+      accountId: input.accountId,
+      tenantId: input.tenantId,
+      agentId: input.agentId,
+      to: input.to,
+      ...(input.cc?.length ? { cc: input.cc } : {}),
+      ...(input.bcc?.length ? { bcc: input.bcc } : {}),
+      subject: input.subject,
+      status,
+      ...(input.scheduledAt ? { scheduledAt: input.scheduledAt } : {}),
+      cost: input.cost ?? 0,
+      provider: input.provider,
+      providerMessageId: input.providerMessageId,
+      lastError: input.error,
+      events: [input.error ? { status, at: now, detail: input.error } : { status, at: now }],
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      if (store.messages.some((item) => item.id === message.id)) {
+        throw new Error(`Message already exists: ${message.id}`);
+      }
+      store.messages.push(message);
+      await this.writeStore(store);
+      return message;
+    });
+  }
+
+  async getById(id: string): Promise<SentMessage | null> {
+    const store = await this.readStore();
+    return store.messages.find((message) => message.id === id) ?? null;
+  }
+
+  async getByProviderMessageId(providerMessageId: string): Promise<SentMessage | null> {
+    const store = await this.readStore();
+    return (
+      store.messages.find((message) => message.providerMessageId === providerMessageId) ?? null
+    );
+  }
+
+  async list(filter: MessageListFilter): Promise<SentMessage[]> {
+    const store = await this.readStore();
+    const sinceMs = filter.since?.getTime();
+    return store.messages
+      .filter((message) => {
+        if (filter.agentId !== undefined && message.agentId !== filter.agentId) return false;
+        if (filter.accountId !== undefined && message.accountId !== filter.accountId) return false;
+        if (filter.status !== undefined && message.status !== filter.status) return false;
+        if (sinceMs !== undefined && Date.parse(message.createdAt) < sinceMs) return false;
+        return true;
+      })
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .slice(0, filter.limit ?? DEFAULT_LIST_LIMIT);
+  }
+
+  async updateStatus(
+    id: string,
+    status: MessageStatus,
+    update: MessageStatusUpdate = {},
+  ): Promise<SentMessage | null> {
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      const message = store.messages.find((item) => item.id === id);
+
+      if (!message) {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      message.status = status;
+      if (update.provider !== undefined) message.provider = update.provider;
+      if (update.providerMessageId !== undefined) {
+        message.providerMessageId = update.providerMessageId;
+      }
+      if (update.cost !== undefined) message.cost = update.cost;
+      if (status === 'failed' || status === 'bounced') {
+        if (update.detail) message.lastError = update.detail;
+      }
+      message.events.push(buildEvent(status, now, update.type, update.detail));
+      message.updatedAt = now;
+
+      await this.writeStore(store);
+      return message;
+    });
+  }
+
+  async recordEvent(id: string, type: string, detail?: string): Promise<SentMessage | null> {
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      const message = store.messages.find((item) => item.id === id);
+
+      if (!message) {
+        return null;
+      }
+
+      const now = new Date().toISOString();
+      message.events.push(buildEvent(message.status, now, type, detail));
+      message.updatedAt = now;
+
+      await this.writeStore(store);
+      return message;
+    });
+  }
+
+  private async withWriteLock<T>(operation: () => Promise<T>): Promise<T> {
+    const previous = this.writeQueue;
+    let release!: () => void;
+    this.writeQueue = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    await previous;
+    try {
+      return await operation();
+    } finally {
+      release();
+    }
+  }
+
+  private async readStore(): Promise<MessageStore> {
+    await this.ensureStoreFile();
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw) as Partial<MessageStore>;
+      if (!Array.isArray(parsed.messages)) {
+        return { messages: [] };
+      }
+      return { messages: parsed.messages };
+    } catch {
+      return { messages: [] };
+    }
+  }
+
+  private async writeStore(store: MessageStore): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    const tempPath = join(
+      dirname(this.filePath),
+      `${basename(this.filePath)}.${process.pid}.${Date.now()}.tmp`,
+    );
+    const payload = JSON.stringify(store, null, 2) + '\n';
+    await fs.writeFile(tempPath, payload, 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private async ensureStoreFile(): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      await this.writeStore({ messages: [] });
+    }
+  }
+}
+
+function buildEvent(
+  status: MessageStatus,
+  at: string,
+  type?: string,
+  detail?: string,
+): MessageEvent {
+  const event: MessageEvent = { status, at };
+  if (type) event.type = type;
+  if (detail) event.detail = detail;
+  return event;
+}
@@ -0,0 +1,164 @@
+/**
+ * File-based suppression list. Recipients here are refused before a send is
+ * charged. Entries are global or scoped to one account, and come from hard
+ * bounces, complaints or admin input.
+ */
+
+import { promises as fs } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+
+export type SuppressionReason = 'bounce' | 'complaint' | 'manual';
+
+export interface Suppression {
+  email: string;
+  /** Account the suppression applies to; omitted for global suppressions. */
+  accountId?: string;
+  reason: SuppressionReason;
+  detail?: string;
+  /** Message whose bounce/complaint caused the suppression. */
+  messageId?: string;
+  createdAt: string;
+}
+
+export interface AddSuppressionInput {
+  email: string;
+  accountId?: string;
+  reason: SuppressionReason;
+  detail?: string;
+  messageId?: string;
+}
+
+export interface SuppressionStoreInterface {
+  /** The suppression blocking `email` for `accountId` (account-scoped or global), if any. */
+  find(email: string, accountId?: string): Promise<Suppression | null>;
+  list(filter?: { accountId?: string; email?: string }): Promise<Suppression[]>;
+  /** Add or replace the entry for this email and scope. */
+  add(input: AddSuppressionInput): Promise<Suppression>;
+  /** Remove the entry for this email and scope. Returns false when absent. */
+  remove(email: string, accountId?: string): Promise<boolean>;
+}
+
+interface SuppressionStoreData {
+  suppressions: Suppression[];
+}
+
+export const SUPPRESSION_REASONS: SuppressionReason[] = ['bounce', 'complaint', 'manual'];
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+function sameScope(entry: Suppression, email: string, accountId?: string): boolean {
+  return entry.email === email && (entry.accountId ?? undefined) === (accountId || undefined);
+}
+
+export class FileSuppressionStore implements SuppressionStoreInterface {
+  private readonly filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async find(email: string, accountId?: string): Promise<Suppression | null> {
+    const normalized = normalizeEmail(email);
+    const store = await this.readStore();
+    return (
+      (accountId
+        ? store.suppressions.find((entry) => sameScope(entry, normalized, accountId))
+        : undefined) ??
+      store.suppressions.find((entry) => sameScope(entry, normalized)) ??
+      null
+    );
+  }
+
+  async list(filter: { accountId?: string; email?: string } = {}): Promise<Suppression[]> {
+    const store = await this.readStore();
+    const email = filter.email ? normalizeEmail(filter.email) : undefined;
+    return store.suppressions.filter(
+      (entry) =>
+        (filter.accountId === undefined || entry.accountId === filter.accountId) &&
+        (email === undefined || entry.email === email)
+    );
+  }
+
+  async add(input: AddSuppressionInput): Promise<Suppression> {
+    const entry: Suppression = {
+      email: normalizeEmail(input.email),
+      reason: input.reason,
+      createdAt: new Date().toISOString(),
+    };
+    if (input.accountId) entry.accountId = input.accountId;
+    if (input.detail) entry.detail = input.detail;
+    if (input.messageId) entry.messageId = input.messageId;
+
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      store.suppressions = store.suppressions.filter(
+        (existing) => !sameScope(existing, entry.email, entry.accountId)
+      );
+      store.suppressions.push(entry);
+      await this.writeStore(store);
+      return entry;
+    });
+  }
+
+  async remove(email: string, accountId?: string): Promise<boolean> {
+    const normalized = normalizeEmail(email);
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      const remaining = store.suppressions.filter(
+        (entry) => !sameScope(entry, normalized, accountId)
+      );
+      if (remaining.length === store.suppressions.length) return false;
+      store.suppressions = remaining;
+      await this.writeStore(store);
+      return true;
+    });
+  }
+
+  private async withWriteLock<T>(operation: () => Promise<T>): Promise<T> {
+    const previous = this.writeQueue;
+    let release!: () => void;
+    this.writeQueue = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    await previous;
+    try {
+      return await operation();
+    } finally {
+      release();
+    }
+  }
+
+  private async readStore(): Promise<SuppressionStoreData> {
+    await this.ensureStoreFile();
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw) as Partial<SuppressionStoreData>;
+      return { suppressions: Array.isArray(parsed.suppressions) ? parsed.suppressions : [] };
+    } catch {
+      return { suppressions: [] };
+    }
+  }
+
+  private async writeStore(store: SuppressionStoreData): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    const tempPath = join(
+      dirname(this.filePath),
+      `${basename(this.filePath)}.${process.pid}.${Date.now()}.tmp`
+    );
+    const payload = JSON.stringify(store, null, 2) + '\n';
+    await fs.writeFile(tempPath, payload, 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private async ensureStoreFile(): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      await this.writeStore({ suppressions: [] });
+    }
+  }
+}
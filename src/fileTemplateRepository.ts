@@ -0,0 +1,139 @@
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+
+import type {
+  CreateTemplateInput,
+  EmailTemplate,
+  TemplateRepository,
+  UpdateTemplateInput,
+} from './templates.js';
+import { extractTemplateVariables } from './templates.js';
+
+interface TemplateStore {
+  templates: EmailTemplate[];
+}
+
+export class FileTemplateRepository implements TemplateRepository {
+  private readonly filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+  }
+
+  async create(input: CreateTemplateInput): Promise<EmailTemplate> {
+    const now = new Date().toISOString();
+    const template: EmailTemplate = {
+      id: randomUUID(),
+      name: input.name,
+      subject: input.subject,
+      ...(input.text !== undefined ? { text: input.text } : {}),
+      ...(input.html !== undefined ? { html: input.html } : {}),
+      variables: extractTemplateVariables(input.subject, input.text, input.html),
+      createdAt: now,
+      updatedAt: now,
+    };
+
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      store.templates.push(template);
+      await this.writeStore(store);
+      return template;
+    });
+  }
+
+  async getById(id: string): Promise<EmailTemplate | null> {
+    const store = await this.readStore();
+    return store.templates.find((template) => template.id === id) ?? null;
+  }
+
+  async list(): Promise<EmailTemplate[]> {
+    const store = await this.readStore();
+    return [...store.templates].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async update(id: string, input: UpdateTemplateInput): Promise<EmailTemplate | null> {
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      const template = store.templates.find((item) => item.id === id);
+
+      if (!template) {
+        return null;
+      }
+
+      if (input.name !== undefined) template.name = input.name;
+      if (input.subject !== undefined) template.subject = input.subject;
+      if (input.text === null) delete template.text;
+      else if (input.text !== undefined) template.text = input.text;
+      if (input.html === null) delete template.html;
+      else if (input.html !== undefined) template.html = input.html;
+      template.variables = extractTemplateVariables(template.subject, template.text, template.html);
+      template.updatedAt = new Date().toISOString();
+
+      await this.writeStore(store);
+      return template;
+    });
+  }
+
+  async delete(id: string): Promise<boolean> {
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      const remaining = store.templates.filter((template) => template.id !== id);
+      if (remaining.length === store.templates.length) return false;
+      store.templates = remaining;
+      await this.writeStore(store);
+      return true;
+    });
+  }
+
+  private async withWriteLock<T>(operation: () => Promise<T>): Promise<T> {
+    const previous = this.writeQueue;
+    let release!: () => void;
+    this.writeQueue = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    await previous;
+    try {
+      return await operation();
+    } finally {
+      release();
+    }
+  }
+
+  private async readStore(): Promise<TemplateStore> {
+    await this.ensureStoreFile();
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw) as Partial<TemplateStore>;
+      if (!Array.isArray(parsed.templates)) {
+        return { templates: [] };
+      }
+      return { templates: parsed.templates };
+    } catch {
+      return { templates: [] };
+    }
+  }
+
+  private async writeStore(store: TemplateStore): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    const tempPath = join(
+      dirname(this.filePath),
+      `${basename(this.filePath)}.${process.pid}.${Date.now()}.tmp`,
+    );
+    const payload = JSON.stringify(store, null, 2) + '\n';
+    await fs.writeFile(tempPath, payload, 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private async ensureStoreFile(): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      await this.writeStore({ templates: [] });
+    }
+  }
+}
@@ -3,14 +3,29 @@
  * Used to enforce per-tenant email send limits.
  */
 
+import { randomUUID } from 'node:crypto';
 import { promises as fs } from 'node:fs';
 import { basename, dirname, join } from 'node:path';
 
+/**
+ * Credits set aside for an in-flight operation. Reserving debits the wallet
+ * immediately; committing keeps the debit, releasing refunds it.
+ */
+export interface CreditHold {
+  id: string;
+  tenantId: string;
+  amount: number;
+  createdAt: string;
+}
+
 interface WalletStore {
   wallets: Record<string, number>;
+  holds: Record<string, CreditHold>;
 }
 
-const EMPTY_STORE: WalletStore = { wallets: {} };
+function emptyStore(): WalletStore {
+  return { wallets: {}, holds: {} };
+}
 
 function getAdminTenantIds(): Set<string> {
   const raw = process.env.ADMIN_TENANT_IDS;
@@ -32,6 +47,25 @@ export interface WalletStoreInterface {
   getBalance(tenantId: string): Promise<number>;
   deduct(tenantId: string, amount: number): Promise<{ success: boolean; newBalance: number }>;
   add(tenantId: string, amount: number): Promise<number>;
+  /** Debit `amount` into a hold; fails without change when the balance is short. */
+  reserve(tenantId: string, amount: number): Promise<{
+    success: boolean;
+    hold?: CreditHold;
+    newBalance: number;
+  }>;
+  /**
+   * Debit one hold per amount, all or none: fails without change when the
+   * balance does not cover the total.
+   */
+  reserveAll(tenantId: string, amounts: number[]): Promise<{
+    success: boolean;
+    holds?: CreditHold[];
+    newBalance: number;
+  }>;
+  /** Finalize a hold. Returns false when the hold is unknown or already settled. */
+  commit(holdId: string): Promise<{ success: boolean; newBalance: number | null }>;
+  /** Refund a hold to its tenant. Returns false when unknown or already settled. */
+  release(holdId: string): Promise<{ success: boolean; newBalance: number | null }>;
 }
 
 export class FileWalletStore implements WalletStoreInterface {
@@ -88,6 +122,87 @@ export class FileWalletStore implements WalletStoreInterface {
     });
   }
 
+  async reserve(tenantId: string, amount: number): Promise<{
+    success: boolean;
+    hold?: CreditHold;
+    newBalance: number;
+  }> {
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      const key = this.normalizeTenantId(tenantId);
+      const current = store.wallets[key] ?? this.defaultInitialCredits;
+      const held = Math.max(0, amount);
+      if (current < held) {
+        return { success: false, newBalance: current };
+      }
+      const hold: CreditHold = {
+        id: randomUUID(),
+        tenantId: key,
+        amount: held,
+        createdAt: new Date().toISOString(),
+      };
+      store.wallets[key] = current - held;
+      store.holds[hold.id] = hold;
+      await this.writeStore(store);
+      return { success: true, hold, newBalance: current - held };
+    });
+  }
+
+  async reserveAll(tenantId: string, amounts: number[]): Promise<{
+    success: boolean;
+    holds?: CreditHold[];
+    newBalance: number;
+  }> {
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      const key = this.normalizeTenantId(tenantId);
+      const current = store.wallets[key] ?? this.defaultInitialCredits;
+      const held = amounts.map((amount) => Math.max(0, amount));
+      const total = held.reduce((sum, amount) => sum + amount, 0);
+      if (current < total) {
+        return { success: false, newBalance: current };
+      }
+      const createdAt = new Date().toISOString();
+      const holds = held.map((amount): CreditHold => ({
+        id: randomUUID(),
+        tenantId: key,
+        amount,
+        createdAt,
+      }));
+      store.wallets[key] = current - total;
+      for (const hold of holds) store.holds[hold.id] = hold;
+      await this.writeStore(store);
+      return { success: true, holds, newBalance: current - total };
+    });
+  }
+
+  async commit(holdId: string): Promise<{ success: boolean; newBalance: number | null }> {
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      const hold = store.holds[holdId];
+      if (!hold) return { success: false, newBalance: null };
+      delete store.holds[holdId];
+      await this.writeStore(store);
+      return {
+        success: true,
+        newBalance: store.wallets[hold.tenantId] ?? this.defaultInitialCredits,
+      };
+    });
+  }
+
+  async release(holdId: string): Promise<{ success: boolean; newBalance: number | null }> {
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      const hold = store.holds[holdId];
+      if (!hold) return { success: false, newBalance: null };
+      delete store.holds[holdId];
+      const current = store.wallets[hold.tenantId] ?? this.defaultInitialCredits;
+      store.wallets[hold.tenantId] = current + hold.amount;
+      await this.writeStore(store);
+      return { success: true, newBalance: current + hold.amount };
+    });
+  }
+
   private normalizeTenantId(tenantId: string): string {
     return tenantId.trim().toLowerCase();
   }
@@ -112,11 +227,13 @@ export class FileWalletStore implements WalletStoreInterface {
       const raw = await fs.readFile(this.filePath, 'utf8');
       const parsed = JSON.parse(raw) as Partial<WalletStore>;
       if (!parsed.wallets || typeof parsed.wallets !== 'object') {
-        return { ...EMPTY_STORE };
+        return emptyStore();
       }
-      return { wallets: { ...parsed.wallets } };
+      const holds =
+        parsed.holds && typeof parsed.holds === 'object' ? { ...parsed.holds } : {};
+      return { wallets: { ...parsed.wallets }, holds };
     } catch {
-      return { ...EMPTY_STORE };
+      return emptyStore();
     }
   }
 
@@ -136,7 +253,7 @@ export class FileWalletStore implements WalletStoreInterface {
     try {
       await fs.access(this.filePath);
     } catch {
-      await this.writeStore({ ...EMPTY_STORE });
+      await this.writeStore(emptyStore());
     }
   }
 }
@@ -0,0 +1,67 @@
+import type { WalletStoreInterface } from '../fileWalletStore.js';
+import type { MessageRepository } from '../messages.js';
+import type { OutboundQueue } from '../queue/outboundQueue.js';
+import { settleHold } from './sendEmail.js';
+
+export interface CancelEmailDeps {
+  outboundQueue: OutboundQueue;
+  messageRepository: MessageRepository;
+  walletStore?: WalletStoreInterface;
+}
+
+export interface CancelEmailContext {
+  /** Verified agent making the request; only the sending agent may cancel. */
+  agentId?: string;
+}
+
+export interface CancelEmailResult {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Cancel an email the outbound worker has not yet claimed (typically a
+ * scheduled send) and release its credit hold.
+ */
+export async function processCancelEmail(
+  id: string,
+  deps: CancelEmailDeps,
+  context: CancelEmailContext = {},
+): Promise<CancelEmailResult> {
+  const message = await deps.messageRepository.getById(id);
+  if (!message || message.agentId !== context.agentId) {
+    return { status: 404, body: { error: 'Email not found' } };
+  }
+
+  // The queue decides atomically, so a message the worker is already
+  // delivering can't be cancelled out from under it.
+  const cancelled = await deps.outboundQueue.cancel(id);
+  if (!cancelled) {
+    const queued = await deps.outboundQueue.get(id);
+    return {
+      status: 409,
+      body: {
+        error: 'Email can no longer be cancelled',
+        status: queued?.status ?? message.status,
+      },
+    };
+  }
+
+  const balance = await settleHold(deps.walletStore, cancelled.holdId, 'release');
+  await deps.messageRepository.updateStatus(id, 'cancelled', { cost: 0 });
+  console.log(JSON.stringify({
+    level: 'info',
+    msg: 'outbound_cancelled',
+    messageId: id,
+    scheduledAt: cancelled.scheduledAt,
+  }));
+
+  return {
+    status: 200,
+    body: {
+      id,
+      status: 'cancelled',
+      ...(balance === undefined ? {} : { balance }),
+    },
+  };
+}
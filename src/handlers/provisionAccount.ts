@@ -0,0 +1,76 @@
+import type { Account, AccountRepository } from '../accounts.js';
+import { toPublicAccount } from '../accounts.js';
+import type { ProviderAccountSecrets, ProviderAdapter } from '../providers.js';
+import type { CredentialVault } from '../secrets/credentialVault.js';
+
+export interface ProvisionAccountOptions {
+  /** Preferred from-address passed through to the provider. */
+  requestedFromAddress?: string;
+  /** Caller-supplied credentials; falls back to those stored in the vault. */
+  credentials?: ProviderAccountSecrets;
+}
+
+export interface ProvisionAccountDeps {
+  accountRepository: AccountRepository;
+  getProviderAdapter(provider: string): ProviderAdapter;
+  /** Encrypted store for provider credentials. Without it credentials are not persisted. */
+  credentialVault?: CredentialVault;
+}
+
+export interface ProvisionAccountHandlerResult {
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Run the provider's provisioning step for an account and persist the outcome
+ * (status, externalId, metadata; credentials go to the vault). Failures are
+ * recorded on the account as provisioningError so they can be retried via
+ * reprovision.
+ */
+export async function processProvisionAccount(
+  account: Account,
+  options: ProvisionAccountOptions,
+  deps: ProvisionAccountDeps,
+): Promise<ProvisionAccountHandlerResult> {
+  try {
+    // Store caller-supplied credentials first so a failed attempt can be
+    // retried without resending them.
+    if (options.credentials && deps.credentialVault) {
+      await deps.credentialVault.set(account.id, options.credentials);
+    }
+    const credentials =
+      options.credentials ?? (await deps.credentialVault?.get(account.id)) ?? undefined;
+
+    const adapter = deps.getProviderAdapter(account.provider);
+    const result = await adapter.provisionAccount({
+      account,
+      requestedFromAddress: options.requestedFromAddress,
+      credentials,
+    });
+    if (result.credentials && result.credentials !== credentials && deps.credentialVault) {
+      await deps.credentialVault.set(account.id, result.credentials);
+    }
+    const updated = await deps.accountRepository.updateProvisioning(account.id, {
+      status: result.status ?? result.account.status,
+      externalId: result.externalId,
+      metadata: result.metadata,
+    });
+    if (!updated) {
+      return { status: 404, body: { error: 'Account not found' } };
+    }
+    return { status: 200, body: toPublicAccount(updated) };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Provisioning failed';
+    const updated = await deps.accountRepository.updateProvisioning(account.id, {
+      error: message,
+    });
+    return {
+      status: 502,
+      body: {
+        error: `Provisioning failed: ${message}`,
+        account: toPublicAccount(updated ?? account),
+      },
+    };
+  }
+}
@@ -0,0 +1,315 @@
+import type { Account, AccountRepository } from '../accounts.js';
+import {
+  getMaxReceivedAttachmentBytes,
+  getReceivedAttachmentDenylist,
+  isDeniedFileType,
+  type FileTypeDenylist,
+} from '../attachments.js';
+import { parseMimeMessage, type ParsedAttachment, type ParsedMessage } from '../mime/parser.js';
+import {
+  pairAttachments,
+  type AttachmentMetadata,
+  type RawMessageOptions,
+  type RawMessageResult,
+} from '../inbound/rawMessage.js';
+import type { LocalListReceivedEmailsOptions } from '../inbound/inboundStore.js';
+import { getInboundMaxMessageBytes } from '../inbound/smtpServer.js';
+import type {
+  ReceivedEmailFull,
+  ReceivedEmailSummary,
+  getReceivedEmail,
+  listReceivedEmails,
+} from '../resendReceiving.js';
+
+export interface ReceivedEmailDeps {
+  accountRepository: AccountRepository;
+  /** Applies `include` before paginating. */
+  listReceivedEmails: (options?: LocalListReceivedEmailsOptions) => ReturnType<typeof listReceivedEmails>;
+  getReceivedEmail: typeof getReceivedEmail;
+  /** Original RFC 822 bytes of a received email, for `parsed: 'full'`. */
+  getRawMessage?: (id: string, options?: RawMessageOptions) => Promise<RawMessageResult>;
+  /** Stored size of an attachment, checked before its message is loaded. */
+  getAttachmentSize?: (id: string, attachmentId: string) => Promise<number | undefined>;
+}
+
+export interface ReceivedAttachmentLimits {
+  /** Defaults to RECEIVED_ATTACHMENT_DENYLIST. */
+  denylist?: FileTypeDenylist;
+  /** Defaults to RECEIVED_ATTACHMENT_MAX_BYTES. */
+  maxBytes?: number;
+  /** Largest raw message loaded to extract from; defaults to INBOUND_SMTP_MAX_BYTES. */
+  maxMessageBytes?: number;
+}
+
+export interface ReceivedAttachmentResult extends ReceivedEmailResult {
+  /** Set on success: the part to send as the response body. */
+  attachment?: { filename: string; contentType: string; content: Buffer };
+}
+
+export interface GetReceivedEmailOptions {
+  /** 'full' adds the message as parsed from its raw source. */
+  parsed?: 'full';
+}
+
+export interface ReceivedEmailContext {
+  /** Verified agent making the request; sees only mail for accounts it owns. */
+  agentId?: string;
+}
+
+export interface ReceivedEmailResult {
+  status: number;
+  body: unknown;
+}
+
+/** Bare, lower-cased address from "addr" or "Name <addr>". */
+function bareAddress(address: string): string {
+  const match = /<([^>]+)>\s*$/.exec(address);
+  return (match?.[1] ?? address).trim().toLowerCase();
+}
+
+/**
+ * Whether a received email was addressed to one of the accounts. Mail the
+ * SMTP listener took is judged by its envelope, since To and Cc are whatever
+ * the sender wrote; Resend mail by to, cc and bcc.
+ */
+export function isReceivedByAccounts(
+  email: Pick<ReceivedEmailSummary, 'to' | 'cc' | 'bcc' | 'envelope'>,
+  accounts: Account[],
+): boolean {
+  const owned = new Set(accounts.map((account) => account.email.toLowerCase()));
+  const recipients = email.envelope
+    ? email.envelope.rcpt_to
+    : [...(email.to ?? []), ...(email.cc ?? []), ...(email.bcc ?? [])];
+  return recipients.some((address) => owned.has(bareAddress(address)));
+}
+
+/**
+ * The email as the accounts' agent may see it: bcc and envelope recipients
+ * narrowed to the accounts' own addresses, so one recipient cannot learn who
+ * else was sent a blind copy.
+ */
+export function narrowToAccounts<T extends Pick<ReceivedEmailSummary, 'bcc' | 'envelope'>>(
+  email: T,
+  accounts: Account[],
+): T {
+  const owned = new Set(accounts.map((account) => account.email.toLowerCase()));
+  const own = (addresses: string[]) => addresses.filter((address) => owned.has(bareAddress(address)));
+  const { bcc, ...rest } = email;
+  const ownBcc = own(bcc ?? []);
+  return {
+    ...rest,
+    ...(ownBcc.length > 0 ? { bcc: ownBcc } : {}),
+    ...(email.envelope
+      ? { envelope: { ...email.envelope, rcpt_to: own(email.envelope.rcpt_to) } }
+      : {}),
+  } as T;
+}
+
+/** Accounts the agent owns; none when the request carries no agent. */
+export async function getAgentAccounts(
+  accountRepository: AccountRepository,
+  agentId: string | undefined,
+): Promise<Account[]> {
+  return agentId ? accountRepository.listByAgent(agentId) : [];
+}
+
+/**
+ * One page of received mail addressed to the agent's accounts. Other mail is
+ * filtered out before paginating, so `limit`, `has_more` and the after/before
+ * cursors count only the agent's messages.
+ */
+export async function processListReceivedEmails(
+  options: Parameters<typeof listReceivedEmails>[0],
+  deps: ReceivedEmailDeps,
+  context: ReceivedEmailContext = {},
+): Promise<ReceivedEmailResult> {
+  const accounts = await getAgentAccounts(deps.accountRepository, context.agentId);
+  if (accounts.length === 0) {
+    return { status: 200, body: { object: 'list', has_more: false, data: [] } };
+  }
+  const result = await deps.listReceivedEmails({
+    ...options,
+    include: (email) => isReceivedByAccounts(email, accounts),
+  });
+  if (!result.ok) {
+    return {
+      status: result.status || 502,
+      body: { error: result.error ?? 'Failed to list received emails' },
+    };
+  }
+  const page = result.data ?? { object: 'list', has_more: false, data: [] };
+  return {
+    status: 200,
+    body: {
+      ...page,
+      data: page.data.map((email) => narrowToAccounts(email, accounts)),
+    },
+  };
+}
+
+/**
+ * Headers, decoded bodies and attachment parts of a parsed message, without
+ * content bytes. Parts are labelled with the attachment IDs they match.
+ */
+function describeParsedMessage(message: ParsedMessage, metadata: AttachmentMetadata[]) {
+  const pairs = pairAttachments(metadata, message.attachments);
+  const describe = (part: ParsedAttachment) => ({
+    id: pairs.get(part)?.id ?? null,
+    filename: part.filename,
+    content_type: part.contentType,
+    content_disposition: part.disposition,
+    content_id: part.contentId ?? null,
+    size: part.size,
+  });
+  return {
+    headers: message.headers,
+    text: message.text ?? null,
+    html: message.html ?? null,
+    charsets: { text: message.textCharset ?? null, html: message.htmlCharset ?? null },
+    attachments: message.attachments.filter((part) => part.disposition === 'attachment').map(describe),
+    inline: message.attachments.filter((part) => part.disposition === 'inline').map(describe),
+  };
+}
+
+/**
+ * A received email, if it was addressed to one of the agent's accounts; a
+ * 404 result otherwise, so other accounts' mail is indistinguishable from
+ * mail that does not exist.
+ */
+async function getOwnedReceivedEmail(
+  id: string,
+  deps: ReceivedEmailDeps,
+  context: ReceivedEmailContext,
+): Promise<{ email: ReceivedEmailFull } | { error: ReceivedEmailResult }> {
+  const accounts = await getAgentAccounts(deps.accountRepository, context.agentId);
+  if (accounts.length === 0) {
+    return { error: { status: 404, body: { error: 'Received email not found' } } };
+  }
+  const result = await deps.getReceivedEmail(id);
+  if (!result.ok || !result.data) {
+    if (result.status === 404) {
+      return { error: { status: 404, body: { error: 'Received email not found' } } };
+    }
+    return {
+      error: {
+        status: result.status || 502,
+        body: { error: result.error ?? 'Failed to retrieve received email' },
+      },
+    };
+  }
+  if (!isReceivedByAccounts(result.data, accounts)) {
+    return { error: { status: 404, body: { error: 'Received email not found' } } };
+  }
+  return { email: narrowToAccounts(result.data, accounts) };
+}
+
+/** Raw bytes for a received email, or the error result to return. */
+async function getRawForEmail(
+  id: string,
+  deps: ReceivedEmailDeps,
+  options: RawMessageOptions = {},
+): Promise<{ raw: Buffer } | { error: ReceivedEmailResult }> {
+  if (!deps.getRawMessage) {
+    return { error: { status: 501, body: { error: 'Raw messages are not available' } } };
+  }
+  const raw = await deps.getRawMessage(id, options);
+  if (!raw.ok || !raw.data) {
+    return {
+      error: {
+        status: raw.status || 502,
+        body: { error: raw.error ?? 'Failed to load raw message' },
+      },
+    };
+  }
+  return { raw: raw.data };
+}
+
+/**
+ * A single received email, if it was addressed to one of the agent's
+ * accounts; 404 otherwise. With `parsed: 'full'` the raw message is parsed
+ * too, which gives content even when the stored `text` is null.
+ */
+export async function processGetReceivedEmail(
+  id: string,
+  deps: ReceivedEmailDeps,
+  context: ReceivedEmailContext = {},
+  options: GetReceivedEmailOptions = {},
+): Promise<ReceivedEmailResult> {
+  const owned = await getOwnedReceivedEmail(id, deps, context);
+  if ('error' in owned) return owned.error;
+  if (options.parsed !== 'full') {
+    return { status: 200, body: owned.email };
+  }
+
+  const raw = await getRawForEmail(id, deps);
+  if ('error' in raw) return raw.error;
+  return {
+    status: 200,
+    body: {
+      ...owned.email,
+      parsed: describeParsedMessage(parseMimeMessage(raw.raw), owned.email.attachments ?? []),
+    },
+  };
+}
+
+/**
+ * The bytes of one attachment of a received email the agent owns, found by
+ * the attachment ID in the email's metadata and extracted from the raw
+ * message. Denied file types (by name or content type, in the metadata or
+ * the part itself) answer 415, and parts over the size cap 413. Sizes are
+ * checked before the message is loaded where they are known, and only the
+ * requested part is decoded.
+ */
+export async function processGetReceivedAttachment(
+  id: string,
+  attachmentId: string,
+  deps: ReceivedEmailDeps,
+  context: ReceivedEmailContext = {},
+  limits: ReceivedAttachmentLimits = {},
+): Promise<ReceivedAttachmentResult> {
+  const owned = await getOwnedReceivedEmail(id, deps, context);
+  if ('error' in owned) return owned.error;
+  const attachments = owned.email.attachments ?? [];
+  const metadata = attachments.find((attachment) => attachment.id === attachmentId);
+  if (!metadata) {
+    return { status: 404, body: { error: 'Attachment not found' } };
+  }
+
+  const denylist = limits.denylist ?? getReceivedAttachmentDenylist();
+  const maxBytes = limits.maxBytes ?? getMaxReceivedAttachmentBytes();
+  const denied = { status: 415, body: { error: 'Attachment type not allowed' } };
+  const tooLarge = { status: 413, body: { error: `Attachment exceeds ${maxBytes} bytes` } };
+  if (isDeniedFileType(metadata.filename, metadata.content_type, denylist)) return denied;
+  const storedSize = await deps.getAttachmentSize?.(id, attachmentId);
+  if (storedSize !== undefined && storedSize > maxBytes) return tooLarge;
+
+  const raw = await getRawForEmail(id, deps, {
+    maxBytes: limits.maxMessageBytes ?? getInboundMaxMessageBytes(),
+  });
+  if ('error' in raw) return raw.error;
+  // Find the part from the structure alone, then decode just that one
+  const structure = parseMimeMessage(raw.raw, { decodeAttachment: () => false }).attachments;
+  const pairs = pairAttachments(attachments, structure);
+  const index = structure.findIndex((part) => pairs.get(part)?.id === attachmentId);
+  const outline = structure[index];
+  if (!outline) {
+    return { status: 404, body: { error: 'Attachment content not found in message' } };
+  }
+  if (isDeniedFileType(outline.filename, outline.contentType, denylist)) return denied;
+  const part = parseMimeMessage(raw.raw, { decodeAttachment: (i) => i === index }).attachments[index];
+  if (part.size > maxBytes) return tooLarge;
+
+  // Both end up in response headers; keep them to safe characters
+  const contentType = /^[a-z0-9!#$&^_.+-]+\/[a-z0-9!#$&^_.+-]+$/.test(part.contentType)
+    ? part.contentType
+    : 'application/octet-stream';
+  return {
+    status: 200,
+    body: null,
+    attachment: {
+      filename: part.filename.replace(/[\x00-\x1f\x7f"\\/]/g, '_'),
+      contentType,
+      content: part.content,
+    },
+  };
+}
@@ -0,0 +1,144 @@
+import type { SuppressionStoreInterface } from '../fileSuppressionStore.js';
+import type { MessageRepository, MessageStatus, SentMessage } from '../messages.js';
+import { isStatusAdvance } from '../messages.js';
+
+/** Resend webhook payload (email.* events). */
+export interface ResendWebhookEvent {
+  type?: string;
+  created_at?: string;
+  data?: {
+    email_id?: string;
+    to?: string[];
+    bounce?: { message?: string; type?: string; subType?: string };
+    failed?: { reason?: string };
+    click?: { link?: string };
+    [key: string]: unknown;
+  };
+}
+
+export interface ResendWebhookDeps {
+  messageRepository: MessageRepository;
+  /** Fed with hard bounces (global) and complaints (per account). */
+  suppressionStore?: SuppressionStoreInterface;
+  /** Fetch and store a received email (`email.received` events). */
+  ingestReceivedEmail?: (emailId: string) => Promise<{ ok: boolean; error?: string }>;
+}
+
+export interface ResendWebhookResult {
+  status: number;
+  body: unknown;
+}
+
+/** Resend event types that change message status; others are recorded as history only. */
+const STATUS_BY_EVENT: Record<string, MessageStatus> = {
+  'email.sent': 'sent',
+  'email.delivered': 'delivered',
+  'email.bounced': 'bounced',
+  'email.complained': 'complained',
+  'email.failed': 'failed',
+};
+
+function eventDetail(event: ResendWebhookEvent): string | undefined {
+  const data = event.data;
+  if (data?.bounce) {
+    return [data.bounce.type, data.bounce.subType, data.bounce.message]
+      .filter((part): part is string => typeof part === 'string' && part.length > 0)
+      .join(': ') || undefined;
+  }
+  if (data?.failed?.reason) return data.failed.reason;
+  if (data?.click?.link) return data.click.link;
+  return undefined;
+}
+
+/**
+ * Apply a verified Resend webhook event to the message it refers to (matched
+ * by the Resend email ID stored as providerMessageId). Unknown messages are
+ * acknowledged so Resend does not keep retrying them.
+ */
+export async function processResendWebhook(
+  event: ResendWebhookEvent,
+  deps: ResendWebhookDeps,
+): Promise<ResendWebhookResult> {
+  const type = typeof event?.type === 'string' ? event.type : '';
+  const emailId = event?.data?.email_id;
+  if (!type || typeof emailId !== 'string' || !emailId) {
+    return { status: 400, body: { error: 'type and data.email_id required' } };
+  }
+
+  if (type === 'email.received') {
+    return ingestReceived(emailId, deps);
+  }
+
+  const message = await deps.messageRepository.getByProviderMessageId(emailId);
+  if (!message) {
+    return { status: 200, body: { received: true, ignored: 'unknown email_id' } };
+  }
+
+  const detail = eventDetail(event);
+  const next = STATUS_BY_EVENT[type];
+  const updated =
+    next && isStatusAdvance(message.status, next)
+      ? await deps.messageRepository.updateStatus(message.id, next, { type, detail })
+      : await deps.messageRepository.recordEvent(message.id, type, detail);
+
+  await suppressFromEvent(type, event, message, detail, deps.suppressionStore);
+
+  return {
+    status: 200,
+    body: { received: true, messageId: message.id, status: updated?.status ?? message.status },
+  };
+}
+
+/**
+ * Store an inbound message locally. Fetch failures answer 502 so Resend
+ * retries the event later.
+ */
+async function ingestReceived(emailId: string, deps: ResendWebhookDeps): Promise<ResendWebhookResult> {
+  if (!deps.ingestReceivedEmail) {
+    return { status: 200, body: { received: true, ignored: 'inbound storage not configured' } };
+  }
+  const result = await deps.ingestReceivedEmail(emailId);
+  if (!result.ok) {
+    return { status: 502, body: { error: result.error ?? 'Failed to store received email' } };
+  }
+  return { status: 200, body: { received: true, emailId } };
+}
+
+/**
+ * A hard bounce means the address is undeliverable for everyone, so it is
+ * suppressed globally; a complaint is about this sender, so it is suppressed
+ * for the sending account only. Transient bounces are not suppressed.
+ *
+ * Events do not say which recipient of a multi-recipient message bounced or
+ * complained, so only single-recipient messages feed the list.
+ */
+async function suppressFromEvent(
+  type: string,
+  event: ResendWebhookEvent,
+  message: SentMessage,
+  detail: string | undefined,
+  suppressionStore: SuppressionStoreInterface | undefined,
+): Promise<void> {
+  if (!suppressionStore) return;
+  const recipients = [...message.to, ...(message.cc ?? []), ...(message.bcc ?? [])];
+  if (recipients.length !== 1) return;
+  const [email] = recipients;
+  if (type === 'email.bounced') {
+    const bounceType = event.data?.bounce?.type?.toLowerCase();
+    if (bounceType === 'transient' || bounceType === 'undetermined') return;
+    await suppressionStore.add({
+      email,
+      reason: 'bounce',
+      detail,
+      messageId: message.id,
+    });
+  } else if (type === 'email.complained') {
+    await suppressionStore.add({
+      email,
+      accountId: message.accountId,
+      reason: 'complaint',
+      detail,
+      messageId: message.id,
+    });
+  }
+}
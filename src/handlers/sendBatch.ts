@@ -0,0 +1,194 @@
+import type {
+  CreditReservation,
+  PreparedSend,
+  SendEmailContext,
+  SendEmailDeps,
+  SendEmailRequestBody,
+  SendEmailResult,
+} from './sendEmail.js';
+import { dispatchSend, prepareSend, reserveCredits } from './sendEmail.js';
+
+/**
+ * all-or-nothing: every message must validate and the tenant must afford the
+ * whole batch, or nothing is sent. per-item: each message stands alone.
+ */
+export type BatchMode = 'all-or-nothing' | 'per-item';
+
+export const BATCH_MODES: BatchMode[] = ['all-or-nothing', 'per-item'];
+
+export const DEFAULT_MAX_BATCH_SIZE = 100;
+
+/** Messages accepted per batch request (MAX_BATCH_SIZE, default 100). */
+export function getMaxBatchSize(): number {
+  const configured = Number(process.env.MAX_BATCH_SIZE);
+  return Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_MAX_BATCH_SIZE;
+}
+
+export interface SendBatchRequestBody {
+  messages?: unknown;
+  mode?: unknown;
+  /** Used by messages that do not name their own account. */
+  accountId?: string;
+  account_id?: string;
+  /** Tenant charged for the whole batch. */
+  tenantId?: string;
+  tenant_id?: string;
+}
+
+/** Outcome for one message: the status and body a single send would return. */
+export interface BatchItemResult {
+  index: number;
+  status: number;
+  body: unknown;
+}
+
+/**
+ * Validate and send several messages in one request. Each message follows the
+ * rules of processSendEmail; results are reported per message, in order.
+ */
+export async function processSendBatch(
+  body: SendBatchRequestBody,
+  deps: SendEmailDeps,
+  context: SendEmailContext = {},
+): Promise<SendEmailResult> {
+  const messages = body?.messages;
+  if (!Array.isArray(messages) || messages.length === 0) {
+    return { status: 400, body: { error: 'messages must be a non-empty list' } };
+  }
+  const max = getMaxBatchSize();
+  if (messages.length > max) {
+    return { status: 400, body: { error: 'Too many messages', messages: messages.length, max } };
+  }
+  const mode = body.mode ?? 'per-item';
+  if (!BATCH_MODES.includes(mode as BatchMode)) {
+    return { status: 400, body: { error: `mode must be one of: ${BATCH_MODES.join(', ')}` } };
+  }
+
+  const tenantId = body.tenantId ?? body.tenant_id;
+  const tenantIdStr =
+    typeof tenantId === 'string' && tenantId.trim() ? tenantId.trim() : undefined;
+  const defaultAccountId = body.accountId ?? body.account_id;
+
+  const prepared: Array<PreparedSend | SendEmailResult> = [];
+  for (const message of messages) {
+    prepared.push(await prepareItem(message, defaultAccountId, tenantIdStr, deps, context));
+  }
+
+  const results: BatchItemResult[] = [];
+  if (mode === 'all-or-nothing') {
+    if (prepared.some((item) => 'status' in item)) {
+      return {
+        status: 400,
+        body: {
+          error: 'Batch rejected',
+          mode,
+          results: prepared.map((item, index) =>
+            'status' in item
+              ? { index, ...item }
+              : { index, status: 424, body: { error: 'Not sent: batch rejected' } }
+          ),
+        },
+      };
+    }
+    const sends = prepared as PreparedSend[];
+    const reservations = await reserveBatchCredits(sends, tenantIdStr, deps);
+    if ('status' in reservations) return reservations;
+    for (const [index, send] of sends.entries()) {
+      results.push({ index, ...(await dispatchSend(send, reservations[index], deps, context)) });
+    }
+  } else {
+    for (const [index, item] of prepared.entries()) {
+      if ('status' in item) {
+        results.push({ index, ...item });
+        continue;
+      }
+      const reservation = await reserveCredits(item, deps.walletStore);
+      if ('status' in reservation) {
+        results.push({ index, ...reservation });
+        continue;
+      }
+      // The batch reports one closing balance rather than one per message.
+      const held = { holdId: reservation.holdId, cost: reservation.cost };
+      results.push({ index, ...(await dispatchSend(item, held, deps, context)) });
+    }
+  }
+
+  const accepted = results.filter((result) => result.status === 202).length;
+  const metered = prepared.some((item) => !('status' in item) && item.charge !== undefined);
+  const balance =
+    deps.walletStore && tenantIdStr && metered
+      ? await deps.walletStore.getBalance(tenantIdStr)
+      : undefined;
+  console.log(JSON.stringify({
+    level: 'info',
+    msg: 'email_batch',
+    mode,
+    agentId: context.agentId,
+    messages: messages.length,
+    accepted,
+  }));
+  return {
+    status: accepted === results.length ? 202 : 207,
+    body: {
+      mode,
+      accepted,
+      failed: results.length - accepted,
+      results,
+      ...(balance === undefined ? {} : { balance }),
+    },
+  };
+}
+
+async function prepareItem(
+  message: unknown,
+  defaultAccountId: unknown,
+  tenantId: string | undefined,
+  deps: SendEmailDeps,
+  context: SendEmailContext,
+): Promise<PreparedSend | SendEmailResult> {
+  if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+    return { status: 400, body: { error: 'message must be an object' } };
+  }
+  const item = message as SendEmailRequestBody;
+  const itemTenantId = item.tenantId ?? item.tenant_id;
+  if (itemTenantId !== undefined && (typeof itemTenantId !== 'string' || itemTenantId.trim() !== tenantId)) {
+    return { status: 400, body: { error: 'tenantId must match the batch tenantId' } };
+  }
+  return prepareSend(
+    {
+      ...item,
+      accountId: item.accountId ?? item.account_id ?? (defaultAccountId as string | undefined),
+      tenantId,
+    },
+    deps,
+    context,
+  );
+}
+
+/** Hold credits for every metered message at once, or return 402 for the lot. */
+async function reserveBatchCredits(
+  sends: PreparedSend[],
+  tenantId: string | undefined,
+  deps: SendEmailDeps,
+): Promise<CreditReservation[] | SendEmailResult> {
+  const metered = sends.flatMap((send, index) => (send.charge === undefined ? [] : [index]));
+  const reservations: CreditReservation[] = sends.map(() => ({ cost: 0 }));
+  if (!deps.walletStore || !tenantId || metered.length === 0) return reservations;
+
+  const amounts = metered.map((index) => sends[index].charge!);
+  const reserved = await deps.walletStore.reserveAll(tenantId, amounts);
+  if (!reserved.success || !reserved.holds) {
+    return {
+      status: 402,
+      body: {
+        error: 'Insufficient credits',
+        balance: reserved.newBalance,
+        required: amounts.reduce((sum, amount) => sum + amount, 0),
+      },
+    };
+  }
+  metered.forEach((index, i) => {
+    reservations[index] = { holdId: reserved.holds![i].id, cost: amounts[i] };
+  });
+  return reservations;
+}
@@ -1,12 +1,33 @@
-import type { AccountRepository } from '../accounts.js';
-import type { ProviderAdapter } from '../providers.js';
+import type { Account, AccountRepository } from '../accounts.js';
+import type { EmailContent, ProviderAccountSecrets, ProviderAdapter } from '../providers.js';
 import type { WalletStoreInterface } from '../fileWalletStore.js';
 import { isAdminTenant } from '../fileWalletStore.js';
+import type { CredentialVault } from '../secrets/credentialVault.js';
+import type { OutboundQueue } from '../queue/outboundQueue.js';
+import type { CreateMessageInput, MessageRepository } from '../messages.js';
+import type { Suppression, SuppressionStoreInterface } from '../fileSuppressionStore.js';
+import { getMaxRecipients } from '../recipientLimits.js';
+import { AttachmentError, parseAttachments } from '../attachments.js';
+import type { EmailAttachment } from '../providers.js';
+import type { DkimKeyLookup } from '../mime/dkim.js';
+import type { TemplateRepository, TemplateVariables } from '../templates.js';
+import { MissingTemplateVariablesError, renderTemplate } from '../templates.js';
+import type { getReceivedEmail } from '../resendReceiving.js';
+import { isCustomHeaderName } from '../mime/builder.js';
+import { getAgentAccounts, isReceivedByAccounts } from './receivedEmail.js';
+import {
+  ProviderFailoverError,
+  resolveProviderChain,
+  sendWithFailover,
+} from '../providers/failover.js';
 
 export interface SendEmailRequestBody {
   accountId?: string;
   account_id?: string;
-  to?: string;
+  /** One address or a list; cc and bcc likewise. */
+  to?: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
   subject?: string;
   text?: string;
   html?: string;
@@ -14,13 +35,64 @@ export interface SendEmailRequestBody {
   reply_to?: string;
   tenantId?: string;
   tenant_id?: string;
+  attachments?: SendEmailAttachmentBody[];
+  /** Render subject/text/html from a stored template instead of passing them. */
+  templateId?: string;
+  template_id?: string;
+  variables?: TemplateVariables;
+  /** ISO timestamp to deliver at instead of immediately; requires the outbound queue. */
+  sendAt?: string;
+  send_at?: string;
+  /** Message-ID being replied to; references takes one ID or a list. */
+  inReplyTo?: string;
+  in_reply_to?: string;
+  references?: string | string[];
+  /** Extra message headers (X-* and the like; structural headers are rejected). */
+  headers?: Record<string, string>;
+  /**
+   * Reply to a message from GET /emails/received/:id: fills inReplyTo and
+   * references from it, and the subject ("Re: ...") when none is given.
+   */
+  replyToReceivedId?: string;
+  reply_to_received_id?: string;
+}
+
+export interface SendEmailAttachmentBody {
+  filename?: string;
+  /** Base64-encoded file content. */
+  content?: string;
+  contentType?: string;
+  content_type?: string;
+  /** Set for inline images referenced from html as cid:<contentId>. */
+  contentId?: string;
+  content_id?: string;
 }
 
 export interface SendEmailDeps {
   accountRepository: AccountRepository;
   getProviderAdapter(provider: string): ProviderAdapter;
   walletStore?: WalletStoreInterface;
+  /** Credits charged per recipient (to + cc + bcc). */
   creditsPerEmail?: number;
+  /** Per-account provider credentials, decrypted for each send. */
+  credentialVault?: CredentialVault;
+  /** DKIM keys per From domain, used by adapters that sign (SMTP). */
+  dkimKeys?: DkimKeyLookup;
+  /** When set, sends are queued for the outbound worker instead of delivered inline. */
+  outboundQueue?: OutboundQueue;
+  /** Records each message and its lifecycle status for GET /emails. */
+  messageRepository?: MessageRepository;
+  /** Recipients that must not be sent to (checked before credits are reserved). */
+  suppressionStore?: SuppressionStoreInterface;
+  /** Templates available to sends that pass templateId. */
+  templateRepository?: TemplateRepository;
+  /** Looks up received mail for replyToReceivedId. */
+  getReceivedEmail?: typeof getReceivedEmail;
+}
+
+export interface SendEmailContext {
+  /** Verified agent making the request, recorded on queued messages. */
+  agentId?: string;
 }
 
 export interface SendEmailResult {
@@ -28,28 +100,130 @@ export interface SendEmailResult {
   body: unknown;
 }
 
-/** Validate payload and send email using configured provider adapter. */
+/** Custom headers accepted per message. */
+export const MAX_CUSTOM_HEADERS = 20;
+
+/** How far ahead a send can be scheduled. */
+export const MAX_SCHEDULE_AHEAD_MS = 30 * 24 * 60 * 60 * 1000;
+
+/** A validated send, ready to have its credits reserved and be queued or delivered. */
+export interface PreparedSend {
+  account: Account;
+  tenantId?: string;
+  /** Recipients as recorded on the message and echoed in responses. */
+  addressees: Pick<EmailContent, 'to' | 'cc' | 'bcc'>;
+  /** Everything handed to the queue or provider. */
+  email: EmailContent;
+  /** Credits to hold from the tenant; undefined when the send is unmetered. */
+  charge?: number;
+  sendAt?: Date;
+}
+
+/** Credits held for one send; holdId is unset when nothing was reserved. */
+export interface CreditReservation {
+  holdId?: string;
+  balance?: number;
+  cost: number;
+}
+
+/**
+ * Validate payload and send email using configured provider adapter, or queue
+ * it for the outbound worker when a queue is configured.
+ */
 export async function processSendEmail(
   body: SendEmailRequestBody,
   deps: SendEmailDeps,
+  context: SendEmailContext = {},
 ): Promise<SendEmailResult> {
+  const prepared = await prepareSend(body, deps, context);
+  if ('status' in prepared) return prepared;
+
+  const reservation = await reserveCredits(prepared, deps.walletStore);
+  if ('status' in reservation) return reservation;
+
+  return dispatchSend(prepared, reservation, deps, context);
+}
+
+/**
+ * Reserve credits up front (skip for admin tenants or when no wallet/store);
+ * the hold is committed once the provider accepts the message and released
+ * if every provider fails, so outages don't cost the tenant.
+ */
+export async function reserveCredits(
+  prepared: PreparedSend,
+  walletStore: WalletStoreInterface | undefined,
+): Promise<CreditReservation | SendEmailResult> {
+  if (!walletStore || !prepared.tenantId || prepared.charge === undefined) {
+    return { cost: 0 };
+  }
+  const reserved = await walletStore.reserve(prepared.tenantId, prepared.charge);
+  if (!reserved.success) {
+    return {
+      status: 402,
+      body: {
+        error: 'Insufficient credits',
+        balance: reserved.newBalance,
+        required: prepared.charge
+      }
+    };
+  }
+  return {
+    holdId: reserved.hold?.id,
+    balance: reserved.newBalance,
+    cost: prepared.charge,
+  };
+}
+
+/**
+ * Validate a send request: recipients and limits, content (or template),
+ * attachments, sendAt, the account, and suppressions. Returns an error result
+ * for the first problem found. Reserves nothing.
+ */
+export async function prepareSend(
+  body: SendEmailRequestBody,
+  deps: SendEmailDeps,
+  context: SendEmailContext = {},
+): Promise<PreparedSend | SendEmailResult> {
   const accountId = body.accountId ?? body.account_id;
   if (typeof accountId !== 'string' || !accountId.trim()) {
     return { status: 400, body: { error: 'accountId required' } };
   }
 
-  const to = typeof body.to === 'string' ? body.to.trim() : '';
-  if (!to || !isValidEmail(to)) {
+  const to = parseRecipients(body.to);
+  if (!to || to.length === 0) {
     return { status: 400, body: { error: 'valid to email required' } };
   }
+  const cc = parseRecipients(body.cc);
+  if (!cc) {
+    return { status: 400, body: { error: 'cc must be a valid email or list of emails' } };
+  }
+  const bcc = parseRecipients(body.bcc);
+  if (!bcc) {
+    return { status: 400, body: { error: 'bcc must be a valid email or list of emails' } };
+  }
+  const recipients = dedupeRecipients(to, cc, bcc);
 
-  const subject = typeof body.subject === 'string' ? body.subject.trim() : '';
+  let content: { subject?: unknown; text?: unknown; html?: unknown } = body;
+  const templateId = body.templateId ?? body.template_id;
+  if (templateId !== undefined) {
+    const rendered = await renderRequestTemplate(templateId, body, deps.templateRepository);
+    if ('status' in rendered) return rendered;
+    content = rendered;
+  }
+
+  const threading = await resolveThreading(body, deps, context);
+  if ('status' in threading) return threading;
+
+  const subject =
+    typeof content.subject === 'string' && content.subject.trim()
+      ? content.subject.trim()
+      : threading.replySubject ?? '';
   if (!subject) {
     return { status: 400, body: { error: 'subject required' } };
   }
 
-  const text = typeof body.text === 'string' ? body.text : undefined;
-  const html = typeof body.html === 'string' ? body.html : undefined;
+  const text = typeof content.text === 'string' ? content.text : undefined;
+  const html = typeof content.html === 'string' ? content.html : undefined;
   if (!text && !html) {
     return { status: 400, body: { error: 'text or html content required' } };
   }
@@ -63,10 +237,43 @@ export async function processSendEmail(
     return { status: 400, body: { error: 'replyTo must be a valid email when provided' } };
   }
 
+  let attachments: EmailAttachment[];
+  try {
+    attachments = parseAttachments(body.attachments);
+  } catch (err) {
+    if (err instanceof AttachmentError) {
+      return { status: err.status, body: { error: err.message } };
+    }
+    throw err;
+  }
+
+  const sendAt = parseSendAt(body.sendAt ?? body.send_at);
+  if (sendAt && 'error' in sendAt) {
+    return { status: 400, body: { error: sendAt.error } };
+  }
+  if (sendAt && !deps.outboundQueue) {
+    return { status: 501, body: { error: 'Scheduled sends require the outbound queue' } };
+  }
+
   const tenantId = body.tenantId ?? body.tenant_id;
   const tenantIdStr =
     typeof tenantId === 'string' && tenantId.trim() ? tenantId.trim() : undefined;
 
+  const recipientCount =
+    recipients.to.length + recipients.cc.length + recipients.bcc.length;
+  const maxRecipients = getMaxRecipients(tenantIdStr);
+  if (recipientCount > maxRecipients) {
+    return {
+      status: 400,
+      body: { error: 'Too many recipients', recipients: recipientCount, max: maxRecipients },
+    };
+  }
+  const addressees = {
+    to: recipients.to,
+    ...(recipients.cc.length ? { cc: recipients.cc } : {}),
+    ...(recipients.bcc.length ? { bcc: recipients.bcc } : {}),
+  };
+
   const account = await deps.accountRepository.getById(accountId.trim());
   if (!account) {
     return { status: 404, body: { error: 'Account not found' } };
@@ -76,55 +283,476 @@ export async function processSendEmail(
     return { status: 403, body: { error: 'Account is disabled' } };
   }
 
-  // Credit deduction (skip for admin tenants or when no wallet/store)
-  if (deps.walletStore && tenantIdStr) {
-    const creditsPerEmail = deps.creditsPerEmail ?? 1;
-    if (!isAdminTenant(tenantIdStr)) {
-      const balance = await deps.walletStore.getBalance(tenantIdStr);
-      if (balance < creditsPerEmail) {
-        return {
-          status: 402,
-          body: {
-            error: 'Insufficient credits',
-            balance,
-            required: creditsPerEmail
-          }
-        };
-      }
-      const deduction = await deps.walletStore.deduct(tenantIdStr, creditsPerEmail);
-      if (!deduction.success) {
-        return {
-          status: 402,
-          body: {
-            error: 'Insufficient credits',
-            balance: deduction.newBalance,
-            required: creditsPerEmail
-          }
-        };
-      }
-    }
+  // One suppressed recipient blocks the whole send rather than silently
+  // dropping it from a message the agent addressed to several people.
+  const suppressed = await findSuppressed(
+    deps.suppressionStore,
+    [...recipients.to, ...recipients.cc, ...recipients.bcc],
+    account.id,
+  );
+  if (suppressed.length > 0) {
+    return {
+      status: 422,
+      body: {
+        error: suppressed.length === 1 ? 'Recipient is suppressed' : 'Recipients are suppressed',
+        suppressed: suppressed.map(({ recipient, suppression }) => ({
+          recipient,
+          reason: suppression.reason,
+          ...(suppression.detail ? { detail: suppression.detail } : {}),
+          scope: suppression.accountId ? 'account' : 'global',
+        })),
+      },
+    };
   }
 
-  try {
-    const adapter = deps.getProviderAdapter(account.provider);
-    const result = await adapter.sendEmail({
-      account,
-      to,
+  const metered = Boolean(deps.walletStore && tenantIdStr && !isAdminTenant(tenantIdStr));
+  return {
+    account,
+    tenantId: tenantIdStr,
+    addressees,
+    email: {
+      ...addressees,
+      ...(attachments.length ? { attachments } : {}),
       subject,
       text,
       html,
-      tenantId: typeof tenantId === 'string' ? tenantId : undefined,
       replyTo: replyToValue,
+      ...(threading.inReplyTo ? { inReplyTo: threading.inReplyTo } : {}),
+      ...(threading.references?.length ? { references: threading.references } : {}),
+      ...(threading.headers ? { headers: threading.headers } : {}),
+    },
+    ...(metered ? { charge: (deps.creditsPerEmail ?? 1) * recipientCount } : {}),
+    ...(sendAt ? { sendAt: sendAt.date } : {}),
+  };
+}
+
+/**
+ * Queue or deliver a prepared send whose credits are already reserved. The
+ * reservation's hold is settled here (inline) or by the worker (queued).
+ */
+export async function dispatchSend(
+  prepared: PreparedSend,
+  reservation: CreditReservation,
+  deps: SendEmailDeps,
+  context: SendEmailContext = {},
+): Promise<SendEmailResult> {
+  const { account, addressees, email, sendAt } = prepared;
+  const tenantId = prepared.tenantId;
+  const { holdId, balance, cost } = reservation;
+
+  // With a queue, delivery (and settling the hold) happens in the worker.
+  // Scheduled sends keep their hold until delivery or DELETE /emails/:id.
+  if (deps.outboundQueue) {
+    try {
+      const queued = await deps.outboundQueue.enqueue({
+        accountId: account.id,
+        tenantId,
+        agentId: context.agentId,
+        email,
+        holdId,
+        ...(sendAt ? { notBefore: sendAt, scheduled: true } : {}),
+      });
+      await recordMessage(deps.messageRepository, {
+        id: queued.id,
+        accountId: account.id,
+        tenantId,
+        agentId: context.agentId,
+        ...addressees,
+        subject: email.subject,
+        status: sendAt ? 'scheduled' : 'queued',
+        scheduledAt: queued.scheduledAt,
+        cost,
+      });
+      return {
+        status: 202,
+        body: {
+          id: queued.id,
+          accountId: account.id,
+          ...addressees,
+          status: sendAt ? 'scheduled' : queued.status,
+          ...(queued.scheduledAt ? { sendAt: queued.scheduledAt } : {}),
+          ...(balance === undefined ? {} : { balance }),
+        },
+      };
+    } catch (err) {
+      await settleHold(deps.walletStore, holdId, 'release');
+      console.error(JSON.stringify({
+        level: 'error',
+        msg: 'outbound_enqueue_error',
+        accountId: account.id,
+        error: err instanceof Error ? err.message : err,
+      }));
+      return { status: 500, body: { error: 'Failed to queue email' } };
+    }
+  }
+
+  let credentials: ProviderAccountSecrets | undefined;
+  try {
+    credentials = (await deps.credentialVault?.get(account.id)) ?? undefined;
+  } catch (err) {
+    console.error(JSON.stringify({
+      level: 'error',
+      msg: 'credential_vault_error',
+      accountId: account.id,
+      error: err instanceof Error ? err.message : err,
+    }));
+    await settleHold(deps.walletStore, holdId, 'release');
+    return { status: 500, body: { error: 'Failed to load account credentials' } };
+  }
+
+  // Transient provider failures fall through to the next provider in the
+  // account's failover chain; the result records the provider that sent.
+  try {
+    const { result } = await sendWithFailover(
+      {
+        account,
+        ...email,
+        tenantId,
+        credentials,
+        dkimKeys: deps.dkimKeys,
+      },
+      resolveProviderChain(account),
+      deps.getProviderAdapter,
+    );
+    const settled = await settleHold(deps.walletStore, holdId, 'commit');
+    const recorded = await recordMessage(deps.messageRepository, {
+      accountId: account.id,
+      tenantId,
+      agentId: context.agentId,
+      ...addressees,
+      subject: email.subject,
+      status: 'sent',
+      cost,
+      provider: result.provider,
+      providerMessageId: result.id,
     });
-    return { status: 202, body: result };
+    return {
+      status: 202,
+      body: {
+        ...result,
+        ...(recorded ? { messageId: recorded.id } : {}),
+        ...(settled === undefined ? {} : { balance: settled }),
+      },
+    };
   } catch (err) {
+    const settled = await settleHold(deps.walletStore, holdId, 'release');
+    await recordMessage(deps.messageRepository, {
+      accountId: account.id,
+      tenantId,
+      agentId: context.agentId,
+      ...addressees,
+      subject: email.subject,
+      status: 'failed',
+      error: err instanceof Error ? err.message : 'Email send failed',
+    });
     return {
       status: 502,
-      body: { error: err instanceof Error ? err.message : 'Email send failed' },
+      body: {
+        error: err instanceof Error ? err.message : 'Email send failed',
+        ...(err instanceof ProviderFailoverError && err.attempts.length > 1
+          ? { attempts: err.attempts }
+          : {}),
+        ...(settled === undefined ? {} : { balance: settled }),
+      },
+    };
+  }
+}
+
+/**
+ * Persist a message record. Tracking is best-effort: a failure is logged but
+ * never fails the send itself.
+ */
+async function recordMessage(
+  messageRepository: MessageRepository | undefined,
+  input: CreateMessageInput,
+) {
+  if (!messageRepository) return undefined;
+  try {
+    return await messageRepository.create(input);
+  } catch (err) {
+    console.error(JSON.stringify({
+      level: 'error',
+      msg: 'message_record_error',
+      accountId: input.accountId,
+      messageId: input.id,
+      error: err instanceof Error ? err.message : err,
+    }));
+    return undefined;
+  }
+}
+
+/** Commit or release a credit hold; returns the tenant's balance afterwards. */
+export async function settleHold(
+  walletStore: WalletStoreInterface | undefined,
+  holdId: string | undefined,
+  action: 'commit' | 'release',
+): Promise<number | undefined> {
+  if (!walletStore || !holdId) return undefined;
+  try {
+    const settled = await walletStore[action](holdId);
+    return settled.newBalance ?? undefined;
+  } catch (err) {
+    console.error(JSON.stringify({
+      level: 'error',
+      msg: 'credit_hold_settle_error',
+      holdId,
+      action,
+      error: err instanceof Error ? err.message : err,
+    }));
+    return undefined;
+  }
+}
+
+/**
+ * Render the template a send refers to. Returns an error result for a bad or
+ * unknown templateId, raw content alongside it, or missing variables.
+ */
+async function renderRequestTemplate(
+  templateId: unknown,
+  body: SendEmailRequestBody,
+  templateRepository: TemplateRepository | undefined,
+): Promise<SendEmailResult | { subject: string; text?: string; html?: string }> {
+  if (typeof templateId !== 'string' || !templateId.trim()) {
+    return { status: 400, body: { error: 'templateId must be a non-empty string' } };
+  }
+  if (body.subject !== undefined || body.text !== undefined || body.html !== undefined) {
+    return {
+      status: 400,
+      body: { error: 'templateId cannot be combined with subject, text or html' },
+    };
+  }
+  const variables = body.variables ?? {};
+  if (
+    typeof variables !== 'object' ||
+    variables === null ||
+    Array.isArray(variables) ||
+    Object.values(variables).some((value) => !['string', 'number', 'boolean'].includes(typeof value))
+  ) {
+    return {
+      status: 400,
+      body: { error: 'variables must be an object of string, number or boolean values' },
     };
   }
+
+  const template = await templateRepository?.getById(templateId.trim());
+  if (!template) {
+    return { status: 404, body: { error: 'Template not found' } };
+  }
+  try {
+    return renderTemplate(template, variables);
+  } catch (err) {
+    if (err instanceof MissingTemplateVariablesError) {
+      return {
+        status: 422,
+        body: { error: 'Missing template variables', missing: err.missing },
+      };
+    }
+    throw err;
+  }
+}
+
+interface Threading {
+  inReplyTo?: string;
+  references?: string[];
+  headers?: Record<string, string>;
+  /** "Re: <subject>" of the received message being replied to. */
+  replySubject?: string;
+}
+
+/**
+ * Validate inReplyTo, references and custom headers, and fill the threading
+ * fields from the received message when replyToReceivedId is given. The
+ * received message must be one the agent can read via /emails/received/:id.
+ */
+async function resolveThreading(
+  body: SendEmailRequestBody,
+  deps: SendEmailDeps,
+  context: SendEmailContext,
+): Promise<Threading | SendEmailResult> {
+  const headers = parseCustomHeaders(body.headers);
+  if (headers && 'error' in headers) {
+    return { status: 400, body: { error: headers.error } };
+  }
+
+  const rawInReplyTo = body.inReplyTo ?? body.in_reply_to;
+  const inReplyTo = rawInReplyTo === undefined ? undefined : parseMessageId(rawInReplyTo);
+  if (rawInReplyTo !== undefined && !inReplyTo) {
+    return { status: 400, body: { error: 'inReplyTo must be a Message-ID' } };
+  }
+  const references = parseReferences(body.references);
+  if (!references) {
+    return {
+      status: 400,
+      body: { error: 'references must be a Message-ID or list of Message-IDs' },
+    };
+  }
+
+  const receivedId = body.replyToReceivedId ?? body.reply_to_received_id;
+  if (receivedId === undefined) {
+    return { inReplyTo, references, headers };
+  }
+  if (typeof receivedId !== 'string' || !receivedId.trim()) {
+    return { status: 400, body: { error: 'replyToReceivedId must be a non-empty string' } };
+  }
+  if (inReplyTo) {
+    return { status: 400, body: { error: 'replyToReceivedId cannot be combined with inReplyTo' } };
+  }
+  if (!deps.getReceivedEmail) {
+    return { status: 501, body: { error: 'Replying to received email is not available' } };
+  }
+
+  const accounts = await getAgentAccounts(deps.accountRepository, context.agentId);
+  const received = accounts.length ? await deps.getReceivedEmail(receivedId.trim()) : undefined;
+  if (received && !received.ok && received.status !== 404) {
+    return { status: 502, body: { error: received.error ?? 'Failed to retrieve received email' } };
+  }
+  if (!received?.data || !isReceivedByAccounts(received.data, accounts)) {
+    return { status: 404, body: { error: 'Received email not found' } };
+  }
+  const parentId = parseMessageId(
+    received.data.message_id ?? findHeader(received.data.headers, 'message-id'),
+  );
+  if (!parentId) {
+    return { status: 422, body: { error: 'Received email has no Message-ID' } };
+  }
+  // RFC 5322 §3.6.4: the parent's References (or In-Reply-To), then the parent.
+  const thread =
+    findHeader(received.data.headers, 'references') ??
+    findHeader(received.data.headers, 'in-reply-to') ??
+    '';
+  return {
+    inReplyTo: parentId,
+    references: [...new Set([...(thread.match(/<[^<>\s]+>/g) ?? []), ...references, parentId])],
+    headers,
+    replySubject: /^re:/i.test(received.data.subject.trim())
+      ? received.data.subject.trim()
+      : `Re: ${received.data.subject.trim()}`,
+  };
+}
+
+function findHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  const entry = Object.entries(headers ?? {}).find(([key]) => key.toLowerCase() === name);
+  return entry?.[1];
+}
+
+/** Normalize a Message-ID to its bracketed form; undefined when malformed. */
+function parseMessageId(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  const id = trimmed.startsWith('<') ? trimmed : `<${trimmed}>`;
+  return /^<[^<>\s@]+@[^<>\s@]+>$/.test(id) ? id : undefined;
+}
+
+/** References as one whitespace-separated string or a list; undefined when invalid. */
+function parseReferences(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) return [];
+  const items = Array.isArray(value)
+    ? value
+    : typeof value === 'string'
+      ? value.trim().split(/\s+/).filter(Boolean)
+      : [value];
+  const ids: string[] = [];
+  for (const item of items) {
+    const id = parseMessageId(item);
+    if (!id) return undefined;
+    ids.push(id);
+  }
+  return ids;
+}
+
+function parseCustomHeaders(
+  value: unknown,
+): Record<string, string> | { error: string } | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'headers must be an object of header names to string values' };
+  }
+  const entries = Object.entries(value);
+  if (entries.length > MAX_CUSTOM_HEADERS) {
+    return { error: `headers accepts at most ${MAX_CUSTOM_HEADERS} entries` };
+  }
+  for (const [name, headerValue] of entries) {
+    if (!isCustomHeaderName(name)) {
+      return { error: `header ${name} cannot be set` };
+    }
+    if (typeof headerValue !== 'string' || /[\r\n]/.test(headerValue) || headerValue.length > 998) {
+      return { error: `header ${name} must be a single-line string` };
+    }
+  }
+  return entries.length ? Object.fromEntries(entries) as Record<string, string> : undefined;
+}
+
+/**
+ * Parse a requested delivery time. Absent values mean send now; the time must
+ * be in the future and within MAX_SCHEDULE_AHEAD_MS.
+ */
+function parseSendAt(
+  value: unknown,
+  now: Date = new Date(),
+): { date: Date } | { error: string } | undefined {
+  if (value === undefined || value === null) return undefined;
+  const date = typeof value === 'string' && value.trim() ? new Date(value.trim()) : undefined;
+  if (!date || Number.isNaN(date.getTime())) {
+    return { error: 'sendAt must be an ISO timestamp' };
+  }
+  if (date.getTime() <= now.getTime()) {
+    return { error: 'sendAt must be in the future' };
+  }
+  if (date.getTime() - now.getTime() > MAX_SCHEDULE_AHEAD_MS) {
+    return { error: `sendAt must be within ${MAX_SCHEDULE_AHEAD_MS / 86_400_000} days` };
+  }
+  return { date };
+}
+
+/**
+ * Normalize a recipient field (one address or a list) to trimmed addresses.
+ * Absent fields yield an empty list; anything invalid yields undefined.
+ */
+function parseRecipients(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) return [];
+  const list = Array.isArray(value) ? value : [value];
+  const addresses: string[] = [];
+  for (const item of list) {
+    if (typeof item !== 'string' || !isValidEmail(item.trim())) return undefined;
+    addresses.push(item.trim());
+  }
+  return addresses;
+}
+
+/**
+ * Drop repeated addresses (case-insensitive) so nobody is sent, or charged
+ * for, the same message twice; the first field an address appears in wins.
+ */
+function dedupeRecipients(to: string[], cc: string[], bcc: string[]) {
+  const seen = new Set<string>();
+  const keep = (addresses: string[]) =>
+    addresses.filter((address) => {
+      const key = address.toLowerCase();
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+  return { to: keep(to), cc: keep(cc), bcc: keep(bcc) };
+}
+
+async function findSuppressed(
+  suppressionStore: SuppressionStoreInterface | undefined,
+  recipients: string[],
+  accountId: string,
+): Promise<Array<{ recipient: string; suppression: Suppression }>> {
+  if (!suppressionStore) return [];
+  const suppressed: Array<{ recipient: string; suppression: Suppression }> = [];
+  for (const recipient of recipients) {
+    const suppression = await suppressionStore.find(recipient, accountId);
+    if (suppression) suppressed.push({ recipient, suppression });
+  }
+  return suppressed;
 }
 
+/**
+ * A bare address. Characters that delimit or quote addresses in headers and
+ * SMTP paths are refused, so one address can never become several.
+ */
 function isValidEmail(email: string): boolean {
-  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+  return /^[^\s@,;<>"()\\]+@[^\s@,;<>"()\\]+\.[^\s@,;<>"()\\]+$/.test(email);
 }
@@ -0,0 +1,99 @@
+import type { TemplateRepository, UpdateTemplateInput } from '../templates.js';
+
+export interface TemplateRequestBody {
+  name?: unknown;
+  subject?: unknown;
+  text?: unknown;
+  html?: unknown;
+}
+
+export interface TemplateDeps {
+  templateRepository: TemplateRepository;
+}
+
+export interface TemplateResult {
+  status: number;
+  body: unknown;
+}
+
+const MAX_NAME_LENGTH = 200;
+
+/** Validate and create a template. */
+export async function processCreateTemplate(
+  body: TemplateRequestBody,
+  deps: TemplateDeps,
+): Promise<TemplateResult> {
+  const name = typeof body?.name === 'string' ? body.name.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    return { status: 400, body: { error: `name required (max ${MAX_NAME_LENGTH} characters)` } };
+  }
+  const subject = typeof body.subject === 'string' ? body.subject.trim() : '';
+  if (!subject) {
+    return { status: 400, body: { error: 'subject required' } };
+  }
+  if (
+    (body.text !== undefined && typeof body.text !== 'string') ||
+    (body.html !== undefined && typeof body.html !== 'string')
+  ) {
+    return { status: 400, body: { error: 'text and html must be strings' } };
+  }
+  const text = typeof body.text === 'string' && body.text ? body.text : undefined;
+  const html = typeof body.html === 'string' && body.html ? body.html : undefined;
+  if (!text && !html) {
+    return { status: 400, body: { error: 'text or html content required' } };
+  }
+
+  const template = await deps.templateRepository.create({ name, subject, text, html });
+  return { status: 201, body: template };
+}
+
+/**
+ * Validate and apply a partial update. `text` or `html` may be null to remove
+ * that body, as long as one of them remains.
+ */
+export async function processUpdateTemplate(
+  id: string,
+  body: TemplateRequestBody,
+  deps: TemplateDeps,
+): Promise<TemplateResult> {
+  const existing = await deps.templateRepository.getById(id);
+  if (!existing) {
+    return { status: 404, body: { error: 'Template not found' } };
+  }
+
+  const update: UpdateTemplateInput = {};
+  if (body?.name !== undefined) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      return { status: 400, body: { error: `name must be 1-${MAX_NAME_LENGTH} characters` } };
+    }
+    update.name = name;
+  }
+  if (body?.subject !== undefined) {
+    const subject = typeof body.subject === 'string' ? body.subject.trim() : '';
+    if (!subject) {
+      return { status: 400, body: { error: 'subject must be a non-empty string' } };
+    }
+    update.subject = subject;
+  }
+  for (const field of ['text', 'html'] as const) {
+    const value = body?.[field];
+    if (value === undefined) continue;
+    if (value !== null && typeof value !== 'string') {
+      return { status: 400, body: { error: `${field} must be a string or null` } };
+    }
+    update[field] = value || null;
+  }
+
+  const text = update.text === undefined ? existing.text : update.text;
+  const html = update.html === undefined ? existing.html : update.html;
+  if (!text && !html) {
+    return { status: 400, body: { error: 'text or html content required' } };
+  }
+
+  const template = await deps.templateRepository.update(id, update);
+  if (!template) {
+    return { status: 404, body: { error: 'Template not found' } };
+  }
+  return { status: 200, body: template };
+}
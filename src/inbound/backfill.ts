@@ -0,0 +1,42 @@
+/**
+ * Backfill the local inbound store from Resend Inbound.
+ * Usage: npm run backfill:received [-- --refresh] [-- --page-size=50]
+ * Requires RESEND_API_KEY; writes to INBOUND_PATH (default data/inbound.json).
+ */
+
+import { fileURLToPath } from 'node:url';
+import { join } from 'node:path';
+import { getReceivedEmail, listReceivedEmails } from '../resendReceiving.js';
+import { FileInboundStore } from './inboundStore.js';
+import { backfillResendEmails } from './resendSync.js';
+
+export async function runBackfill(args: string[]): Promise<number> {
+  const inboundPath =
+    process.env.INBOUND_PATH ?? join(process.cwd(), 'data', 'inbound.json');
+  const pageSizeArg = args.find((arg) => arg.startsWith('--page-size='));
+  const result = await backfillResendEmails(
+    {
+      inboundStore: new FileInboundStore(inboundPath),
+      listReceivedEmails,
+      getReceivedEmail,
+    },
+    {
+      refresh: args.includes('--refresh'),
+      pageSize: pageSizeArg ? Number(pageSizeArg.slice('--page-size='.length)) || undefined : undefined,
+      onPage: (progress) => console.log(JSON.stringify({ level: 'info', msg: 'inbound_backfill_page', ...progress })),
+    }
+  );
+  console.log(JSON.stringify({
+    level: result.ok ? 'info' : 'error',
+    msg: result.ok ? 'inbound_backfill_done' : 'inbound_backfill_failed',
+    ...result,
+  }));
+  return result.ok && result.failed === 0 ? 0 : 1;
+}
+
+const __filename = fileURLToPath(import.meta.url);
+if (process.argv[1] === __filename) {
+  runBackfill(process.argv.slice(2)).then((code) => {
+    process.exitCode = code;
+  });
+}
@@ -0,0 +1,413 @@
+/**
+ * File-backed store for received mail, whether delivered to the embedded
+ * SMTP listener or ingested from Resend Inbound. Records use the Resend
+ * Inbound shapes so /emails/received serves them unchanged. The index holds
+ * summaries only; bodies and headers are kept beside it, one JSON file per
+ * message, as are raw messages, one .eml file each.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { getHeader, parseAddressList, parseMimeMessage } from '../mime/parser.js';
+import type {
+  ReceivedEmailFull,
+  ReceivedEmailListResult,
+  ReceivedEmailSummary,
+  getReceivedEmail,
+  listReceivedEmails,
+} from '../resendReceiving.js';
+
+export interface InboundAttachment {
+  id: string;
+  filename: string;
+  content_type: string;
+  content_disposition: 'attachment' | 'inline';
+  content_id?: string | null;
+  /** Unknown for Resend messages fetched without their list entry. */
+  size?: number;
+}
+
+export interface InboundEmail {
+  id: string;
+  from: string;
+  to: string[];
+  cc?: string[];
+  /**
+   * Envelope recipients missing from To and Cc. Shared by every recipient's
+   * record, so readers narrow it (and `envelope.rcpt_to`) to their own addresses.
+   */
+  bcc?: string[];
+  reply_to?: string[];
+  subject: string;
+  message_id?: string | null;
+  created_at: string;
+  text?: string | null;
+  html?: string | null;
+  headers: Record<string, string>;
+  /** In MIME order, so an attachment's position identifies its part in the raw message. */
+  attachments: InboundAttachment[];
+  /** Delivered to the SMTP listener, or ingested from Resend (keeping Resend's ID). */
+  source: 'smtp' | 'resend';
+  /** SMTP envelope the message arrived with. */
+  envelope?: { mail_from: string; rcpt_to: string[] };
+}
+
+/** Index entry for a message: everything but its bodies and headers. */
+export type InboundEmailSummary = Omit<InboundEmail, 'text' | 'html' | 'headers'>;
+
+type InboundEmailBody = Pick<InboundEmail, 'text' | 'html' | 'headers'>;
+
+/** A record to store; `id` and `created_at` are generated unless given. */
+export type NewInboundEmail = Omit<InboundEmail, 'id' | 'created_at'> &
+  Partial<Pick<InboundEmail, 'id' | 'created_at'>>;
+
+export interface InboundListOptions {
+  limit?: number;
+  /** Email ID cursor: return older messages than this one. */
+  after?: string;
+  /** Email ID cursor: return newer messages than this one. */
+  before?: string;
+  /** Keep only matching messages; applied before paginating, so pages stay full. */
+  include?: (email: InboundEmailSummary) => boolean;
+}
+
+/** listReceivedEmails options for the local store, which can filter before paginating. */
+export type LocalListReceivedEmailsOptions = NonNullable<Parameters<typeof listReceivedEmails>[0]> & {
+  include?: (email: ReceivedEmailSummary) => boolean;
+};
+
+export interface InboundStore {
+  /**
+   * Store a message and, when given, its raw RFC 822 bytes. A message with
+   * the ID of one already stored replaces it.
+   */
+  save(email: NewInboundEmail, raw?: Buffer): Promise<InboundEmail>;
+  get(id: string): Promise<InboundEmail | null>;
+  /** Summaries, newest first, paginated by ID cursors like Resend's list. */
+  list(options?: InboundListOptions): Promise<{ has_more: boolean; data: InboundEmailSummary[] }>;
+  /** Raw RFC 822 bytes, when they were stored. */
+  getRaw(id: string): Promise<Buffer | null>;
+  /** Size of the stored raw bytes, without reading them. */
+  getRawSize(id: string): Promise<number | null>;
+  /** Keep raw bytes for a stored message, e.g. once downloaded from Resend. */
+  saveRaw(id: string, raw: Buffer): Promise<void>;
+}
+
+interface InboundStoreData {
+  /** Entries written before bodies moved out may still carry them. */
+  emails: Array<InboundEmailSummary & Partial<InboundEmailBody>>;
+}
+
+const DEFAULT_LIST_LIMIT = 20;
+const MAX_LIST_LIMIT = 100;
+
+/** Build a store record from a raw message and the envelope it arrived with. */
+export function inboundEmailFromRaw(
+  raw: Buffer,
+  envelope: { mailFrom: string; rcptTo: string[] },
+): NewInboundEmail {
+  const parsed = parseMimeMessage(raw);
+  const headers: Record<string, string> = {};
+  for (const header of parsed.headers) {
+    headers[header.name.toLowerCase()] ??= header.value;
+  }
+  const to = parseAddressList(getHeader(parsed.headers, 'to'));
+  const cc = parseAddressList(getHeader(parsed.headers, 'cc'));
+  const replyTo = parseAddressList(getHeader(parsed.headers, 'reply-to'));
+  const listed = new Set([...to, ...cc].map((address) => bareAddress(address)));
+  const bcc = envelope.rcptTo.filter((address) => !listed.has(bareAddress(address)));
+
+  return {
+    from: getHeader(parsed.headers, 'from') ?? envelope.mailFrom,
+    to,
+    ...(cc.length > 0 ? { cc } : {}),
+    ...(bcc.length > 0 ? { bcc } : {}),
+    ...(replyTo.length > 0 ? { reply_to: replyTo } : {}),
+    subject: getHeader(parsed.headers, 'subject') ?? '',
+    message_id: getHeader(parsed.headers, 'message-id') ?? null,
+    text: parsed.text ?? null,
+    html: parsed.html ?? null,
+    headers,
+    attachments: parsed.attachments.map((attachment) => ({
+      id: randomUUID(),
+      filename: attachment.filename,
+      content_type: attachment.contentType,
+      content_disposition: attachment.disposition,
+      content_id: attachment.contentId ?? null,
+      size: attachment.size,
+    })),
+    source: 'smtp',
+    envelope: { mail_from: envelope.mailFrom, rcpt_to: envelope.rcptTo },
+  };
+}
+
+/** IDs name raw files; refuse anything that could leave the raw directory. */
+function isSafeId(id: string): boolean {
+  return /^[A-Za-z0-9_-]+$/.test(id);
+}
+
+function bareAddress(address: string): string {
+  const match = /<([^>]+)>\s*$/.exec(address);
+  return (match?.[1] ?? address).trim().toLowerCase();
+}
+
+/** List entry in the Resend Inbound shape. */
+export function toReceivedEmailSummary(email: InboundEmailSummary): ReceivedEmailSummary {
+  return {
+    id: email.id,
+    to: email.to,
+    from: email.from,
+    created_at: email.created_at,
+    subject: email.subject,
+    ...(email.cc ? { cc: email.cc } : {}),
+    ...(email.bcc ? { bcc: email.bcc } : {}),
+    ...(email.reply_to ? { reply_to: email.reply_to } : {}),
+    ...(email.message_id ? { message_id: email.message_id } : {}),
+    ...(email.envelope ? { envelope: email.envelope } : {}),
+    attachments: email.attachments,
+  };
+}
+
+/** Full message in the Resend Inbound shape; `raw` is omitted as there is no download URL. */
+export function toReceivedEmailFull(email: InboundEmail): ReceivedEmailFull {
+  return {
+    object: 'email',
+    id: email.id,
+    to: email.to,
+    from: email.from,
+    created_at: email.created_at,
+    subject: email.subject,
+    html: email.html ?? null,
+    text: email.text ?? null,
+    headers: email.headers,
+    ...(email.cc ? { cc: email.cc } : {}),
+    ...(email.bcc ? { bcc: email.bcc } : {}),
+    ...(email.reply_to ? { reply_to: email.reply_to } : {}),
+    message_id: email.message_id ?? null,
+    ...(email.envelope ? { envelope: email.envelope } : {}),
+    attachments: email.attachments.map(({ size: _size, ...attachment }) => attachment),
+  };
+}
+
+/**
+ * listReceivedEmails/getReceivedEmail equivalents backed by the local store,
+ * so the received-email handlers work the same with or without Resend.
+ */
+export function localReceivedEmails(store: InboundStore): {
+  listReceivedEmails: (options?: LocalListReceivedEmailsOptions) => ReturnType<typeof listReceivedEmails>;
+  getReceivedEmail: typeof getReceivedEmail;
+} {
+  return {
+    listReceivedEmails: async (options = {}) => {
+      const { include, ...cursor } = options;
+      const page = await store.list({
+        ...cursor,
+        ...(include ? { include: (email) => include(toReceivedEmailSummary(email)) } : {}),
+      });
+      const data: ReceivedEmailListResult = {
+        object: 'list',
+        has_more: page.has_more,
+        data: page.data.map(toReceivedEmailSummary),
+      };
+      return { ok: true, status: 200, data };
+    },
+    getReceivedEmail: async (emailId) => {
+      const email = await store.get(emailId);
+      if (!email) {
+        return { ok: false, status: 404, error: 'Received email not found' };
+      }
+      return { ok: true, status: 200, data: toReceivedEmailFull(email) };
+    },
+  };
+}
+
+export class FileInboundStore implements InboundStore {
+  private readonly filePath: string;
+  private readonly rawDir: string;
+  private readonly bodyDir: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * `rawDir` and `bodyDir` default to `inbound-raw` and `inbound-bodies`
+   * directories next to the index file.
+   */
+  constructor(filePath: string, rawDir?: string, bodyDir?: string) {
+    this.filePath = filePath;
+    this.rawDir = rawDir ?? join(dirname(filePath), 'inbound-raw');
+    this.bodyDir = bodyDir ?? join(dirname(filePath), 'inbound-bodies');
+  }
+
+  async save(input: NewInboundEmail, raw?: Buffer): Promise<InboundEmail> {
+    const email: InboundEmail = {
+      ...input,
+      id: input.id ?? randomUUID(),
+      created_at: input.created_at ?? new Date().toISOString(),
+    };
+    if (!isSafeId(email.id)) {
+      throw new Error(`Cannot store received email with id ${email.id}`);
+    }
+    if (raw) {
+      await this.saveRaw(email.id, raw);
+    }
+    const { text, html, headers, ...summary } = email;
+    await this.writeBody(email.id, { text, html, headers });
+
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      // Move bodies still held inline by older entries out of the index
+      const emails = await Promise.all(store.emails.map((entry) => this.withoutBody(entry)));
+      const index = emails.findIndex((existing) => existing.id === email.id);
+      if (index >= 0) emails[index] = summary;
+      else emails.push(summary);
+      await this.writeStore({ emails });
+      return email;
+    });
+  }
+
+  async get(id: string): Promise<InboundEmail | null> {
+    const store = await this.readStore();
+    const entry = store.emails.find((email) => email.id === id);
+    if (!entry) return null;
+    const { text, html, headers, ...summary } = entry;
+    const body = (await this.readBody(id)) ?? { text, html, headers: headers ?? {} };
+    return { ...summary, ...body };
+  }
+
+  async list(options: InboundListOptions = {}): Promise<{ has_more: boolean; data: InboundEmailSummary[] }> {
+    const store = await this.readStore();
+    const emails = store.emails
+      .map(({ text: _text, html: _html, headers: _headers, ...summary }) => summary)
+      .filter((email) => options.include?.(email) ?? true)
+      .sort((a, b) => b.created_at.localeCompare(a.created_at) || b.id.localeCompare(a.id));
+    const limit = Math.min(MAX_LIST_LIMIT, Math.max(1, options.limit ?? DEFAULT_LIST_LIMIT));
+
+    if (options.before) {
+      const end = emails.findIndex((email) => email.id === options.before);
+      if (end < 0) return { has_more: false, data: [] };
+      const start = Math.max(0, end - limit);
+      return { has_more: start > 0, data: emails.slice(start, end) };
+    }
+
+    let start = 0;
+    if (options.after) {
+      const index = emails.findIndex((email) => email.id === options.after);
+      if (index < 0) return { has_more: false, data: [] };
+      start = index + 1;
+    }
+    return { has_more: start + limit < emails.length, data: emails.slice(start, start + limit) };
+  }
+
+  async getRaw(id: string): Promise<Buffer | null> {
+    if (!isSafeId(id)) return null;
+    try {
+      return await fs.readFile(this.rawPath(id));
+    } catch {
+      return null;
+    }
+  }
+
+  async getRawSize(id: string): Promise<number | null> {
+    if (!isSafeId(id)) return null;
+    try {
+      return (await fs.stat(this.rawPath(id))).size;
+    } catch {
+      return null;
+    }
+  }
+
+  async saveRaw(id: string, raw: Buffer): Promise<void> {
+    if (!isSafeId(id)) {
+      throw new Error(`Cannot store raw message for id ${id}`);
+    }
+    await fs.mkdir(this.rawDir, { recursive: true });
+    const tempPath = `${this.rawPath(id)}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, raw);
+    await fs.rename(tempPath, this.rawPath(id));
+  }
+
+  private rawPath(id: string): string {
+    return join(this.rawDir, `${id}.eml`);
+  }
+
+  private bodyPath(id: string): string {
+    return join(this.bodyDir, `${id}.json`);
+  }
+
+  private async readBody(id: string): Promise<InboundEmailBody | null> {
+    if (!isSafeId(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(this.bodyPath(id), 'utf8')) as InboundEmailBody;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeBody(id: string, body: InboundEmailBody): Promise<void> {
+    await fs.mkdir(this.bodyDir, { recursive: true });
+    const tempPath = `${this.bodyPath(id)}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(body) + '\n', 'utf8');
+    await fs.rename(tempPath, this.bodyPath(id));
+  }
+
+  /** An index entry without inline bodies, writing them to a body file if needed. */
+  private async withoutBody(
+    entry: InboundStoreData['emails'][number],
+  ): Promise<InboundEmailSummary> {
+    const { text, html, headers, ...summary } = entry;
+    if (headers !== undefined && isSafeId(entry.id)) {
+      await this.writeBody(entry.id, { text, html, headers });
+    }
+    return summary;
+  }
+
+  private async withWriteLock<T>(operation: () => Promise<T>): Promise<T> {
+    const previous = this.writeQueue;
+    let release!: () => void;
+    this.writeQueue = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+
+    await previous;
+    try {
+      return await operation();
+    } finally {
+      release();
+    }
+  }
+
+  private async readStore(): Promise<InboundStoreData> {
+    await this.ensureStoreFile();
+
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw) as Partial<InboundStoreData>;
+      if (!Array.isArray(parsed.emails)) {
+        return { emails: [] };
+      }
+      return { emails: parsed.emails };
+    } catch {
+      return { emails: [] };
+    }
+  }
+
+  private async writeStore(store: InboundStoreData): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    const tempPath = join(
+      dirname(this.filePath),
+      `${basename(this.filePath)}.${process.pid}.${Date.now()}.tmp`,
+    );
+    const payload = JSON.stringify(store, null, 2) + '\n';
+    await fs.writeFile(tempPath, payload, 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private async ensureStoreFile(): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      await this.writeStore({ emails: [] });
+    }
+  }
+}
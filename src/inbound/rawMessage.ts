@@ -0,0 +1,120 @@
+/**
+ * Raw RFC 822 access for received mail. Messages from the SMTP listener are
+ * stored raw on arrival; Resend messages are downloaded on first use from a
+ * fresh `raw.download_url` and kept locally from then on.
+ */
+
+import type { ParsedAttachment } from '../mime/parser.js';
+import type {
+  downloadReceivedEmailRaw,
+  getReceivedEmail,
+} from '../resendReceiving.js';
+import type { InboundStore } from './inboundStore.js';
+
+export interface RawMessageDeps {
+  inboundStore: InboundStore;
+  /** Resend lookups, for the download URL of messages ingested from Resend. */
+  getReceivedEmail: typeof getReceivedEmail;
+  downloadReceivedEmailRaw: typeof downloadReceivedEmailRaw;
+}
+
+/** Attachment fields shared by stored records and Resend's received emails. */
+export interface AttachmentMetadata {
+  id: string;
+  filename: string;
+  content_type: string;
+  content_id?: string | null;
+}
+
+export interface RawMessageOptions {
+  /** Answer 413 instead of loading a message larger than this. */
+  maxBytes?: number;
+}
+
+export interface RawMessageResult {
+  ok: boolean;
+  status?: number;
+  data?: Buffer;
+  error?: string;
+}
+
+/** Raw bytes of a stored message, downloading and caching Resend originals. */
+export async function loadRawMessage(
+  id: string,
+  deps: RawMessageDeps,
+  options: RawMessageOptions = {},
+): Promise<RawMessageResult> {
+  const { maxBytes } = options;
+  const storedSize = await deps.inboundStore.getRawSize(id);
+  if (maxBytes !== undefined && storedSize !== null && storedSize > maxBytes) {
+    return { ok: false, status: 413, error: `Message exceeds ${maxBytes} bytes` };
+  }
+  const stored = storedSize === null ? null : await deps.inboundStore.getRaw(id);
+  if (stored) {
+    return { ok: true, status: 200, data: stored };
+  }
+  const email = await deps.inboundStore.get(id);
+  if (!email) {
+    return { ok: false, status: 404, error: 'Received email not found' };
+  }
+  if (email.source !== 'resend') {
+    return { ok: false, status: 404, error: 'Raw message not available' };
+  }
+
+  const remote = await deps.getReceivedEmail(id);
+  const downloadUrl = remote.data?.raw?.download_url;
+  if (!remote.ok || !downloadUrl) {
+    return {
+      ok: false,
+      status: 502,
+      error: remote.error ?? 'Resend returned no raw download URL',
+    };
+  }
+  const download = await deps.downloadReceivedEmailRaw(downloadUrl, maxBytes);
+  if (!download.ok || !download.data) {
+    return { ok: false, status: download.status || 502, error: download.error ?? 'Raw message download failed' };
+  }
+  await deps.inboundStore.saveRaw(id, download.data);
+  return { ok: true, status: 200, data: download.data };
+}
+
+/** Stored size of one attachment, when it is known (not for every Resend message). */
+export async function getStoredAttachmentSize(
+  id: string,
+  attachmentId: string,
+  deps: Pick<RawMessageDeps, 'inboundStore'>,
+): Promise<number | undefined> {
+  const email = await deps.inboundStore.get(id);
+  return email?.attachments.find((attachment) => attachment.id === attachmentId)?.size;
+}
+
+/**
+ * Match stored attachment metadata to parsed MIME parts. Metadata is listed
+ * in MIME order, so parts pair up by position when the counts agree;
+ * otherwise (Resend may list parts differently) by filename, type and
+ * Content-ID, each part used once.
+ */
+export function pairAttachments<T extends AttachmentMetadata>(
+  metadata: T[],
+  parts: ParsedAttachment[],
+): Map<ParsedAttachment, T> {
+  const pairs = new Map<ParsedAttachment, T>();
+  if (metadata.length === parts.length) {
+    parts.forEach((part, index) => pairs.set(part, metadata[index]));
+    return pairs;
+  }
+  const unmatched = [...metadata];
+  for (const part of parts) {
+    const index = unmatched.findIndex(
+      (item) =>
+        item.filename === part.filename &&
+        item.content_type.toLowerCase() === part.contentType &&
+        ((item.content_id ?? '').replace(/^<|>$/g, '') || undefined) === part.contentId
+    );
+    if (index >= 0) {
+      pairs.set(part, unmatched[index]);
+      unmatched.splice(index, 1);
+    }
+  }
+  return pairs;
+}
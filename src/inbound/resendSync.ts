@@ -0,0 +1,139 @@
+/**
+ * Copies Resend Inbound mail into the local inbound store: one message at a
+ * time from the `email.received` webhook, or every page of the received list
+ * for a backfill. Resend's IDs are kept, so repeated syncs replace rather
+ * than duplicate, and IDs agents already hold keep working.
+ */
+
+import type {
+  ReceivedEmailFull,
+  ReceivedEmailSummary,
+  getReceivedEmail,
+  listReceivedEmails,
+} from '../resendReceiving.js';
+import type { InboundEmail, InboundStore, NewInboundEmail } from './inboundStore.js';
+
+export interface ResendSyncDeps {
+  inboundStore: InboundStore;
+  listReceivedEmails: typeof listReceivedEmails;
+  getReceivedEmail: typeof getReceivedEmail;
+}
+
+export interface IngestResult {
+  ok: boolean;
+  status?: number;
+  email?: InboundEmail;
+  error?: string;
+}
+
+export interface BackfillOptions {
+  /** Messages per list request (Resend allows up to 100). */
+  pageSize?: number;
+  /** Re-fetch messages already stored locally. */
+  refresh?: boolean;
+  /** Called after each page, e.g. to report progress. */
+  onPage?: (progress: BackfillProgress) => void;
+}
+
+export interface BackfillProgress {
+  pages: number;
+  stored: number;
+  skipped: number;
+  failed: number;
+}
+
+const DEFAULT_PAGE_SIZE = 100;
+
+/**
+ * Store record for a Resend message. The full message carries no attachment
+ * sizes, so they are taken from its list entry when one is at hand.
+ */
+export function inboundEmailFromResend(
+  email: ReceivedEmailFull,
+  summary?: ReceivedEmailSummary,
+): NewInboundEmail {
+  const sizes = new Map((summary?.attachments ?? []).map((attachment) => [attachment.id, attachment.size]));
+  return {
+    id: email.id,
+    created_at: email.created_at,
+    from: email.from,
+    to: email.to ?? [],
+    ...(email.cc?.length ? { cc: email.cc } : {}),
+    ...(email.bcc?.length ? { bcc: email.bcc } : {}),
+    ...(email.reply_to?.length ? { reply_to: email.reply_to } : {}),
+    subject: email.subject ?? '',
+    message_id: email.message_id ?? null,
+    text: email.text ?? null,
+    html: email.html ?? null,
+    headers: email.headers ?? {},
+    attachments: (email.attachments ?? []).map((attachment) => {
+      const size = sizes.get(attachment.id);
+      return {
+        id: attachment.id,
+        filename: attachment.filename,
+        content_type: attachment.content_type,
+        content_disposition: attachment.content_disposition === 'inline' ? 'inline' : 'attachment',
+        content_id: attachment.content_id ?? null,
+        ...(size !== undefined ? { size } : {}),
+      };
+    }),
+    source: 'resend',
+  };
+}
+
+/** Fetch one received email from Resend and store it locally. */
+export async function ingestResendEmail(
+  emailId: string,
+  deps: ResendSyncDeps,
+  summary?: ReceivedEmailSummary,
+): Promise<IngestResult> {
+  const result = await deps.getReceivedEmail(emailId);
+  if (!result.ok || !result.data) {
+    return {
+      ok: false,
+      status: result.status || 502,
+      error: result.error ?? 'Failed to retrieve received email',
+    };
+  }
+  const email = await deps.inboundStore.save(inboundEmailFromResend(result.data, summary));
+  return { ok: true, status: 200, email };
+}
+
+/**
+ * Walk Resend's received list from newest to oldest and store every message
+ * not yet held locally. A message that cannot be fetched is counted and
+ * skipped; a page that cannot be listed stops the backfill with an error.
+ */
+export async function backfillResendEmails(
+  deps: ResendSyncDeps,
+  options: BackfillOptions = {},
+): Promise<BackfillProgress & { ok: boolean; error?: string }> {
+  const progress: BackfillProgress = { pages: 0, stored: 0, skipped: 0, failed: 0 };
+  const limit = Math.min(100, Math.max(1, options.pageSize ?? DEFAULT_PAGE_SIZE));
+  let after: string | undefined;
+
+  for (;;) {
+    const page = await deps.listReceivedEmails({ limit, ...(after ? { after } : {}) });
+    if (!page.ok || !page.data) {
+      return { ...progress, ok: false, error: page.error ?? 'Failed to list received emails' };
+    }
+    progress.pages += 1;
+
+    for (const summary of page.data.data) {
+      if (!options.refresh && (await deps.inboundStore.get(summary.id))) {
+        progress.skipped += 1;
+        continue;
+      }
+      const ingested = await ingestResendEmail(summary.id, deps, summary);
+      if (ingested.ok) progress.stored += 1;
+      else progress.failed += 1;
+    }
+    options.onPage?.({ ...progress });
+
+    const last = page.data.data.at(-1);
+    if (!page.data.has_more || !last) {
+      return { ...progress, ok: true };
+    }
+    after = last.id;
+  }
+}
@@ -0,0 +1,344 @@
+/**
+ * Minimal inbound SMTP server (RFC 5321) for receiving mail without Resend.
+ * Handles EHLO/HELO, MAIL FROM, RCPT TO, DATA, RSET, NOOP and QUIT over plain
+ * TCP; no STARTTLS or AUTH, so it is meant to sit behind an MX relay or on a
+ * trusted network. Recipients are checked as they are given, and each
+ * accepted message is handed to `onMessage` as raw bytes.
+ */
+
+import { createServer, type AddressInfo, type Server, type Socket } from 'node:net';
+import { hostname } from 'node:os';
+import { formatDate } from '../mime/builder.js';
+
+export interface InboundSmtpMessage {
+  /** Reverse path from MAIL FROM; empty for bounces. */
+  mailFrom: string;
+  rcptTo: string[];
+  /** Message as received, with a Received trace header prepended. */
+  raw: Buffer;
+  remoteAddress?: string;
+}
+
+export interface InboundSmtpServerOptions {
+  /** Whether to accept mail for a recipient address; false answers 550. */
+  acceptRecipient: (address: string) => Promise<boolean>;
+  /**
+   * Store an accepted message and return its ID. A rejection answers 451 so
+   * the sender retries later.
+   */
+  onMessage: (message: InboundSmtpMessage) => Promise<string>;
+  /** Name announced in the greeting and trace header. Defaults to the local hostname. */
+  name?: string;
+  /** Largest message accepted, in bytes (advertised as SIZE). */
+  maxMessageBytes?: number;
+  maxRecipients?: number;
+  /** Socket inactivity timeout in milliseconds. */
+  timeoutMs?: number;
+}
+
+const DEFAULT_MAX_MESSAGE_BYTES = 25 * 1024 * 1024;
+const DEFAULT_MAX_RECIPIENTS = 100;
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+/** RFC 5321 §4.5.3.1.4 allows 512 octets per command line; leave room for extensions. */
+const MAX_COMMAND_LINE = 4096;
+
+/** Largest inbound message from INBOUND_SMTP_MAX_BYTES (default 25 MB). */
+export function getInboundMaxMessageBytes(): number {
+  const value = Number(process.env.INBOUND_SMTP_MAX_BYTES);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : DEFAULT_MAX_MESSAGE_BYTES;
+}
+
+/** Path inside `<...>` of a MAIL FROM / RCPT TO argument, or null when malformed. */
+function parsePath(argument: string, keyword: 'FROM' | 'TO'): { path: string; params: string } | null {
+  const match = new RegExp(`^${keyword}:\\s*<([^<>]*)>(.*)$`, 'i').exec(argument.trim());
+  if (!match) return null;
+  // Drop source routes (@a,@b:user@host), which RFC 5321 says to ignore
+  return { path: match[1].replace(/^@[^:]*:/, '').trim(), params: match[2].trim() };
+}
+
+type SessionOptions = Required<InboundSmtpServerOptions>;
+
+/** One client connection; commands are handled strictly in order. */
+class SmtpSession {
+  private buffer = '';
+  private processing: Promise<void> = Promise.resolve();
+  private greeted = false;
+  private mailFrom: string | null = null;
+  private rcptTo: string[] = [];
+  private dataLines: string[] | null = null;
+  private dataBytes = 0;
+  private dataTooLarge = false;
+  private closed = false;
+  private readonly socket: Socket;
+  private readonly options: SessionOptions;
+
+  constructor(socket: Socket, options: SessionOptions) {
+    this.socket = socket;
+    this.options = options;
+    socket.setEncoding('latin1');
+    socket.setTimeout(options.timeoutMs);
+    socket.on('timeout', () => {
+      this.reply('421 4.4.2 Idle timeout, closing connection');
+      this.end();
+    });
+    socket.on('data', (chunk: string) => {
+      if (this.closed) return;
+      this.buffer += chunk;
+      this.processing = this.processing
+        .then(() => this.drain())
+        .catch((err) => {
+          // Unexpected failure (e.g. writing to a torn-down socket): drop the session
+          console.error(JSON.stringify({
+            level: 'error',
+            msg: 'inbound_smtp_session_failed',
+            error: err instanceof Error ? err.message : String(err),
+          }));
+          this.reply('421 4.3.0 Internal error, closing connection');
+          this.end();
+        });
+    });
+    socket.on('error', () => {
+      this.closed = true;
+    });
+    socket.on('close', () => {
+      this.closed = true;
+    });
+    this.reply(`220 ${options.name} ESMTP ernest-mail ready`);
+  }
+
+  private reply(line: string): void {
+    if (!this.closed) this.socket.write(line + '\r\n');
+  }
+
+  private end(): void {
+    this.closed = true;
+    this.socket.end();
+  }
+
+  private async drain(): Promise<void> {
+    let start = 0;
+    let newline: number;
+    while (!this.closed && (newline = this.buffer.indexOf('\n', start)) >= 0) {
+      const line = this.buffer.slice(start, newline).replace(/\r$/, '');
+      start = newline + 1;
+      if (this.dataLines) {
+        await this.dataLine(line);
+      } else {
+        await this.command(line);
+      }
+    }
+    this.buffer = this.buffer.slice(start);
+    if (this.dataLines) {
+      if (this.buffer.length > this.options.maxMessageBytes) {
+        this.dataTooLarge = true;
+        this.dataLines = [];
+        this.buffer = '';
+      }
+    } else if (this.buffer.length > MAX_COMMAND_LINE) {
+      this.reply('500 5.5.2 Line too long');
+      this.end();
+    }
+  }
+
+  private resetTransaction(): void {
+    this.mailFrom = null;
+    this.rcptTo = [];
+    this.dataLines = null;
+    this.dataBytes = 0;
+    this.dataTooLarge = false;
+  }
+
+  private async command(line: string): Promise<void> {
+    if (line.length > MAX_COMMAND_LINE) {
+      this.reply('500 5.5.2 Line too long');
+      return;
+    }
+    const space = line.indexOf(' ');
+    const verb = (space < 0 ? line : line.slice(0, space)).toUpperCase();
+    const argument = space < 0 ? '' : line.slice(space + 1);
+
+    switch (verb) {
+      case 'EHLO':
+      case 'HELO':
+        if (!argument.trim()) {
+          this.reply(`501 5.5.4 ${verb} requires a domain`);
+          return;
+        }
+        this.greeted = true;
+        this.resetTransaction();
+        this.reply(
+          verb === 'HELO'
+            ? `250 ${this.options.name}`
+            : `250-${this.options.name}\r\n250-SIZE ${this.options.maxMessageBytes}\r\n250 8BITMIME`
+        );
+        return;
+      case 'MAIL':
+        return this.mail(argument);
+      case 'RCPT':
+        return this.rcpt(argument);
+      case 'DATA':
+        if (this.mailFrom === null || this.rcptTo.length === 0) {
+          this.reply('503 5.5.1 RCPT TO required first');
+          return;
+        }
+        this.dataLines = [];
+        this.reply('354 End data with <CR><LF>.<CR><LF>');
+        return;
+      case 'RSET':
+        this.resetTransaction();
+        this.reply('250 2.0.0 OK');
+        return;
+      case 'NOOP':
+        this.reply('250 2.0.0 OK');
+        return;
+      case 'VRFY':
+        this.reply('252 2.5.0 Cannot verify user, will attempt delivery');
+        return;
+      case 'QUIT':
+        this.reply(`221 2.0.0 ${this.options.name} closing connection`);
+        this.end();
+        return;
+      default:
+        this.reply('502 5.5.1 Command not implemented');
+    }
+  }
+
+  private mail(argument: string): void {
+    if (!this.greeted) {
+      this.reply('503 5.5.1 EHLO or HELO required first');
+      return;
+    }
+    if (this.mailFrom !== null) {
+      this.reply('503 5.5.1 Nested MAIL command');
+      return;
+    }
+    const parsed = parsePath(argument, 'FROM');
+    if (!parsed) {
+      this.reply('501 5.5.4 Syntax: MAIL FROM:<address>');
+      return;
+    }
+    const size = /(?:^|\s)SIZE=(\d+)/i.exec(parsed.params);
+    if (size && Number(size[1]) > this.options.maxMessageBytes) {
+      this.reply('552 5.3.4 Message size exceeds fixed maximum message size');
+      return;
+    }
+    this.mailFrom = parsed.path;
+    this.reply('250 2.1.0 OK');
+  }
+
+  private async rcpt(argument: string): Promise<void> {
+    if (this.mailFrom === null) {
+      this.reply('503 5.5.1 MAIL FROM required first');
+      return;
+    }
+    const parsed = parsePath(argument, 'TO');
+    if (!parsed || !/^[^\s@]+@[^\s@]+$/.test(parsed.path)) {
+      this.reply('501 5.1.3 Syntax: RCPT TO:<address>');
+      return;
+    }
+    if (this.rcptTo.length >= this.options.maxRecipients) {
+      this.reply('452 4.5.3 Too many recipients');
+      return;
+    }
+    let accepted: boolean;
+    try {
+      accepted = await this.options.acceptRecipient(parsed.path);
+    } catch {
+      this.reply('451 4.3.0 Temporary failure checking recipient');
+      return;
+    }
+    if (!accepted) {
+      this.reply('550 5.7.1 Relaying denied');
+      return;
+    }
+    this.rcptTo.push(parsed.path);
+    this.reply('250 2.1.5 OK');
+  }
+
+  private async dataLine(line: string): Promise<void> {
+    if (line === '.') {
+      await this.finishData();
+      return;
+    }
+    if (this.dataTooLarge) return;
+    const unstuffed = line.startsWith('.') ? line.slice(1) : line;
+    this.dataBytes += unstuffed.length + 2;
+    if (this.dataBytes > this.options.maxMessageBytes) {
+      // Keep reading to the terminating dot, then refuse
+      this.dataTooLarge = true;
+      this.dataLines = [];
+      return;
+    }
+    this.dataLines!.push(unstuffed);
+  }
+
+  private async finishData(): Promise<void> {
+    const lines = this.dataLines ?? [];
+    const tooLarge = this.dataTooLarge;
+    const mailFrom = this.mailFrom ?? '';
+    const rcptTo = this.rcptTo;
+    this.resetTransaction();
+    if (tooLarge) {
+      this.reply('552 5.3.4 Message size exceeds fixed maximum message size');
+      return;
+    }
+
+    const remoteAddress = this.socket.remoteAddress;
+    const trace =
+      `Received: from ${remoteAddress ? `[${remoteAddress}]` : 'unknown'}\r\n` +
+      `\tby ${this.options.name} with ESMTP;\r\n\t${formatDate(new Date())}\r\n`;
+    const raw = Buffer.from(trace + lines.join('\r\n') + '\r\n', 'latin1');
+    try {
+      const id = await this.options.onMessage({ mailFrom, rcptTo, raw, remoteAddress });
+      this.reply(`250 2.0.0 OK queued as ${id}`);
+    } catch (err) {
+      console.error(JSON.stringify({
+        level: 'error',
+        msg: 'inbound_smtp_store_failed',
+        error: err instanceof Error ? err.message : String(err),
+      }));
+      this.reply('451 4.3.0 Temporary failure storing message');
+    }
+  }
+}
+
+/** Embedded SMTP listener; one session per connection. */
+export class InboundSmtpServer {
+  private readonly server: Server;
+  private readonly sockets = new Set<Socket>();
+
+  constructor(options: InboundSmtpServerOptions) {
+    const sessionOptions: SessionOptions = {
+      acceptRecipient: options.acceptRecipient,
+      onMessage: options.onMessage,
+      name: options.name ?? hostname(),
+      maxMessageBytes: options.maxMessageBytes ?? DEFAULT_MAX_MESSAGE_BYTES,
+      maxRecipients: options.maxRecipients ?? DEFAULT_MAX_RECIPIENTS,
+      timeoutMs: options.timeoutMs ?? DEFAULT_TIMEOUT_MS,
+    };
+    this.server = createServer((socket) => {
+      this.sockets.add(socket);
+      socket.on('close', () => this.sockets.delete(socket));
+      new SmtpSession(socket, sessionOptions);
+    });
+  }
+
+  /** Start listening; resolves with the bound address (port 0 picks a free port). */
+  listen(port: number, host: string): Promise<AddressInfo> {
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        this.server.off('error', reject);
+        resolve(this.server.address() as AddressInfo);
+      });
+    });
+  }
+
+  /** Stop accepting connections and drop open sessions. */
+  close(): Promise<void> {
+    for (const socket of this.sockets) socket.destroy();
+    return new Promise((resolve) => {
+      this.server.close(() => resolve());
+    });
+  }
+}
@@ -13,10 +13,45 @@ import { FileTokenStore } from './tokens/tokenStore.js';
 import { InMemoryReplayStore } from './attestation/replayStore.js';
 import { FileAccountRepository } from './fileAccountRepository.js';
 import { FileWalletStore } from './fileWalletStore.js';
-import type { AccountProvider, CreateAccountInput } from './accounts.js';
-import { getProviderAdapter } from './providers.js';
+import type { Account, AccountProvider, CreateAccountInput } from './accounts.js';
+import { toPublicAccount } from './accounts.js';
+import { getProviderAdapter, type ProviderAccountSecrets } from './providers.js';
 import { processSendEmail } from './handlers/sendEmail.js';
-import { listReceivedEmails, getReceivedEmail } from './resendReceiving.js';
+import { processSendBatch } from './handlers/sendBatch.js';
+import {
+  processGetReceivedAttachment,
+  processGetReceivedEmail,
+  processListReceivedEmails,
+} from './handlers/receivedEmail.js';
+import { processCancelEmail } from './handlers/cancelEmail.js';
+import { processProvisionAccount } from './handlers/provisionAccount.js';
+import { FileCredentialVault } from './secrets/credentialVault.js';
+import { createIdempotencyMiddleware, InMemoryIdempotencyStore } from './middleware/idempotency.js';
+import { FileMessageRepository } from './fileMessageRepository.js';
+import { FileTemplateRepository } from './fileTemplateRepository.js';
+import { processCreateTemplate, processUpdateTemplate } from './handlers/templates.js';
+import { FileSuppressionStore, SUPPRESSION_REASONS, type SuppressionReason } from './fileSuppressionStore.js';
+import { isMessageStatus, toPublicMessage } from './messages.js';
+import { FileOutboundQueue, toPublicOutboundMessage } from './queue/outboundQueue.js';
+import { OutboundWorker } from './queue/outboundWorker.js';
+import { processResendWebhook, type ResendWebhookResult } from './handlers/resendWebhook.js';
+import { verifySvixSignature, WebhookVerificationError } from './webhooks/svix.js';
+import { listReceivedEmails, getReceivedEmail, downloadReceivedEmailRaw } from './resendReceiving.js';
+import { FileInboundStore, inboundEmailFromRaw, localReceivedEmails } from './inbound/inboundStore.js';
+import { ingestResendEmail } from './inbound/resendSync.js';
+import { getStoredAttachmentSize, loadRawMessage, type RawMessageOptions } from './inbound/rawMessage.js';
+import { getInboundMaxMessageBytes, InboundSmtpServer } from './inbound/smtpServer.js';
+import { getMaxAttachmentBytes } from './attachments.js';
+import { buildMimeMessage } from './mime/builder.js';
+import {
+  DKIM_ALGORITHMS,
+  dkimDnsRecord,
+  generateDkimKey,
+  importDkimKey,
+  signDkim,
+  type DkimAlgorithm,
+  type DkimKey,
+} from './mime/dkim.js';
 import {
   createRateLimiter,
   errorHandler,
@@ -27,7 +62,14 @@ import {
 
 const app = express();
 app.use(requestLogger);
-app.use(express.json());
+// Keep the raw body for webhook signature checks, which must hash the exact bytes sent.
+app.use(express.json({
+  // Base64 attachments grow by a third; leave 1 MB for the rest of the body.
+  limit: Math.ceil((getMaxAttachmentBytes() * 4) / 3) + 1024 * 1024,
+  verify: (req, _res, buf) => {
+    (req as typeof req & { rawBody?: Buffer }).rawBody = buf;
+  },
+}));
 
 const rateLimiter = createRateLimiter({
   windowMs: Number(process.env.RATE_LIMIT_WINDOW_MS ?? 60_000),
@@ -50,6 +92,82 @@ const defaultInitialCredits = Number(process.env.DEFAULT_INITIAL_CREDITS ?? 0) |
 const walletStore = new FileWalletStore(walletPath, { defaultInitialCredits });
 const creditsPerEmail = Math.max(1, Number(process.env.CREDITS_PER_EMAIL ?? 1) || 1);
 
+const credentialsPath =
+  process.env.CREDENTIALS_PATH ?? join(process.cwd(), 'data', 'credentials.json');
+const credentialVault = new FileCredentialVault(credentialsPath);
+
+// DKIM private keys per domain, encrypted under the same master key.
+const dkimKeysPath =
+  process.env.DKIM_KEYS_PATH ?? join(process.cwd(), 'data', 'dkim-keys.json');
+const dkimKeyStore = new FileCredentialVault<DkimKey>(dkimKeysPath);
+
+const messagesPath =
+  process.env.MESSAGES_PATH ?? join(process.cwd(), 'data', 'messages.json');
+const messageRepository = new FileMessageRepository(messagesPath);
+
+const suppressionsPath =
+  process.env.SUPPRESSIONS_PATH ?? join(process.cwd(), 'data', 'suppressions.json');
+const suppressionStore = new FileSuppressionStore(suppressionsPath);
+
+const templatesPath =
+  process.env.TEMPLATES_PATH ?? join(process.cwd(), 'data', 'templates.json');
+const templateRepository = new FileTemplateRepository(templatesPath);
+
+const inboundPath =
+  process.env.INBOUND_PATH ?? join(process.cwd(), 'data', 'inbound.json');
+const inboundStore = new FileInboundStore(inboundPath);
+const inboundSmtpPort = process.env.INBOUND_SMTP_PORT?.trim()
+  ? Number(process.env.INBOUND_SMTP_PORT)
+  : undefined;
+// Received mail is always read from the local store; Resend Inbound mail gets
+// there through the email.received webhook or `npm run backfill:received`.
+const receivedEmailSource = localReceivedEmails(inboundStore);
+const resendSyncDeps = { inboundStore, listReceivedEmails, getReceivedEmail };
+const rawMessageDeps = { inboundStore, getReceivedEmail, downloadReceivedEmailRaw };
+const inboundSmtpServer = new InboundSmtpServer({
+  // Accept any address at a domain one of our accounts uses
+  acceptRecipient: async (address) => {
+    const at = address.lastIndexOf('@');
+    if (at <= 0 || at === address.length - 1) return false;
+    const domain = address.slice(at).toLowerCase();
+    const accounts = await accountRepository.list();
+    return accounts.some((account) => account.email.toLowerCase().endsWith(domain));
+  },
+  onMessage: async ({ mailFrom, rcptTo, raw, remoteAddress }) => {
+    const email = await inboundStore.save(inboundEmailFromRaw(raw, { mailFrom, rcptTo }), raw);
+    console.log(JSON.stringify({
+      level: 'info',
+      msg: 'inbound_email_received',
+      id: email.id,
+      recipients: rcptTo.length,
+      bytes: raw.length,
+      remoteAddress,
+    }));
+    return email.id;
+  },
+  maxMessageBytes: getInboundMaxMessageBytes(),
+});
+
+const outboundQueuePath =
+  process.env.OUTBOUND_QUEUE_PATH ?? join(process.cwd(), 'data', 'outbound-queue.json');
+const outboundQueue = new FileOutboundQueue(outboundQueuePath);
+const outboundWorker = new OutboundWorker(
+  {
+    queue: outboundQueue,
+    accountRepository,
+    getProviderAdapter,
+    credentialVault,
+    dkimKeys: dkimKeyStore,
+    walletStore,
+    messageRepository,
+  },
+  {
+    pollIntervalMs: Number(process.env.OUTBOUND_POLL_INTERVAL_MS ?? 1_000) || 1_000,
+    baseDelayMs: Number(process.env.OUTBOUND_RETRY_BASE_MS ?? 5_000) || 5_000,
+    maxDelayMs: Number(process.env.OUTBOUND_RETRY_MAX_MS ?? 15 * 60 * 1000) || 15 * 60 * 1000,
+  }
+);
+
 const tokensPath =
   process.env.REGISTRATION_TOKENS_PATH ?? join(process.cwd(), 'data', 'registration-tokens.json');
 const tokenStore = new FileTokenStore(tokensPath);
@@ -59,6 +177,8 @@ const adminAuth = createAdminAuthMiddleware({
 });
 
 const replayStore = new InMemoryReplayStore();
+const webhookReplayStore = new InMemoryReplayStore();
+const WEBHOOK_TOLERANCE_SECONDS = 5 * 60;
 const agentAuth = createAgentAuthMiddleware({
   getAgentRegistry: async () => {
     await agentRegistry.load();
@@ -67,12 +187,42 @@ const agentAuth = createAgentAuthMiddleware({
   replayStore,
 });
 
+const sendIdempotency = createIdempotencyMiddleware({
+  store: new InMemoryIdempotencyStore(),
+  ttlMs: Number(process.env.IDEMPOTENCY_TTL_MS ?? 24 * 60 * 60 * 1000),
+  getTenantId: (req) => {
+    const tenantId = req.body?.tenantId ?? req.body?.tenant_id ?? req.headers['x-tenant-id'];
+    return typeof tenantId === 'string' ? tenantId.trim() : undefined;
+  },
+});
+
 app.get('/health', (_req, res) => {
   res.json(withRequestId(res, { status: 'ok' }));
 });
 
+/** Bare address, as the send handler accepts: no delimiters, quotes or comments. */
 function isValidEmail(email: string): boolean {
-  return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
+  return /^[^\s@,;<>"()\\]+@[^\s@,;<>"()\\]+\.[^\s@,;<>"()\\]+$/.test(email);
+}
+
+function isAgentIdList(value: unknown): value is string[] {
+  return Array.isArray(value) &&
+    value.every((agentId) => typeof agentId === 'string' && agentId.trim().length > 0);
+}
+
+/** Provider credentials from an account request body (`credentials` or `smtp` shorthand). */
+function parseAccountCredentials(body: {
+  credentials?: unknown;
+  smtp?: unknown;
+} | undefined): ProviderAccountSecrets | undefined {
+  const credentials =
+    body?.credentials && typeof body.credentials === 'object'
+      ? { ...(body.credentials as ProviderAccountSecrets) }
+      : undefined;
+  if (body?.smtp && typeof body.smtp === 'object') {
+    return { ...credentials, smtp: body.smtp as ProviderAccountSecrets['smtp'] };
+  }
+  return credentials;
 }
 
 /** Get FIDO2 registration options for agent. Admin only (API key). */
@@ -94,9 +244,13 @@ app.get('/agents/register/options', adminAuth, async (req, res) => {
   }
 });
 
-/** Create managed email account. API key required. */
+/** Create managed email account and run provider provisioning. API key required. */
 app.post('/accounts', adminAuth, async (req, res) => {
-  const body = req.body as Partial<CreateAccountInput>;
+  const body = req.body as Partial<CreateAccountInput> & {
+    from?: string;
+    credentials?: unknown;
+    smtp?: unknown;
+  };
   const email = typeof body?.email === 'string' ? body.email.trim() : '';
   const provider = body?.provider;
 
@@ -118,13 +272,35 @@ app.post('/accounts', adminAuth, async (req, res) => {
     return;
   }
 
+  const failoverProviders = body.failoverProviders;
+  if (
+    failoverProviders !== undefined &&
+    (!Array.isArray(failoverProviders) ||
+      !failoverProviders.every((p) => typeof p === 'string' && validProviders.includes(p)))
+  ) {
+    res.status(400).json(withRequestId(res, {
+      error: `failoverProviders must be an array of: ${validProviders.join(', ')}`,
+    }));
+    return;
+  }
+
+  const agentIds = body.agentIds;
+  if (agentIds !== undefined && !isAgentIdList(agentIds)) {
+    res.status(400).json(withRequestId(res, {
+      error: 'agentIds must be an array of agent IDs',
+    }));
+    return;
+  }
+
+  let account: Account;
   try {
-    const account = await accountRepository.create({
+    account = await accountRepository.create({
       email: email.toLowerCase(),
       provider: provider as AccountProvider,
       status: body.status,
+      failoverProviders,
+      agentIds: agentIds?.map((agentId) => agentId.trim()),
     });
-    res.status(201).json(withRequestId(res, account));
   } catch (err) {
     if (err instanceof Error && err.message.includes('already exists')) {
       res.status(409).json(withRequestId(res, { error: err.message }));
@@ -135,7 +311,76 @@ app.post('/accounts', adminAuth, async (req, res) => {
       .json(withRequestId(res, {
         error: err instanceof Error ? err.message : 'Account creation failed',
       }));
+    return;
+  }
+
+  // The account exists even if provisioning fails; provisioningError records
+  // why, and POST /accounts/:id/reprovision retries.
+  const provisioned = await processProvisionAccount(
+    account,
+    {
+      requestedFromAddress: typeof body.from === 'string' ? body.from.trim() : undefined,
+      credentials: parseAccountCredentials(body),
+    },
+    { accountRepository, getProviderAdapter, credentialVault }
+  );
+  const created =
+    provisioned.status === 200
+      ? provisioned.body
+      : (provisioned.body as { account: unknown }).account;
+  res.status(201).json(withRequestId(res, created));
+});
+
+/** Retry provider provisioning for an account. API key required. */
+app.post('/accounts/:id/reprovision', adminAuth, async (req, res) => {
+  const id = req.params.id;
+  if (typeof id !== 'string') {
+    res.status(400).json({ error: 'Invalid account ID' });
+    return;
+  }
+  const account = await accountRepository.getById(id);
+  if (!account) {
+    res.status(404).json(withRequestId(res, { error: 'Account not found' }));
+    return;
+  }
+  const body = (req.body ?? {}) as { from?: string; credentials?: unknown; smtp?: unknown };
+  const result = await processProvisionAccount(
+    account,
+    {
+      requestedFromAddress: typeof body.from === 'string' ? body.from.trim() : undefined,
+      credentials: parseAccountCredentials(body),
+    },
+    { accountRepository, getProviderAdapter, credentialVault }
+  );
+  res.status(result.status).json(withRequestId(res, result.body));
+});
+
+/**
+ * Replace the agents that own an account (and so may read its received mail).
+ * Body: { agentIds: string[] }. API key required.
+ */
+app.put('/accounts/:id/agents', adminAuth, async (req, res) => {
+  const id = req.params.id;
+  if (typeof id !== 'string') {
+    res.status(400).json({ error: 'Invalid account ID' });
+    return;
+  }
+  const agentIds = req.body?.agentIds;
+  if (!isAgentIdList(agentIds)) {
+    res.status(400).json(withRequestId(res, {
+      error: 'agentIds must be an array of agent IDs',
+    }));
+    return;
   }
+  const account = await accountRepository.updateAgents(
+    id,
+    agentIds.map((agentId) => agentId.trim())
+  );
+  if (!account) {
+    res.status(404).json(withRequestId(res, { error: 'Account not found' }));
+    return;
+  }
+  res.json(withRequestId(res, toPublicAccount(account)));
 });
 
 /** Get account by ID. API key required. */
@@ -150,7 +395,22 @@ app.get('/accounts/:id', adminAuth, async (req, res) => {
     res.status(404).json(withRequestId(res, { error: 'Account not found' }));
     return;
   }
-  res.json(withRequestId(res, account));
+  res.json(withRequestId(res, toPublicAccount(account)));
+});
+
+/** Re-encrypt stored account credentials under the active master key. Admin only (API key). */
+app.post('/credentials/rotate', adminAuth, async (_req, res) => {
+  try {
+    const result = await credentialVault.rotate();
+    const dkim = await dkimKeyStore.rotate();
+    res.json(withRequestId(res, { ...result, dkimRotated: dkim.rotated }));
+  } catch (err) {
+    res
+      .status(500)
+      .json(withRequestId(res, {
+        error: err instanceof Error ? err.message : 'Credential rotation failed',
+      }));
+  }
 });
 
 /** Create one-time registration tokens. Admin only (API key). */
@@ -182,11 +442,236 @@ app.get('/credits/:tenantId', adminAuth, async (req, res) => {
   res.json(withRequestId(res, { tenantId: tenantId.trim(), balance }));
 });
 
-/** List received emails (Resend Inbound). Attestation required (X-Attestation). */
-app.get('/emails/received', agentAuth, async (_req, res) => {
-  const limit = _req.query.limit;
-  const after = _req.query.after;
-  const before = _req.query.before;
+/** List suppressed recipients. Query: accountId, email. API key required. */
+app.get('/suppressions', adminAuth, async (req, res) => {
+  const { accountId, email } = req.query;
+  const suppressions = await suppressionStore.list({
+    accountId: typeof accountId === 'string' && accountId.trim() ? accountId.trim() : undefined,
+    email: typeof email === 'string' && email.trim() ? email.trim() : undefined,
+  });
+  res.json(withRequestId(res, { data: suppressions }));
+});
+
+/** Suppress a recipient globally or for one account. API key required. */
+app.post('/suppressions', adminAuth, async (req, res) => {
+  const body = req.body as {
+    email?: unknown;
+    accountId?: unknown;
+    reason?: unknown;
+    detail?: unknown;
+  };
+  const email = typeof body?.email === 'string' ? body.email.trim() : '';
+  if (!email || !isValidEmail(email)) {
+    res.status(400).json(withRequestId(res, { error: 'valid email required' }));
+    return;
+  }
+  const reason = body.reason ?? 'manual';
+  if (typeof reason !== 'string' || !SUPPRESSION_REASONS.includes(reason as SuppressionReason)) {
+    res.status(400).json(withRequestId(res, {
+      error: `reason must be one of: ${SUPPRESSION_REASONS.join(', ')}`,
+    }));
+    return;
+  }
+  const accountId =
+    typeof body.accountId === 'string' && body.accountId.trim() ? body.accountId.trim() : undefined;
+  if (accountId && !(await accountRepository.getById(accountId))) {
+    res.status(404).json(withRequestId(res, { error: 'Account not found' }));
+    return;
+  }
+  const suppression = await suppressionStore.add({
+    email,
+    accountId,
+    reason: reason as SuppressionReason,
+    detail: typeof body.detail === 'string' ? body.detail : undefined,
+  });
+  res.status(201).json(withRequestId(res, suppression));
+});
+
+/** Remove a suppression. Query: accountId (omit for the global entry). API key required. */
+app.delete('/suppressions/:email', adminAuth, async (req, res) => {
+  const email = req.params.email;
+  if (!email || typeof email !== 'string') {
+    res.status(400).json(withRequestId(res, { error: 'email required' }));
+    return;
+  }
+  const accountId = typeof req.query.accountId === 'string' ? req.query.accountId.trim() : undefined;
+  const removed = await suppressionStore.remove(email, accountId || undefined);
+  if (!removed) {
+    res.status(404).json(withRequestId(res, { error: 'Suppression not found' }));
+    return;
+  }
+  res.status(204).end();
+});
+
+/**
+ * Configure the DKIM key for a sending domain: generates a key pair (or imports
+ * `privateKey` PEM) and returns the DNS TXT record to publish. API key required.
+ * Body: { domain, selector? (default "ernest"), algorithm? (rsa-sha256 | ed25519-sha256), privateKey? }
+ */
+app.post('/dkim/keys', adminAuth, async (req, res) => {
+  const body = req.body as {
+    domain?: unknown;
+    selector?: unknown;
+    algorithm?: unknown;
+    privateKey?: unknown;
+  };
+  const domain = typeof body?.domain === 'string' ? body.domain.trim().toLowerCase() : '';
+  if (!/^(?=.{1,253}$)([a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?\.)+[a-z]{2,63}$/.test(domain)) {
+    res.status(400).json(withRequestId(res, { error: 'valid domain required' }));
+    return;
+  }
+  const selector = body.selector ?? 'ernest';
+  if (typeof selector !== 'string' || !/^[a-z0-9](?:[a-z0-9._-]{0,61}[a-z0-9])?$/i.test(selector)) {
+    res.status(400).json(withRequestId(res, { error: 'selector must be a DNS label' }));
+    return;
+  }
+  const algorithm = body.algorithm ?? 'rsa-sha256';
+  if (typeof algorithm !== 'string' || !DKIM_ALGORITHMS.includes(algorithm as DkimAlgorithm)) {
+    res.status(400).json(withRequestId(res, {
+      error: `algorithm must be one of: ${DKIM_ALGORITHMS.join(', ')}`,
+    }));
+    return;
+  }
+
+  let key: DkimKey;
+  try {
+    key =
+      typeof body.privateKey === 'string'
+        ? importDkimKey(domain, selector, body.privateKey)
+        : generateDkimKey(domain, selector, algorithm as DkimAlgorithm);
+  } catch (err) {
+    res.status(400).json(withRequestId(res, {
+      error: err instanceof Error ? err.message : 'Invalid private key',
+    }));
+    return;
+  }
+  if (body.algorithm !== undefined && key.algorithm !== algorithm) {
+    res.status(400).json(withRequestId(res, {
+      error: `privateKey is a ${key.algorithm} key, not ${algorithm}`,
+    }));
+    return;
+  }
+  try {
+    await dkimKeyStore.set(domain, key);
+  } catch (err) {
+    res.status(500).json(withRequestId(res, {
+      error: err instanceof Error ? err.message : 'Failed to store DKIM key',
+    }));
+    return;
+  }
+  res.status(201).json(withRequestId(res, {
+    domain: key.domain,
+    selector: key.selector,
+    algorithm: key.algorithm,
+    createdAt: key.createdAt,
+    dnsRecord: dkimDnsRecord(key),
+  }));
+});
+
+/** DKIM configuration and DNS record for a domain (never the private key). API key required. */
+app.get('/dkim/keys/:domain', adminAuth, async (req, res) => {
+  const domain = req.params.domain;
+  if (!domain || typeof domain !== 'string') {
+    res.status(400).json(withRequestId(res, { error: 'domain required' }));
+    return;
+  }
+  const key = await dkimKeyStore.get(domain.toLowerCase());
+  if (!key) {
+    res.status(404).json(withRequestId(res, { error: 'DKIM key not found' }));
+    return;
+  }
+  res.json(withRequestId(res, {
+    domain: key.domain,
+    selector: key.selector,
+    algorithm: key.algorithm,
+    createdAt: key.createdAt,
+    dnsRecord: dkimDnsRecord(key),
+  }));
+});
+
+/** Stop signing for a domain. API key required. */
+app.delete('/dkim/keys/:domain', adminAuth, async (req, res) => {
+  const domain = req.params.domain;
+  if (!domain || typeof domain !== 'string') {
+    res.status(400).json(withRequestId(res, { error: 'domain required' }));
+    return;
+  }
+  if (!(await dkimKeyStore.delete(domain.toLowerCase()))) {
+    res.status(404).json(withRequestId(res, { error: 'DKIM key not found' }));
+    return;
+  }
+  res.status(204).end();
+});
+
+/** List email templates by name. API key required. */
+app.get('/templates', adminAuth, async (_req, res) => {
+  const templates = await templateRepository.list();
+  res.json(withRequestId(res, { data: templates }));
+});
+
+/**
+ * Create a template. Body: { name, subject, text?, html? } with {{variable}}
+ * placeholders; every placeholder must be supplied at send time. API key required.
+ */
+app.post('/templates', adminAuth, async (req, res) => {
+  const result = await processCreateTemplate(req.body ?? {}, { templateRepository });
+  res.status(result.status).json(withRequestId(res, result.body));
+});
+
+app.get('/templates/:id', adminAuth, async (req, res) => {
+  const id = req.params.id;
+  if (!id || typeof id !== 'string') {
+    res.status(400).json(withRequestId(res, { error: 'template id required' }));
+    return;
+  }
+  const template = await templateRepository.getById(id);
+  if (!template) {
+    res.status(404).json(withRequestId(res, { error: 'Template not found' }));
+    return;
+  }
+  res.json(withRequestId(res, template));
+});
+
+/** Update name, subject, text or html (null removes a body). API key required. */
+app.patch('/templates/:id', adminAuth, async (req, res) => {
+  const id = req.params.id;
+  if (!id || typeof id !== 'string') {
+    res.status(400).json(withRequestId(res, { error: 'template id required' }));
+    return;
+  }
+  const result = await processUpdateTemplate(id, req.body ?? {}, { templateRepository });
+  res.status(result.status).json(withRequestId(res, result.body));
+});
+
+app.delete('/templates/:id', adminAuth, async (req, res) => {
+  const id = req.params.id;
+  if (!id || typeof id !== 'string') {
+    res.status(400).json(withRequestId(res, { error: 'template id required' }));
+    return;
+  }
+  if (!(await templateRepository.delete(id))) {
+    res.status(404).json(withRequestId(res, { error: 'Template not found' }));
+    return;
+  }
+  res.status(204).end();
+});
+
+const receivedEmailDeps = {
+  accountRepository,
+  ...receivedEmailSource,
+  getRawMessage: (id: string, options?: RawMessageOptions) => loadRawMessage(id, rawMessageDeps, options),
+  getAttachmentSize: (id: string, attachmentId: string) =>
+    getStoredAttachmentSize(id, attachmentId, rawMessageDeps),
+};
+
+/**
+ * List received emails (from the local inbound store) addressed to accounts the calling
+ * agent owns. Attestation required (X-Attestation).
+ */
+app.get('/emails/received', agentAuth, async (req, res) => {
+  const limit = req.query.limit;
+  const after = req.query.after;
+  const before = req.query.before;
   const opts: { limit?: number; after?: string; before?: string } = {};
   if (typeof limit === 'string') {
     const n = Number(limit);
@@ -194,50 +679,309 @@ app.get('/emails/received', agentAuth, async (_req, res) => {
   }
   if (typeof after === 'string' && after.trim()) opts.after = after.trim();
   if (typeof before === 'string' && before.trim()) opts.before = before.trim();
-  const result = await listReceivedEmails(opts);
-  if (!result.ok) {
-    res
-      .status(result.status ?? 502)
-      .json(withRequestId(res, { error: result.error ?? 'Failed to list received emails' }));
-    return;
-  }
-  res.json(withRequestId(res, result.data ?? { object: 'list', has_more: false, data: [] }));
+  const result = await processListReceivedEmails(opts, receivedEmailDeps, {
+    agentId: (req as typeof req & { agentId?: string }).agentId
+  });
+  res.status(result.status).json(withRequestId(res, result.body));
 });
 
-/** Get a single received email by ID (full content). Attestation required (X-Attestation). */
+/**
+ * Get a single received email by ID (full content); 404 unless it was sent to
+ * an account the calling agent owns. `?parsed=full` adds headers, bodies,
+ * charsets, attachments and inline parts parsed from the raw message.
+ * Attestation required (X-Attestation).
+ */
 app.get('/emails/received/:id', agentAuth, async (req, res) => {
   const id = req.params.id;
   if (!id || typeof id !== 'string') {
     res.status(400).json(withRequestId(res, { error: 'email id required' }));
     return;
   }
-  const result = await getReceivedEmail(id);
-  if (!result.ok) {
-    res
-      .status(result.status ?? 502)
-      .json(withRequestId(res, { error: result.error ?? 'Failed to retrieve received email' }));
+  const parsed = req.query.parsed;
+  if (parsed !== undefined && parsed !== 'full') {
+    res.status(400).json(withRequestId(res, { error: "parsed must be 'full'" }));
+    return;
+  }
+  const result = await processGetReceivedEmail(id, receivedEmailDeps, {
+    agentId: (req as typeof req & { agentId?: string }).agentId
+  }, { parsed });
+  res.status(result.status).json(withRequestId(res, result.body));
+});
+
+/**
+ * Download one attachment of a received email (404 unless the email was sent
+ * to an account the calling agent owns). Always served as a download with
+ * the part's content type; denied file types (RECEIVED_ATTACHMENT_DENYLIST)
+ * get 415 and parts over RECEIVED_ATTACHMENT_MAX_BYTES 413.
+ * Attestation required (X-Attestation).
+ */
+app.get('/emails/received/:id/attachments/:attachmentId', agentAuth, async (req, res) => {
+  const { id, attachmentId } = req.params;
+  if (!id || typeof id !== 'string' || !attachmentId || typeof attachmentId !== 'string') {
+    res.status(400).json(withRequestId(res, { error: 'email id and attachment id required' }));
+    return;
+  }
+  const result = await processGetReceivedAttachment(id, attachmentId, receivedEmailDeps, {
+    agentId: (req as typeof req & { agentId?: string }).agentId
+  });
+  if (!result.attachment) {
+    res.status(result.status).json(withRequestId(res, result.body));
     return;
   }
-  res.json(withRequestId(res, result.data ?? {}));
+  res.attachment(result.attachment.filename);
+  res.type(result.attachment.contentType);
+  res.set('X-Content-Type-Options', 'nosniff');
+  res.send(result.attachment.content);
 });
 
-/** Send an email using a managed account. Attestation required (X-Attestation). */
-app.post('/emails/send', agentAuth, async (req, res) => {
+const sendEmailDeps = {
+  accountRepository,
+  getProviderAdapter,
+  walletStore,
+  creditsPerEmail,
+  credentialVault,
+  dkimKeys: dkimKeyStore,
+  outboundQueue,
+  messageRepository,
+  suppressionStore,
+  templateRepository,
+  getReceivedEmail: receivedEmailSource.getReceivedEmail
+};
+
+/**
+ * Queue an email for delivery using a managed account. Attestation required
+ * (X-Attestation). An Idempotency-Key header makes retries return the first
+ * response. Track delivery with GET /emails/:id. sendAt (ISO timestamp)
+ * schedules delivery; credits are held until it is sent or cancelled.
+ */
+app.post('/emails/send', agentAuth, sendIdempotency, async (req, res) => {
   const tenantId =
     req.body?.tenantId ?? req.body?.tenant_id ?? req.headers['x-tenant-id'];
   const body = {
     ...req.body,
     tenantId: typeof tenantId === 'string' ? tenantId : undefined
   };
-  const result = await processSendEmail(body, {
-    accountRepository,
-    getProviderAdapter,
+  const result = await processSendEmail(body, sendEmailDeps, {
+    agentId: (req as typeof req & { agentId?: string }).agentId
+  });
+  res.status(result.status).json(withRequestId(res, result.body));
+});
+
+/**
+ * Send up to MAX_BATCH_SIZE emails under one attestation. Each message follows
+ * the /emails/send rules; mode "all-or-nothing" sends nothing unless every
+ * message validates and the batch's credits can be held together, "per-item"
+ * (default) sends what it can. Returns per-message results (202, or 207 when
+ * some failed).
+ */
+app.post('/emails/batch', agentAuth, sendIdempotency, async (req, res) => {
+  const tenantId =
+    req.body?.tenantId ?? req.body?.tenant_id ?? req.headers['x-tenant-id'];
+  const body = {
+    ...req.body,
+    tenantId: typeof tenantId === 'string' ? tenantId : undefined
+  };
+  const result = await processSendBatch(body, sendEmailDeps, {
+    agentId: (req as typeof req & { agentId?: string }).agentId
+  });
+  res.status(result.status).json(withRequestId(res, result.body));
+});
+
+/** Dead-lettered emails that permanently failed delivery. API key required. */
+app.get('/emails/dead-letter', adminAuth, async (_req, res) => {
+  const messages = await outboundQueue.listDeadLetter();
+  res.json(withRequestId(res, { data: messages.map(toPublicOutboundMessage) }));
+});
+
+/**
+ * List the calling agent's sent emails, newest first. Attestation required.
+ * Query: accountId, status, since (ISO timestamp), limit (1-100, default 50).
+ */
+app.get('/emails', agentAuth, async (req, res) => {
+  const agentId = (req as typeof req & { agentId?: string }).agentId;
+  const { accountId, status, since, limit } = req.query;
+  if (status !== undefined && !isMessageStatus(status)) {
+    res.status(400).json(withRequestId(res, { error: 'invalid status' }));
+    return;
+  }
+  let sinceDate: Date | undefined;
+  if (typeof since === 'string' && since.trim()) {
+    sinceDate = new Date(since.trim());
+    if (Number.isNaN(sinceDate.getTime())) {
+      res.status(400).json(withRequestId(res, { error: 'since must be an ISO timestamp' }));
+      return;
+    }
+  }
+  let max = 50;
+  if (typeof limit === 'string') {
+    const n = Number(limit);
+    if (!Number.isNaN(n)) max = Math.min(100, Math.max(1, n));
+  }
+  const messages = await messageRepository.list({
+    agentId: agentId ?? '',
+    accountId: typeof accountId === 'string' && accountId.trim() ? accountId.trim() : undefined,
+    status: isMessageStatus(status) ? status : undefined,
+    since: sinceDate,
+    limit: max,
+  });
+  res.json(withRequestId(res, { data: messages.map(toPublicMessage) }));
+});
+
+/**
+ * Status of a sent email, with queue delivery state while it is in the outbound
+ * queue. Attestation required; only the sending agent sees it.
+ */
+app.get('/emails/:id', agentAuth, async (req, res) => {
+  const id = req.params.id;
+  if (!id || typeof id !== 'string') {
+    res.status(400).json(withRequestId(res, { error: 'email id required' }));
+    return;
+  }
+  const agentId = (req as typeof req & { agentId?: string }).agentId;
+  const message = await messageRepository.getById(id);
+  if (!message || message.agentId !== agentId) {
+    res.status(404).json(withRequestId(res, { error: 'Email not found' }));
+    return;
+  }
+  const queued = await outboundQueue.get(id);
+  const delivery = queued ? toPublicOutboundMessage(queued) : undefined;
+  res.json(withRequestId(res, {
+    ...toPublicMessage(message),
+    ...(delivery
+      ? {
+          delivery: {
+            status: delivery.status,
+            attempts: delivery.attempts,
+            maxAttempts: delivery.maxAttempts,
+            nextAttemptAt: delivery.nextAttemptAt,
+            scheduledAt: delivery.scheduledAt,
+            lastError: delivery.lastError,
+          },
+        }
+      : {}),
+  }));
+});
+
+/**
+ * Cancel an email that has not been sent yet (e.g. a scheduled send) and
+ * release its credit hold. Attestation required; only the sending agent can
+ * cancel. 409 once the worker has claimed or finished the message.
+ */
+app.delete('/emails/:id', agentAuth, async (req, res) => {
+  const id = req.params.id;
+  if (!id || typeof id !== 'string') {
+    res.status(400).json(withRequestId(res, { error: 'email id required' }));
+    return;
+  }
+  const result = await processCancelEmail(id, {
+    outboundQueue,
+    messageRepository,
     walletStore,
-    creditsPerEmail
+  }, {
+    agentId: (req as typeof req & { agentId?: string }).agentId
   });
   res.status(result.status).json(withRequestId(res, result.body));
 });
 
+/**
+ * Export a sent email as RFC 5322 (message/rfc822), composed from the content
+ * kept by the outbound queue and DKIM-signed when the domain has a key. Bcc
+ * recipients are not included. Attestation required; only the sending agent
+ * can export.
+ */
+app.get('/emails/:id/raw', agentAuth, async (req, res) => {
+  const id = req.params.id;
+  if (!id || typeof id !== 'string') {
+    res.status(400).json(withRequestId(res, { error: 'email id required' }));
+    return;
+  }
+  const agentId = (req as typeof req & { agentId?: string }).agentId;
+  const message = await messageRepository.getById(id);
+  if (!message || message.agentId !== agentId) {
+    res.status(404).json(withRequestId(res, { error: 'Email not found' }));
+    return;
+  }
+  const queued = await outboundQueue.get(id);
+  const content = await outboundQueue.getContent(id);
+  const account = await accountRepository.getById(message.accountId);
+  if (!queued || !content || !account) {
+    res.status(404).json(withRequestId(res, { error: 'Email content not available' }));
+    return;
+  }
+  // The provider's From (e.g. an SMTP account's own address) names the
+  // signing domain, as it did for the delivered message.
+  const from = queued.from ?? account.email;
+  const domain = (/<([^>]+)>/.exec(from)?.[1] ?? from).trim().split('@')[1] ?? 'localhost';
+  // SMTP sends carry the Message-ID we generated; reuse it so the export matches.
+  const messageId =
+    message.provider === 'smtp' && message.providerMessageId
+      ? message.providerMessageId
+      : `<${message.id}@${domain}>`;
+  const date = new Date(queued.sentAt ?? queued.createdAt);
+  const raw = buildMimeMessage(content, {
+    from,
+    messageId,
+    date,
+    boundarySeed: message.id,
+  });
+  const dkimKey = await dkimKeyStore.get(domain.toLowerCase());
+  res.type('message/rfc822').send(dkimKey ? signDkim(raw, dkimKey, date) : raw);
+});
+
+/**
+ * Resend delivery events, plus `email.received`, which stores the inbound
+ * message locally (Svix-signed). Authenticated by signature against
+ * RESEND_WEBHOOK_SECRET; stale timestamps and replayed svix-ids are rejected.
+ */
+app.post('/webhooks/resend', async (req, res) => {
+  const secret = process.env.RESEND_WEBHOOK_SECRET?.trim();
+  if (!secret) {
+    res.status(503).json(withRequestId(res, { error: 'Resend webhook not configured' }));
+    return;
+  }
+  const header = (name: string) => {
+    const value = req.headers[name];
+    return typeof value === 'string' ? value : undefined;
+  };
+  const svixId = header('svix-id');
+  try {
+    verifySvixSignature(
+      secret,
+      { id: svixId, timestamp: header('svix-timestamp'), signature: header('svix-signature') },
+      (req as typeof req & { rawBody?: Buffer }).rawBody ?? '',
+      { toleranceSeconds: WEBHOOK_TOLERANCE_SECONDS }
+    );
+  } catch (err) {
+    if (err instanceof WebhookVerificationError) {
+      res.status(401).json(withRequestId(res, { error: 'Unauthorized', hint: err.message }));
+      return;
+    }
+    throw err;
+  }
+  // Claim the svix-id before processing so a concurrent duplicate is refused.
+  if (!webhookReplayStore.claim(svixId!, 2 * WEBHOOK_TOLERANCE_SECONDS * 1000)) {
+    res.status(409).json(withRequestId(res, { error: 'Webhook already processed' }));
+    return;
+  }
+
+  let result: ResendWebhookResult;
+  try {
+    result = await processResendWebhook(req.body ?? {}, {
+      messageRepository,
+      suppressionStore,
+      ingestReceivedEmail: (emailId) => ingestResendEmail(emailId, resendSyncDeps),
+    });
+  } catch (err) {
+    webhookReplayStore.release(svixId!);
+    throw err;
+  }
+  // Release failed events so Resend's retry of the same svix-id is processed.
+  if (result.status >= 500) {
+    webhookReplayStore.release(svixId!);
+  }
+  res.status(result.status).json(withRequestId(res, result.body));
+});
+
 /** Self-register agent (no admin). Requires one-time token + key proof. */
 app.post('/agents/self-register', async (req, res) => {
   const body = req.body as {
@@ -373,6 +1117,18 @@ const host = process.env.NODE_ENV === 'production' ? '0.0.0.0' : '127.0.0.1';
 
 /** Start server. Call from CLI or tests. */
 export function startServer(): ReturnType<express.Express['listen']> {
+  outboundWorker.start();
+  if (inboundSmtpPort !== undefined) {
+    const smtpHost = process.env.INBOUND_SMTP_HOST?.trim() || host;
+    inboundSmtpServer.listen(inboundSmtpPort, smtpHost).then(
+      (address) => console.log(`ernest-mail SMTP listening on ${address.address}:${address.port}`),
+      (err: unknown) => console.error(JSON.stringify({
+        level: 'error',
+        msg: 'inbound_smtp_listen_failed',
+        error: err instanceof Error ? err.message : String(err),
+      })),
+    );
+  }
   return app.listen(port, host, () => {
     console.log(`ernest-mail listening on ${host}:${port}`);
   });
@@ -0,0 +1,162 @@
+import type { AccountProvider } from './accounts.js';
+
+/**
+ * Lifecycle of an outbound message: queued (or scheduled, for a future sendAt)
+ * until a provider accepts it (sent), then delivered / bounced / complained as
+ * provider events arrive. failed means delivery was abandoned (permanent error
+ * or retries exhausted); cancelled means the sender withdrew it before sending.
+ */
+export type MessageStatus =
+  | 'scheduled'
+  | 'queued'
+  | 'sent'
+  | 'delivered'
+  | 'bounced'
+  | 'complained'
+  | 'failed'
+  | 'cancelled';
+
+export interface MessageEvent {
+  /** Message status after the event. */
+  status: MessageStatus;
+  /** Provider event type (e.g. email.opened) when the event came from a webhook. */
+  type?: string;
+  at: string;
+  /** Error or provider detail for the transition. */
+  detail?: string;
+}
+
+export interface SentMessage {
+  id: string;
+  accountId: string;
+  tenantId?: string;
+  agentId?: string;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  status: MessageStatus;
+  /** Requested delivery time for scheduled sends. */
+  scheduledAt?: string;
+  /** Credits charged for the message (0 for admin tenants or when unmetered). */
+  cost: number;
+  /** Provider that accepted the message and its ID, once sent. */
+  provider?: AccountProvider;
+  providerMessageId?: string;
+  lastError?: string;
+  events: MessageEvent[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateMessageInput {
+  /** Reuse an existing ID (e.g. the outbound queue's) so both records line up. */
+  id?: string;
+  accountId: string;
+  tenantId?: string;
+  agentId?: string;
+  to: string[];
+  cc?: string[];
+  bcc?: string[];
+  subject: string;
+  status?: MessageStatus;
+  scheduledAt?: string;
+  cost?: number;
+  provider?: AccountProvider;
+  providerMessageId?: string;
+  /** Why the message failed, when recorded as failed up front. */
+  error?: string;
+}
+
+export interface MessageStatusUpdate {
+  provider?: AccountProvider;
+  providerMessageId?: string;
+  /** Corrected charge, e.g. 0 once a failed send's hold is released. */
+  cost?: number;
+  /** Error or provider detail; stored as lastError for failed/bounced. */
+  detail?: string;
+  /** Provider event type that caused the transition. */
+  type?: string;
+}
+
+export interface MessageListFilter {
+  agentId?: string;
+  accountId?: string;
+  status?: MessageStatus;
+  /** Only messages created at or after this time. */
+  since?: Date;
+  limit?: number;
+}
+
+export interface MessageRepository {
+  create(input: CreateMessageInput): Promise<SentMessage>;
+  getById(id: string): Promise<SentMessage | null>;
+  getByProviderMessageId(providerMessageId: string): Promise<SentMessage | null>;
+  /** Newest first. */
+  list(filter: MessageListFilter): Promise<SentMessage[]>;
+  updateStatus(
+    id: string,
+    status: MessageStatus,
+    update?: MessageStatusUpdate,
+  ): Promise<SentMessage | null>;
+  /** Append a history event without changing status (e.g. opens, clicks). */
+  recordEvent(id: string, type: string, detail?: string): Promise<SentMessage | null>;
+}
+
+export const MESSAGE_STATUSES: MessageStatus[] = [
+  'scheduled',
+  'queued',
+  'sent',
+  'delivered',
+  'bounced',
+  'complained',
+  'failed',
+  'cancelled',
+];
+
+/**
+ * Progression order for statuses reported by providers. Webhooks can arrive
+ * out of order; a status never moves back to an earlier rank.
+ */
+const STATUS_RANK: Record<MessageStatus, number> = {
+  scheduled: 0,
+  queued: 0,
+  sent: 1,
+  delivered: 2,
+  bounced: 3,
+  complained: 3,
+  failed: 3,
+  cancelled: 3,
+};
+
+/** Whether moving from `current` to `next` advances the lifecycle. */
+export function isStatusAdvance(current: MessageStatus, next: MessageStatus): boolean {
+  return STATUS_RANK[next] > STATUS_RANK[current] ||
+    (current === 'bounced' && next === 'complained');
+}
+
+export function isMessageStatus(value: unknown): value is MessageStatus {
+  return typeof value === 'string' && MESSAGE_STATUSES.includes(value as MessageStatus);
+}
+
+/** Message as returned by GET /emails; omits internal fields. */
+export function toPublicMessage(message: SentMessage): Omit<SentMessage, 'agentId'> {
+  return {
+    id: message.id,
+    accountId: message.accountId,
+    tenantId: message.tenantId,
+    to: message.to,
+    cc: message.cc,
+    bcc: message.bcc,
+    subject: message.subject,
+    status: message.status,
+    scheduledAt: message.scheduledAt,
+    cost: message.cost,
+    provider: message.provider,
+    providerMessageId: message.providerMessageId,
+    lastError: message.lastError,
+    events: message.events,
+    createdAt: message.createdAt,
+    updatedAt: message.updatedAt,
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Idempotency-Key support for agent write routes.
+ * The first response for a key is stored per agent/tenant for a TTL and
+ * replayed for retries; concurrent duplicates wait for the first to finish.
+ *
+ * Mount after agentAuth: each retry must still carry a fresh attestation
+ * (replayed attestations are rejected before reaching this middleware), and
+ * the verified agentId scopes the key.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+import { computeBodyHash } from '../attestation/bodyHash.js';
+import { withRequestId } from './observability.js';
+
+export interface IdempotentResponse {
+  status: number;
+  body: unknown;
+}
+
+export type IdempotencyClaim =
+  | { state: 'claimed' }
+  | {
+      state: 'existing';
+      fingerprint: string;
+      /** Resolves with the stored response, or null if the first request was abandoned. */
+      response: Promise<IdempotentResponse | null>;
+    };
+
+export interface IdempotencyStore {
+  /** Claim a key for a request, or return the request already holding it. */
+  claim(key: string, fingerprint: string, ttlMs: number): IdempotencyClaim;
+  /** Store the response for a claimed key and wake any waiting duplicates. */
+  complete(key: string, response: IdempotentResponse): void;
+  /** Drop a claim without storing a response so the key can be retried. */
+  abandon(key: string): void;
+}
+
+interface IdempotencyEntry {
+  fingerprint: string;
+  expiresAt: number;
+  response: Promise<IdempotentResponse | null>;
+  settle: (response: IdempotentResponse | null) => void;
+}
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+const MAX_KEY_LENGTH = 255;
+
+/** In-memory idempotency store. Evicts expired entries on access. */
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly entries = new Map<string, IdempotencyEntry>();
+
+  claim(key: string, fingerprint: string, ttlMs: number = DEFAULT_TTL_MS): IdempotencyClaim {
+    this.evictExpired();
+    const existing = this.entries.get(key);
+    if (existing) {
+      return { state: 'existing', fingerprint: existing.fingerprint, response: existing.response };
+    }
+    let settle!: (response: IdempotentResponse | null) => void;
+    const response = new Promise<IdempotentResponse | null>((resolve) => {
+      settle = resolve;
+    });
+    this.entries.set(key, { fingerprint, expiresAt: Date.now() + ttlMs, response, settle });
+    return { state: 'claimed' };
+  }
+
+  complete(key: string, response: IdempotentResponse): void {
+    this.entries.get(key)?.settle(response);
+  }
+
+  abandon(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    entry.settle(null);
+  }
+
+  private evictExpired(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.expiresAt <= now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+}
+
+export interface IdempotencyMiddlewareOptions {
+  store: IdempotencyStore;
+  /** How long a stored response is replayed. Defaults to 24 hours. */
+  ttlMs?: number;
+  /** Tenant the request acts for; combined with agentId to scope keys. */
+  getTenantId?: (req: Request) => string | undefined;
+}
+
+/**
+ * Honour the Idempotency-Key header. Requests without it pass through.
+ * A reused key with a different body returns 422. 5xx responses (including
+ * errors passed to next(err), which the error handler renders as JSON) are
+ * not stored, so a retry after a server or provider failure runs again.
+ */
+export function createIdempotencyMiddleware(options: IdempotencyMiddlewareOptions) {
+  const { store, getTenantId } = options;
+  const ttlMs =
+    Number.isFinite(options.ttlMs) && (options.ttlMs as number) > 0
+      ? (options.ttlMs as number)
+      : DEFAULT_TTL_MS;
+
+  return async function idempotency(req: Request, res: Response, next: NextFunction) {
+    const header = req.headers['idempotency-key'];
+    const key = typeof header === 'string' ? header.trim() : '';
+    if (!key) {
+      next();
+      return;
+    }
+    if (key.length > MAX_KEY_LENGTH) {
+      res.status(400).json(withRequestId(res, {
+        error: `Idempotency-Key must be at most ${MAX_KEY_LENGTH} characters`,
+      }));
+      return;
+    }
+
+    const agentId = (req as Request & { agentId?: string }).agentId ?? '';
+    const tenantId = getTenantId?.(req) ?? '';
+    const scopedKey = JSON.stringify([agentId, tenantId, req.method, req.path, key]);
+    const fingerprint = computeBodyHash(req.body);
+
+    const claim = store.claim(scopedKey, fingerprint, ttlMs);
+    if (claim.state === 'existing') {
+      if (claim.fingerprint !== fingerprint) {
+        res.status(422).json(withRequestId(res, {
+          error: 'Idempotency-Key was already used with a different request body',
+        }));
+        return;
+      }
+      const stored = await claim.response;
+      if (!stored) {
+        res.status(409).json(withRequestId(res, {
+          error: 'Original request with this Idempotency-Key did not complete; retry',
+        }));
+        return;
+      }
+      res.setHeader('Idempotent-Replayed', 'true');
+      res.status(stored.status).json(withRequestId(res, stored.body));
+      return;
+    }
+
+    let settled = false;
+    const originalJson = res.json.bind(res);
+    res.json = (body: unknown) => {
+      if (!settled) {
+        settled = true;
+        if (res.statusCode >= 500) {
+          store.abandon(scopedKey);
+        } else {
+          store.complete(scopedKey, { status: res.statusCode, body });
+        }
+      }
+      return originalJson(body);
+    };
+    // A client that disconnects mid-request keeps the claim: the handler is
+    // still running and may send the email, so its retry must wait and replay.
+    // Only a response finished without res.json releases the key here.
+    res.on('finish', () => {
+      if (!settled) {
+        settled = true;
+        store.abandon(scopedKey);
+      }
+    });
+
+    next();
+  };
+}
@@ -0,0 +1,258 @@
+/**
+ * RFC 5322 / MIME message composition. Turns EmailContent into a complete
+ * message: multipart/alternative for text + html, multipart/related around it
+ * for inline images (attachments with a contentId) and multipart/mixed for
+ * regular attachments. Text is quoted-printable, attachments base64; non-ASCII
+ * headers are RFC 2047 encoded and long headers folded.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { EmailAttachment, EmailContent } from '../providers.js';
+
+export interface MimeEnvelope {
+  from: string;
+  /** Message-ID including angle brackets. */
+  messageId: string;
+  date?: Date;
+  /** Seed for multipart boundaries; random by default. Fix it for reproducible output. */
+  boundarySeed?: string;
+}
+
+interface MimePart {
+  headers: string[];
+  body: string;
+}
+
+const CRLF = '\r\n';
+/** RFC 5322 recommended line length (excluding CRLF). */
+const MAX_HEADER_LINE = 78;
+/** RFC 2045 limit for encoded body lines. */
+const MAX_BODY_LINE = 76;
+/** Largest UTF-8 chunk whose base64 fits a 75-character encoded-word. */
+const ENCODED_WORD_BYTES = 45;
+
+/**
+ * Headers the builder writes itself, or that signing and transport add;
+ * custom headers cannot replace them.
+ */
+const RESERVED_HEADERS = new Set([
+  'from',
+  'to',
+  'cc',
+  'bcc',
+  'reply-to',
+  'subject',
+  'date',
+  'message-id',
+  'in-reply-to',
+  'references',
+  'mime-version',
+  'sender',
+  'dkim-signature',
+  'received',
+  'return-path',
+]);
+
+const HEADER_NAME = /^[!-9;-~]+$/;
+
+/** Whether `name` is a header field name custom headers may use (not structural). */
+export function isCustomHeaderName(name: string): boolean {
+  const lower = name.toLowerCase();
+  return HEADER_NAME.test(name) && !RESERVED_HEADERS.has(lower) && !lower.startsWith('content-');
+}
+
+/**
+ * RFC 2047 encode a header value when it is not plain printable ASCII. Long
+ * values are split into several encoded-words on character boundaries.
+ */
+export function encodeHeaderValue(value: string): string {
+  const clean = value.replace(/[\r\n]+/g, ' ');
+  if (/^[\x20-\x7e]*$/.test(clean)) return clean;
+
+  const words: string[] = [];
+  let chunk = '';
+  for (const char of clean) {
+    if (Buffer.byteLength(chunk + char, 'utf8') > ENCODED_WORD_BYTES) {
+      words.push(chunk);
+      chunk = '';
+    }
+    chunk += char;
+  }
+  if (chunk) words.push(chunk);
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word, 'utf8').toString('base64')}?=`)
+    .join(' ');
+}
+
+/** Fold a header at whitespace so no line exceeds 78 characters where possible. */
+export function foldHeader(name: string, value: string): string {
+  const tokens = `${name}: ${value}`.split(' ');
+  const lines: string[] = [];
+  let line = tokens.shift() ?? '';
+  for (const token of tokens) {
+    if (line.length + 1 + token.length > MAX_HEADER_LINE) {
+      lines.push(line);
+      line = ` ${token}`;
+    } else {
+      line += ` ${token}`;
+    }
+  }
+  lines.push(line);
+  return lines.join(CRLF);
+}
+
+/**
+ * Format an address ("addr" or "Name <addr>") for a header: encoded or quoted
+ * display name, address untouched.
+ */
+export function formatAddress(address: string): string {
+  const match = /^\s*(.*?)\s*<([^>]+)>\s*$/.exec(address);
+  if (!match || !match[1]) return (match?.[2] ?? address).trim();
+  const name = match[1].replace(/^"(.*)"$/, '$1');
+  const display = /^[\x20-\x7e]*$/.test(name)
+    ? /^[A-Za-z0-9!#$%&'*+\-/=?^_`{|}~ ]*$/.test(name)
+      ? name
+      : `"${name.replace(/(["\\])/g, '\\$1')}"`
+    : encodeHeaderValue(name);
+  return `${display} <${match[2].trim()}>`;
+}
+
+/** Quoted-printable (RFC 2045) encoding of UTF-8 text with CRLF line breaks. */
+export function encodeQuotedPrintable(text: string): string {
+  return text.replace(/\r\n?/g, '\n').split('\n').map(encodeQuotedPrintableLine).join(CRLF);
+}
+
+function encodeQuotedPrintableLine(line: string): string {
+  const bytes = Buffer.from(line, 'utf8');
+  let output = '';
+  let current = '';
+  bytes.forEach((byte, index) => {
+    const isLast = index === bytes.length - 1;
+    const isBlank = byte === 0x20 || byte === 0x09;
+    const literal = (byte >= 33 && byte <= 126 && byte !== 61) || (isBlank && !isLast);
+    const token = literal
+      ? String.fromCharCode(byte)
+      : `=${byte.toString(16).toUpperCase().padStart(2, '0')}`;
+    // Leave room for the "=" soft line break.
+    if (current.length + token.length > MAX_BODY_LINE - 1) {
+      output += `${current}=${CRLF}`;
+      current = '';
+    }
+    current += token;
+  });
+  return output + current;
+}
+
+function wrapBase64(content: string): string {
+  return content.replace(new RegExp(`.{${MAX_BODY_LINE}}(?=.)`, 'g'), `$&${CRLF}`);
+}
+
+/** Quote a MIME parameter, falling back to RFC 2231 for non-ASCII values. */
+function parameter(name: string, value: string): string {
+  if (/^[\x20-\x7e]*$/.test(value)) {
+    return `${name}="${value.replace(/(["\\])/g, '\\$1')}"`;
+  }
+  return `${name}*=UTF-8''${encodeURIComponent(value).replace(/['()*]/g, (c) =>
+    `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  )}`;
+}
+
+function renderPart(part: MimePart): string {
+  return [...part.headers, '', part.body].join(CRLF);
+}
+
+function textPart(type: 'text/plain' | 'text/html', content: string): MimePart {
+  return {
+    headers: [
+      `Content-Type: ${type}; charset=utf-8`,
+      'Content-Transfer-Encoding: quoted-printable',
+    ],
+    body: encodeQuotedPrintable(content),
+  };
+}
+
+function attachmentPart(attachment: EmailAttachment): MimePart {
+  const disposition = attachment.contentId ? 'inline' : 'attachment';
+  const headers = [
+    foldHeader('Content-Type', `${attachment.contentType}; ${parameter('name', attachment.filename)}`),
+    'Content-Transfer-Encoding: base64',
+    foldHeader('Content-Disposition', `${disposition}; ${parameter('filename', attachment.filename)}`),
+  ];
+  if (attachment.contentId) headers.push(`Content-ID: <${attachment.contentId}>`);
+  return { headers, body: wrapBase64(attachment.content.replace(/\s+/g, '')) };
+}
+
+function multipart(subtype: string, boundary: string, parts: MimePart[]): MimePart {
+  return {
+    headers: [`Content-Type: multipart/${subtype}; boundary="${boundary}"`],
+    body: [
+      ...parts.map((part) => `--${boundary}${CRLF}${renderPart(part)}`),
+      `--${boundary}--`,
+    ].join(CRLF),
+  };
+}
+
+/** The message body tree, outermost part first. */
+function buildBody(content: EmailContent, boundarySeed: string): MimePart {
+  let counter = 0;
+  const boundary = () => `=_ernest_${boundarySeed}_${counter++}`;
+
+  let body: MimePart;
+  if (content.text && content.html) {
+    body = multipart('alternative', boundary(), [
+      textPart('text/plain', content.text),
+      textPart('text/html', content.html),
+    ]);
+  } else if (content.html) {
+    body = textPart('text/html', content.html);
+  } else {
+    body = textPart('text/plain', content.text ?? '');
+  }
+
+  const attachments = content.attachments ?? [];
+  const inline = attachments.filter((attachment) => attachment.contentId);
+  const regular = attachments.filter((attachment) => !attachment.contentId);
+  if (inline.length > 0) {
+    body = multipart('related', boundary(), [body, ...inline.map(attachmentPart)]);
+  }
+  if (regular.length > 0) {
+    body = multipart('mixed', boundary(), [body, ...regular.map(attachmentPart)]);
+  }
+  return body;
+}
+
+/** RFC 5322 date, e.g. "Mon, 19 Oct 2026 05:00:00 +0000". */
+export function formatDate(date: Date): string {
+  return date.toUTCString().replace(/GMT$/, '+0000');
+}
+
+/**
+ * Compose a complete RFC 5322 message. Bcc recipients are never written to
+ * the headers; the caller puts them on the SMTP envelope.
+ */
+export function buildMimeMessage(content: EmailContent, envelope: MimeEnvelope): string {
+  const addressList = (addresses: string[]) => addresses.map(formatAddress).join(', ');
+  const headers = [
+    foldHeader('From', formatAddress(envelope.from)),
+    foldHeader('To', addressList(content.to)),
+  ];
+  if (content.cc?.length) headers.push(foldHeader('Cc', addressList(content.cc)));
+  if (content.replyTo) headers.push(foldHeader('Reply-To', formatAddress(content.replyTo)));
+  headers.push(
+    foldHeader('Subject', encodeHeaderValue(content.subject)),
+    `Date: ${formatDate(envelope.date ?? new Date())}`,
+    `Message-ID: ${envelope.messageId}`,
+  );
+  if (content.inReplyTo) headers.push(foldHeader('In-Reply-To', content.inReplyTo));
+  if (content.references?.length) {
+    headers.push(foldHeader('References', content.references.join(' ')));
+  }
+  for (const [name, value] of Object.entries(content.headers ?? {})) {
+    if (!isCustomHeaderName(name)) continue;
+    headers.push(foldHeader(name, encodeHeaderValue(value)));
+  }
+  headers.push('MIME-Version: 1.0');
+
+  const body = buildBody(content, envelope.boundarySeed ?? randomUUID());
+  return [...headers, renderPart(body), ''].join(CRLF);
+}
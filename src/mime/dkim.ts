@@ -0,0 +1,184 @@
+/**
+ * DKIM signing (RFC 6376) with relaxed/relaxed canonicalization, for RSA-SHA256
+ * and Ed25519-SHA256 (RFC 8463) keys configured per sending domain.
+ */
+
+import {
+  createHash,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  sign,
+  type KeyObject,
+} from 'node:crypto';
+import { foldHeader } from './builder.js';
+
+export type DkimAlgorithm = 'rsa-sha256' | 'ed25519-sha256';
+
+export interface DkimKey {
+  domain: string;
+  selector: string;
+  algorithm: DkimAlgorithm;
+  /** PKCS#8 PEM. */
+  privateKey: string;
+  /** Value of the p= tag published in DNS. */
+  publicKey: string;
+  createdAt: string;
+}
+
+/** Where the SMTP adapter finds the key for a From domain (e.g. an encrypted vault). */
+export interface DkimKeyLookup {
+  get(domain: string): Promise<DkimKey | null>;
+}
+
+export const DKIM_ALGORITHMS: DkimAlgorithm[] = ['rsa-sha256', 'ed25519-sha256'];
+
+/** Headers signed when present; From is always required. */
+const SIGNED_HEADERS = [
+  'from',
+  'to',
+  'cc',
+  'reply-to',
+  'subject',
+  'date',
+  'message-id',
+  'in-reply-to',
+  'references',
+  'mime-version',
+  'content-type',
+];
+
+const ED25519_SPKI_PREFIX_BYTES = 12;
+
+/** DNS p= value: base64 SPKI for RSA, the raw 32-byte key for Ed25519. */
+function publicKeyValue(key: KeyObject, algorithm: DkimAlgorithm): string {
+  const der = key.export({ type: 'spki', format: 'der' });
+  return (algorithm === 'ed25519-sha256' ? der.subarray(ED25519_SPKI_PREFIX_BYTES) : der)
+    .toString('base64');
+}
+
+/** Generate a key pair for `selector._domainkey.domain`. RSA keys default to 2048 bits. */
+export function generateDkimKey(
+  domain: string,
+  selector: string,
+  algorithm: DkimAlgorithm,
+  rsaBits = 2048,
+): DkimKey {
+  const { privateKey, publicKey } =
+    algorithm === 'ed25519-sha256'
+      ? generateKeyPairSync('ed25519')
+      : generateKeyPairSync('rsa', { modulusLength: rsaBits });
+  return {
+    domain: domain.toLowerCase(),
+    selector,
+    algorithm,
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKey: publicKeyValue(publicKey, algorithm),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/** Build a DkimKey from an existing PEM private key; the algorithm follows the key type. */
+export function importDkimKey(domain: string, selector: string, privateKeyPem: string): DkimKey {
+  const privateKey = createPrivateKey(privateKeyPem);
+  const type = privateKey.asymmetricKeyType;
+  if (type !== 'rsa' && type !== 'ed25519') {
+    throw new Error('DKIM private key must be RSA or Ed25519');
+  }
+  const algorithm: DkimAlgorithm = type === 'rsa' ? 'rsa-sha256' : 'ed25519-sha256';
+  return {
+    domain: domain.toLowerCase(),
+    selector,
+    algorithm,
+    privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicKey: publicKeyValue(createPublicKey(privateKey), algorithm),
+    createdAt: new Date().toISOString(),
+  };
+}
+
+/** The TXT record to publish for a key. */
+export function dkimDnsRecord(key: Pick<DkimKey, 'domain' | 'selector' | 'algorithm' | 'publicKey'>) {
+  const keyType = key.algorithm === 'ed25519-sha256' ? 'ed25519' : 'rsa';
+  return {
+    type: 'TXT' as const,
+    name: `${key.selector}._domainkey.${key.domain}`,
+    value: `v=DKIM1; k=${keyType}; p=${key.publicKey}`,
+  };
+}
+
+/** Relaxed header canonicalization of one header field (RFC 6376 §3.4.2). */
+export function canonicalizeHeaderRelaxed(field: string): string {
+  const colon = field.indexOf(':');
+  const name = field.slice(0, colon).trim().toLowerCase();
+  const value = field
+    .slice(colon + 1)
+    .replace(/\r\n(?=[ \t])/g, '')
+    .replace(/[ \t]+/g, ' ')
+    .trim();
+  return `${name}:${value}`;
+}
+
+/** Relaxed body canonicalization (RFC 6376 §3.4.4). */
+export function canonicalizeBodyRelaxed(body: string): string {
+  const lines = body
+    .split('\r\n')
+    .map((line) => line.replace(/[ \t]+/g, ' ').replace(/ $/, ''));
+  while (lines.length > 0 && lines[lines.length - 1] === '') lines.pop();
+  return lines.length > 0 ? `${lines.join('\r\n')}\r\n` : '';
+}
+
+/** Split a header block into fields, keeping folded continuation lines. */
+function headerFields(headerBlock: string): string[] {
+  const fields: string[] = [];
+  for (const line of headerBlock.split('\r\n')) {
+    if (/^[ \t]/.test(line) && fields.length > 0) {
+      fields[fields.length - 1] += `\r\n${line}`;
+    } else if (line) {
+      fields.push(line);
+    }
+  }
+  return fields;
+}
+
+/**
+ * Prepend a DKIM-Signature header to a CRLF message. Signs the standard
+ * headers that are present, with the current time as t=.
+ */
+export function signDkim(message: string, key: DkimKey, now: Date = new Date()): string {
+  const separator = message.indexOf('\r\n\r\n');
+  const headerBlock = separator === -1 ? message : message.slice(0, separator);
+  const body = separator === -1 ? '' : message.slice(separator + 4);
+
+  const fields = headerFields(headerBlock);
+  const fieldName = (field: string) => field.slice(0, field.indexOf(':')).trim().toLowerCase();
+  // A signer signs the last instance of each header (RFC 6376 §5.4.2).
+  const signed = SIGNED_HEADERS
+    .map((name) => [...fields].reverse().find((field) => fieldName(field) === name))
+    .filter((field): field is string => field !== undefined);
+  if (!signed.some((field) => fieldName(field) === 'from')) {
+    throw new Error('DKIM signing requires a From header');
+  }
+
+  const bodyHash = createHash('sha256').update(canonicalizeBodyRelaxed(body), 'utf8').digest('base64');
+  const tags = [
+    'v=1',
+    `a=${key.algorithm}`,
+    'c=relaxed/relaxed',
+    `d=${key.domain}`,
+    `s=${key.selector}`,
+    `t=${Math.floor(now.getTime() / 1000)}`,
+    `h=${signed.map(fieldName).join(':')}`,
+    `bh=${bodyHash}`,
+    'b=',
+  ].join('; ');
+
+  const data =
+    signed.map((field) => `${canonicalizeHeaderRelaxed(field)}\r\n`).join('') +
+    canonicalizeHeaderRelaxed(`DKIM-Signature: ${tags}`);
+  const signature =
+    key.algorithm === 'ed25519-sha256'
+      ? sign(null, createHash('sha256').update(data, 'utf8').digest(), key.privateKey)
+      : sign('sha256', Buffer.from(data, 'utf8'), key.privateKey);
+
+  return `${foldHeader('DKIM-Signature', tags + signature.toString('base64'))}\r\n${message}`;
+}
@@ -0,0 +1,338 @@
+/**
+ * MIME parser (RFC 5322, 2045-2047, 2231) for received messages.
+ * Works on raw bytes: headers are unfolded and their encoded words decoded,
+ * multipart bodies are split recursively, base64/quoted-printable parts are
+ * decoded to bytes, and text bodies are decoded from their declared charset.
+ */
+
+export interface MimeHeader {
+  name: string;
+  /** Unfolded value with RFC 2047 encoded words decoded. */
+  value: string;
+}
+
+export interface ParsedAttachment {
+  filename: string;
+  /** Lower-cased type/subtype. */
+  contentType: string;
+  disposition: 'attachment' | 'inline';
+  /** Content-ID without angle brackets, for inline images referenced as cid:. */
+  contentId?: string;
+  size: number;
+  content: Buffer;
+}
+
+export interface ParsedMessage {
+  headers: MimeHeader[];
+  text?: string;
+  html?: string;
+  /** Charsets the text and html bodies were decoded from. */
+  textCharset?: string;
+  htmlCharset?: string;
+  attachments: ParsedAttachment[];
+}
+
+export interface ParseOptions {
+  /**
+   * Decode only the attachment parts (by position in `attachments`) this
+   * returns true for; the others get an empty `content` and the length of
+   * their encoded body as `size`, and text and html bodies are left empty.
+   * For picking one part out of a large message. Defaults to decoding all.
+   */
+  decodeAttachment?: (index: number) => boolean;
+}
+
+interface ContentField {
+  value: string;
+  params: Record<string, string>;
+}
+
+const MAX_DEPTH = 20;
+
+/** First value of a header, matched case-insensitively. */
+export function getHeader(headers: MimeHeader[], name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return headers.find((header) => header.name.toLowerCase() === lower)?.value;
+}
+
+/** Decode bytes from a charset label, falling back to UTF-8 for unknown labels. */
+export function decodeCharset(bytes: Buffer, charset: string | undefined): string {
+  const label = (charset ?? '').trim().toLowerCase();
+  if (!label || label === 'us-ascii' || label === 'ascii') {
+    return bytes.toString('utf8');
+  }
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    return bytes.toString('utf8');
+  }
+}
+
+/** Header bytes are usually ASCII; raw 8-bit headers are taken as UTF-8, else Latin-1. */
+function decodeRawHeader(binary: string): string {
+  if (!/[\x80-\xff]/.test(binary)) return binary;
+  const bytes = Buffer.from(binary, 'latin1');
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return binary;
+  }
+}
+
+/** Decode RFC 2047 encoded words; whitespace between adjacent words is dropped. */
+export function decodeEncodedWords(value: string): string {
+  const encodedWord = /=\?([^?\s]+)\?([bBqQ])\?([^?\s]*)\?=/g;
+  return value
+    .replace(/(=\?[^?\s]+\?[bBqQ]\?[^?\s]*\?=)\s+(?==\?[^?\s]+\?[bBqQ]\?[^?\s]*\?=)/g, '$1')
+    .replace(encodedWord, (word, charset: string, encoding: string, text: string) => {
+      // RFC 2231 allows a language suffix: charset*lang
+      const label = charset.split('*')[0];
+      const bytes = encoding.toUpperCase() === 'B'
+        ? Buffer.from(text, 'base64')
+        : Buffer.from(
+            text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (_m, hex: string) =>
+              String.fromCharCode(parseInt(hex, 16))
+            ),
+            'latin1'
+          );
+      try {
+        return new TextDecoder(label.toLowerCase()).decode(bytes);
+      } catch {
+        return word;
+      }
+    });
+}
+
+function parseHeaderBlock(block: string): MimeHeader[] {
+  const headers: MimeHeader[] = [];
+  for (const line of block.split(/\r?\n/)) {
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1].value += ` ${line.trim()}`;
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    headers.push({ name: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() });
+  }
+  return headers.map((header) => ({
+    name: header.name,
+    value: decodeEncodedWords(decodeRawHeader(header.value)),
+  }));
+}
+
+/** Split `a; b=c; d="e f"` into value and parameters, joining RFC 2231 continuations. */
+function parseContentField(raw: string | undefined): ContentField {
+  if (!raw) return { value: '', params: {} };
+  const parts: string[] = [];
+  let current = '';
+  let quoted = false;
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === '\\' && quoted && i + 1 < raw.length) {
+      current += raw[++i];
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ';' && !quoted) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  const params: Record<string, string> = {};
+  const extended: Record<string, Array<{ index: number; value: string; encoded: boolean }>> = {};
+  for (const part of parts.slice(1)) {
+    const eq = part.indexOf('=');
+    if (eq <= 0) continue;
+    const key = part.slice(0, eq).trim().toLowerCase();
+    const value = part.slice(eq + 1).trim();
+    const match = /^([^*]+)(?:\*(\d+))?(\*)?$/.exec(key);
+    if (!match || (match[2] === undefined && !match[3])) {
+      params[key] = value;
+      continue;
+    }
+    (extended[match[1]] ??= []).push({
+      index: Number(match[2] ?? 0),
+      value,
+      encoded: Boolean(match[3]),
+    });
+  }
+
+  for (const [name, segments] of Object.entries(extended)) {
+    segments.sort((a, b) => a.index - b.index);
+    let charset = 'utf-8';
+    const bytes: Buffer[] = [];
+    for (const segment of segments) {
+      let value = segment.value;
+      if (segment.encoded && segment.index === 0) {
+        const quote = /^([^']*)'[^']*'(.*)$/.exec(value);
+        if (quote) {
+          charset = quote[1] || charset;
+          value = quote[2];
+        }
+      }
+      bytes.push(
+        segment.encoded
+          ? Buffer.from(
+              value.replace(/%([0-9A-Fa-f]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+              'latin1'
+            )
+          : Buffer.from(value, 'utf8')
+      );
+    }
+    params[name] = decodeCharset(Buffer.concat(bytes), charset);
+  }
+
+  return { value: parts[0].trim().toLowerCase(), params };
+}
+
+function decodeQuotedPrintable(binary: string): Buffer {
+  const unfolded = binary.replace(/[ \t]+(?=\r?\n)/g, '').replace(/=\r?\n/g, '');
+  return Buffer.from(
+    unfolded.replace(/=([0-9A-Fa-f]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16))),
+    'latin1'
+  );
+}
+
+function decodeTransfer(binary: string, encoding: string | undefined): Buffer {
+  switch ((encoding ?? '').trim().toLowerCase()) {
+    case 'base64':
+      return Buffer.from(binary.replace(/[^A-Za-z0-9+/=]/g, ''), 'base64');
+    case 'quoted-printable':
+      return decodeQuotedPrintable(binary);
+    default:
+      return Buffer.from(binary, 'latin1');
+  }
+}
+
+/** Split a binary entity into its header block and body at the first blank line. */
+function splitEntity(binary: string): { headers: MimeHeader[]; body: string } {
+  const match = /^\r?\n|\r?\n\r?\n/.exec(binary);
+  if (!match) {
+    return { headers: parseHeaderBlock(binary), body: '' };
+  }
+  return {
+    headers: parseHeaderBlock(binary.slice(0, match.index)),
+    body: binary.slice(match.index + match[0].length),
+  };
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const delimiter = new RegExp(`(?:^|\\r?\\n)--${escaped}(--)?[ \\t]*(?=\\r?\\n|$)`, 'g');
+  const parts: string[] = [];
+  let start = -1;
+  let match: RegExpExecArray | null;
+  while ((match = delimiter.exec(body))) {
+    if (start >= 0) parts.push(body.slice(start, match.index));
+    if (match[1]) return parts;
+    start = match.index + match[0].length;
+    if (body.startsWith('\r\n', start)) start += 2;
+    else if (body.startsWith('\n', start)) start += 1;
+  }
+  // Missing closing delimiter: keep what follows the last boundary
+  if (start >= 0) parts.push(body.slice(start));
+  return parts;
+}
+
+function walk(
+  binary: string,
+  message: ParsedMessage,
+  depth: number,
+  parentType: string,
+  options: ParseOptions,
+): void {
+  const { headers, body } = splitEntity(binary);
+  if (depth === 0) message.headers = headers;
+  const contentType = parseContentField(getHeader(headers, 'content-type'));
+  const type = contentType.value || (parentType === 'multipart/digest' ? 'message/rfc822' : 'text/plain');
+
+  if (type.startsWith('multipart/') && contentType.params.boundary && depth < MAX_DEPTH) {
+    for (const part of splitMultipart(body, contentType.params.boundary)) {
+      walk(part, message, depth + 1, type, options);
+    }
+    return;
+  }
+
+  const disposition = parseContentField(getHeader(headers, 'content-disposition'));
+  const filename = disposition.params.filename ?? contentType.params.name;
+  const isBody =
+    disposition.value !== 'attachment' &&
+    !filename &&
+    ((type === 'text/plain' && message.text === undefined) ||
+      (type === 'text/html' && message.html === undefined));
+  const decode = isBody
+    ? !options.decodeAttachment
+    : options.decodeAttachment?.(message.attachments.length) ?? true;
+  const content = decode
+    ? decodeTransfer(body, getHeader(headers, 'content-transfer-encoding'))
+    : Buffer.alloc(0);
+
+  if (isBody) {
+    const charset = contentType.params.charset ?? 'us-ascii';
+    const decoded = decodeCharset(content, charset);
+    if (type === 'text/plain') {
+      message.text = decoded;
+      message.textCharset = charset.toLowerCase();
+    } else {
+      message.html = decoded;
+      message.htmlCharset = charset.toLowerCase();
+    }
+    return;
+  }
+
+  const contentId = getHeader(headers, 'content-id')?.replace(/^<|>$/g, '').trim();
+  message.attachments.push({
+    filename: filename || (type === 'message/rfc822' ? 'message.eml' : 'attachment'),
+    contentType: type,
+    disposition:
+      disposition.value === 'inline' || (!disposition.value && contentId && parentType === 'multipart/related')
+        ? 'inline'
+        : 'attachment',
+    ...(contentId ? { contentId } : {}),
+    size: decode ? content.length : body.length,
+    content,
+  });
+}
+
+/** Parse a raw RFC 822 message. Never throws; malformed structure degrades to attachments. */
+export function parseMimeMessage(raw: Buffer | string, options: ParseOptions = {}): ParsedMessage {
+  const binary = typeof raw === 'string' ? Buffer.from(raw, 'utf8').toString('latin1') : raw.toString('latin1');
+  const message: ParsedMessage = { headers: [], attachments: [] };
+  walk(binary, message, 0, '', options);
+  return message;
+}
+
+/** Addresses in a header such as To or Cc, as "addr" or "Name <addr>", honouring quotes and groups. */
+export function parseAddressList(value: string | undefined): string[] {
+  if (!value) return [];
+  const addresses: string[] = [];
+  let current = '';
+  let quoted = false;
+  let angle = false;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    if (char === '\\' && quoted && i + 1 < value.length) {
+      current += char + value[++i];
+      continue;
+    }
+    if (char === '"') quoted = !quoted;
+    else if (!quoted && char === '<') angle = true;
+    else if (!quoted && char === '>') angle = false;
+    if (!quoted && !angle && (char === ',' || char === ';')) {
+      addresses.push(current);
+      current = '';
+      continue;
+    }
+    // Group syntax "Team: a@b, c@d;" keeps the members only
+    if (!quoted && !angle && char === ':') {
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  addresses.push(current);
+  return addresses.map((address) => address.trim()).filter((address) => address.includes('@'));
+}
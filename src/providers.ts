@@ -1,6 +1,10 @@
 import type { Account, AccountProvider, AccountStatus } from './accounts.js';
 import { LocalDevProviderAdapter } from './providers/localDevAdapter.js';
 import { ResendProviderAdapter } from './providers/resendAdapter.js';
+import { SmtpProviderAdapter } from './providers/smtpAdapter.js';
+import { SesProviderAdapter } from './providers/sesAdapter.js';
+import { SendGridProviderAdapter } from './providers/sendgridAdapter.js';
+import type { DkimKeyLookup } from './mime/dkim.js';
 
 /**
  * Provider adapter contracts for provisioning accounts and sending email.
@@ -24,6 +28,14 @@ export interface ProviderAccountSecrets {
     user: string;
     pass: string;
     from?: string;
+    /** Authenticate without TLS; only for servers on a trusted network. */
+    allowInsecureAuth?: boolean;
+  };
+  ses?: {
+    accessKeyId: string;
+    secretAccessKey: string;
+    sessionToken?: string;
+    region?: string;
   };
   apiKey?: string;
   from?: string;
@@ -54,12 +66,31 @@ export interface ProvisionAccountResult {
   metadata?: Record<string, unknown>;
 }
 
+export interface EmailAttachment {
+  filename: string;
+  /** File content, base64 encoded. */
+  content: string;
+  contentType: string;
+  /** Content-ID for inline parts referenced from html as cid:<contentId>. */
+  contentId?: string;
+}
+
 export interface EmailContent {
-  to: string;
+  to: string[];
+  cc?: string[];
+  /** Envelope-only recipients; never written to message headers. */
+  bcc?: string[];
   subject: string;
   text?: string;
   html?: string;
   replyTo?: string;
+  attachments?: EmailAttachment[];
+  /** Message-ID (with angle brackets) of the message being replied to. */
+  inReplyTo?: string;
+  /** Message-IDs of the thread so far, oldest first. */
+  references?: string[];
+  /** Extra message headers; the From/To/Subject/MIME structure cannot be overridden. */
+  headers?: Record<string, string>;
 }
 
 export interface SendEmailInput extends EmailContent {
@@ -69,15 +100,19 @@ export interface SendEmailInput extends EmailContent {
   tenantId?: string;
   /** Optional provider credentials if not stored elsewhere. */
   credentials?: ProviderAccountSecrets;
+  /** DKIM keys by From domain, for adapters that compose the message themselves (SMTP). */
+  dkimKeys?: DkimKeyLookup;
 }
 
 export interface SendEmailResult {
   /** Provider-specific message identifier. */
   id: string;
   provider: AccountProvider;
-  to: string;
+  to: string[];
   /** Delivery status as returned by the provider. */
   status: 'queued' | 'sent';
+  /** From address the message went out with, when the adapter chose one. */
+  from?: string;
   /** Raw provider response for debugging or logging. */
   raw?: unknown;
 }
@@ -94,6 +129,9 @@ export interface ProviderAdapter {
 
 export { LocalDevProviderAdapter } from './providers/localDevAdapter.js';
 export { ResendProviderAdapter } from './providers/resendAdapter.js';
+export { SmtpProviderAdapter } from './providers/smtpAdapter.js';
+export { SesProviderAdapter } from './providers/sesAdapter.js';
+export { SendGridProviderAdapter } from './providers/sendgridAdapter.js';
 
 /**
  * Return a singleton adapter for the requested provider.
@@ -111,6 +149,21 @@ export function getProviderAdapter(provider: AccountProvider): ProviderAdapter {
         resendAdapter = new ResendProviderAdapter();
       }
       return resendAdapter;
+    case 'smtp':
+      if (!smtpAdapter) {
+        smtpAdapter = new SmtpProviderAdapter();
+      }
+      return smtpAdapter;
+    case 'ses':
+      if (!sesAdapter) {
+        sesAdapter = new SesProviderAdapter();
+      }
+      return sesAdapter;
+    case 'sendgrid':
+      if (!sendGridAdapter) {
+        sendGridAdapter = new SendGridProviderAdapter();
+      }
+      return sendGridAdapter;
     default:
       throw new Error(`Provider adapter not implemented: ${provider}`);
   }
@@ -118,3 +171,6 @@ export function getProviderAdapter(provider: AccountProvider): ProviderAdapter {
 
 let localDevAdapter: LocalDevProviderAdapter | undefined;
 let resendAdapter: ResendProviderAdapter | undefined;
+let smtpAdapter: SmtpProviderAdapter | undefined;
+let sesAdapter: SesProviderAdapter | undefined;
+let sendGridAdapter: SendGridProviderAdapter | undefined;
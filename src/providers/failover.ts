@@ -0,0 +1,153 @@
+/**
+ * Provider failover: resolve the ordered provider chain for an account and
+ * send through it, moving to the next adapter on transient failures that
+ * prove the message was not accepted (5xx, 429, refused connections, SMTP
+ * 4xx replies, SMTP sessions lost before DATA). Timeouts stop the chain: the
+ * provider may have taken the message before its answer was lost.
+ */
+
+import type { Account, AccountProvider } from '../accounts.js';
+import type { ProviderAdapter, SendEmailInput, SendEmailResult } from '../providers.js';
+import { SmtpNotSentError, SmtpReplyError } from './smtpClient.js';
+
+const VALID_PROVIDERS: AccountProvider[] = ['local-dev', 'resend', 'smtp', 'ses', 'sendgrid'];
+
+const TRANSIENT_NETWORK_CODES = new Set([
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+  'EPIPE',
+  'ENOTFOUND',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_SOCKET',
+]);
+
+/** Network failures before a request could reach the provider. */
+const CONNECT_FAILURE_CODES = new Set([
+  'ECONNREFUSED',
+  'EAI_AGAIN',
+  'ENOTFOUND',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+export interface FailoverAttempt {
+  provider: AccountProvider;
+  error: string;
+  transient: boolean;
+}
+
+/** Every provider in the chain failed (or a non-transient error stopped it). */
+export class ProviderFailoverError extends Error {
+  readonly attempts: FailoverAttempt[];
+
+  constructor(message: string, attempts: FailoverAttempt[]) {
+    super(message);
+    this.name = 'ProviderFailoverError';
+    this.attempts = attempts;
+  }
+}
+
+function parseProviders(raw: string | undefined): AccountProvider[] {
+  if (!raw) return [];
+  return raw
+    .split(',')
+    .map((p) => p.trim().toLowerCase())
+    .filter((p): p is AccountProvider => VALID_PROVIDERS.includes(p as AccountProvider));
+}
+
+/**
+ * Ordered providers to try for an account: its own provider first, then the
+ * account's failoverProviders, or PROVIDER_FAILOVER_CHAIN when none are set.
+ */
+export function resolveProviderChain(account: Account): AccountProvider[] {
+  const fallbacks = account.failoverProviders ?? parseProviders(process.env.PROVIDER_FAILOVER_CHAIN);
+  return [...new Set<AccountProvider>([account.provider, ...fallbacks])];
+}
+
+/** Whether a provider error may succeed on another provider or a later retry. */
+export function isTransientProviderError(err: unknown): boolean {
+  if (err instanceof SmtpReplyError) {
+    return err.code >= 400 && err.code < 500;
+  }
+  if (!(err instanceof Error)) return false;
+  if (err.name === 'TimeoutError' || err.name === 'AbortError') return true;
+
+  const status = (err as Error & { status?: unknown }).status;
+  if (typeof status === 'number') {
+    return status >= 500 || status === 429 || status === 408;
+  }
+
+  const code = (err as Error & { code?: unknown }).code;
+  if (typeof code === 'string' && TRANSIENT_NETWORK_CODES.has(code)) return true;
+  const cause = (err as Error & { cause?: unknown }).cause;
+  if (cause && cause !== err && isTransientProviderError(cause)) return true;
+
+  // fetch() network failures and dropped SMTP sessions
+  return /fetch failed|SMTP connection (timed out|closed)/.test(err.message);
+}
+
+/**
+ * Whether a provider error proves the message was not accepted, so sending
+ * it through another provider cannot deliver it twice. Replies refusing the
+ * message qualify; timeouts and connections dropped mid-request do not.
+ */
+export function isUndeliveredProviderError(err: unknown): boolean {
+  if (err instanceof SmtpReplyError || err instanceof SmtpNotSentError) return true;
+  if (!(err instanceof Error)) return false;
+
+  const status = (err as Error & { status?: unknown }).status;
+  if (typeof status === 'number') {
+    return status !== 408 && status !== 504;
+  }
+
+  const code = (err as Error & { code?: unknown }).code;
+  if (typeof code === 'string' && CONNECT_FAILURE_CODES.has(code)) return true;
+  const cause = (err as Error & { cause?: unknown }).cause;
+  return Boolean(cause && cause !== err && isUndeliveredProviderError(cause));
+}
+
+/**
+ * Send through each provider in turn until one succeeds. Transient errors
+ * that prove the message was not accepted are logged and the next provider
+ * is tried; anything else stops the chain. Each adapter gets only its own
+ * credentials: stored secrets belong to the account's provider, and the
+ * fallbacks use their own configuration.
+ */
+export async function sendWithFailover(
+  input: SendEmailInput,
+  chain: AccountProvider[],
+  getProviderAdapter: (provider: string) => ProviderAdapter,
+): Promise<{ result: SendEmailResult; attempts: FailoverAttempt[] }> {
+  const attempts: FailoverAttempt[] = [];
+  for (const [index, provider] of chain.entries()) {
+    try {
+      const adapter = getProviderAdapter(provider);
+      const result = await adapter.sendEmail({
+        ...input,
+        credentials: provider === input.account.provider ? input.credentials : undefined,
+      });
+      return { result, attempts };
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Email send failed';
+      const transient = isTransientProviderError(err);
+      attempts.push({ provider, error: message, transient });
+      const next = chain[index + 1];
+      if (!transient || !next || !isUndeliveredProviderError(err)) {
+        throw new ProviderFailoverError(message, attempts);
+      }
+      console.log(
+        JSON.stringify({
+          level: 'warn',
+          msg: 'provider_failover',
+          accountId: input.account.id,
+          tenantId: input.tenantId,
+          failedProvider: provider,
+          nextProvider: next,
+          error: message,
+        })
+      );
+    }
+  }
+  throw new ProviderFailoverError('No provider configured', attempts);
+}
@@ -0,0 +1,29 @@
+/**
+ * Shared HTTP helpers for API-based provider adapters.
+ */
+
+import type { EmailContent } from '../providers.js';
+
+const DEFAULT_PROVIDER_TIMEOUT_MS = 15_000;
+
+/** Request timeout for provider API calls (PROVIDER_TIMEOUT_MS, default 15s). */
+export function getProviderTimeoutMs(): number {
+  const configured = Number(process.env.PROVIDER_TIMEOUT_MS);
+  return Number.isFinite(configured) && configured > 0 ? configured : DEFAULT_PROVIDER_TIMEOUT_MS;
+}
+
+/** Abort signal that fires after the provider timeout. */
+export function providerTimeoutSignal(): AbortSignal {
+  return AbortSignal.timeout(getProviderTimeoutMs());
+}
+
+/**
+ * Custom headers plus In-Reply-To / References, for providers that take a
+ * header map rather than a composed message. Undefined when there are none.
+ */
+export function extraHeaders(content: EmailContent): Record<string, string> | undefined {
+  const headers: Record<string, string> = { ...content.headers };
+  if (content.inReplyTo) headers['In-Reply-To'] = content.inReplyTo;
+  if (content.references?.length) headers.References = content.references.join(' ');
+  return Object.keys(headers).length ? headers : undefined;
+}
@@ -11,6 +11,7 @@ import type {
   SendEmailInput,
   SendEmailResult,
 } from '../providers.js';
+import { extraHeaders } from './http.js';
 
 /**
  * Lightweight local/dev provider that simulates provisioning and sending
@@ -47,9 +48,18 @@ export class LocalDevProviderAdapter implements ProviderAdapter {
       raw: {
         echo: {
           to: input.to,
+          cc: input.cc,
+          bcc: input.bcc,
           subject: input.subject,
           text: input.text,
           html: input.html,
+          headers: extraHeaders(input),
+          attachments: input.attachments?.map((attachment) => ({
+            filename: attachment.filename,
+            contentType: attachment.contentType,
+            contentId: attachment.contentId,
+            size: Buffer.from(attachment.content, 'base64').length,
+          })),
           accountId: input.account.id,
           tenantId: input.tenantId,
         },
@@ -15,9 +15,21 @@ import type {
   SendEmailInput,
   SendEmailResult,
 } from '../providers.js';
+import { extraHeaders, providerTimeoutSignal } from './http.js';
 
 const RESEND_API = 'https://api.resend.com/emails';
 
+/** Resend API returned a non-2xx response. */
+export class ResendApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ResendApiError';
+    this.status = status;
+  }
+}
+
 function getApiKey(): string | undefined {
   const key = process.env.RESEND_API_KEY;
   return typeof key === 'string' && key.trim() ? key.trim() : undefined;
@@ -69,7 +81,7 @@ export class ResendProviderAdapter implements ProviderAdapter {
     }
 
     const from = getFromAddress(input.account);
-    const to = input.to;
+    const { to, cc, bcc } = input;
     const subject = input.subject;
     const html = input.html;
     const text = input.text;
@@ -81,12 +93,24 @@ export class ResendProviderAdapter implements ProviderAdapter {
 
     const body: Record<string, unknown> = {
       from,
-      to: Array.isArray(to) ? to : [to],
+      to,
       subject
     };
+    if (cc?.length) body.cc = cc;
+    if (bcc?.length) body.bcc = bcc;
     if (html) body.html = html;
     if (text) body.text = text;
     if (replyTo) body.reply_to = replyTo;
+    const headers = extraHeaders(input);
+    if (headers) body.headers = headers;
+    if (input.attachments?.length) {
+      body.attachments = input.attachments.map((attachment) => ({
+        filename: attachment.filename,
+        content: attachment.content,
+        content_type: attachment.contentType,
+        ...(attachment.contentId ? { content_id: attachment.contentId } : {})
+      }));
+    }
 
     const response = await fetch(RESEND_API, {
       method: 'POST',
@@ -94,22 +118,24 @@ export class ResendProviderAdapter implements ProviderAdapter {
         Authorization: `Bearer ${apiKey}`,
         'Content-Type': 'application/json'
       },
-      body: JSON.stringify(body)
+      body: JSON.stringify(body),
+      signal: providerTimeoutSignal()
     });
 
     const raw = await response.json().catch(() => ({})) as { id?: string; message?: string };
 
     if (!response.ok) {
       const errMsg = typeof raw?.message === 'string' ? raw.message : `Resend API error ${response.status}`;
-      throw new Error(errMsg);
+      throw new ResendApiError(errMsg, response.status);
     }
 
     const id = raw?.id ?? `resend-${Date.now()}`;
     return {
       id,
       provider: this.provider,
-      to: Array.isArray(to) ? to[0] ?? to : to,
+      to,
       status: 'queued',
+      from,
       raw
     };
   }
@@ -0,0 +1,188 @@
+/**
+ * SendGrid provider adapter. Sends email via the v3 mail/send API.
+ * Uses per-account credentials.apiKey, falling back to SENDGRID_API_KEY.
+ * SENDGRID_BASE_URL overrides the API base URL (e.g. a local stub).
+ */
+
+import type {
+  Account,
+  AccountProvider,
+} from '../accounts.js';
+import type {
+  ProviderAccountSecrets,
+  ProviderAdapter,
+  ProvisionAccountInput,
+  ProvisionAccountResult,
+  SendEmailInput,
+  SendEmailResult,
+} from '../providers.js';
+import { extraHeaders, providerTimeoutSignal } from './http.js';
+
+const SENDGRID_API = 'https://api.sendgrid.com';
+
+/** SendGrid API returned a non-2xx response. */
+export class SendGridApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SendGridApiError';
+    this.status = status;
+  }
+}
+
+function getApiKey(credentials?: ProviderAccountSecrets): string | undefined {
+  const key = credentials?.apiKey ?? process.env.SENDGRID_API_KEY;
+  return typeof key === 'string' && key.trim() ? key.trim() : undefined;
+}
+
+function getFromAddress(account: Account, credentials?: ProviderAccountSecrets): string {
+  const envFrom = process.env.SENDGRID_FROM;
+  if (typeof envFrom === 'string' && envFrom.trim()) {
+    return envFrom.trim();
+  }
+  return credentials?.from ?? account.email;
+}
+
+/** Map "Name <addr>" or "addr" onto SendGrid's { email, name } object. */
+function toEmailObject(address: string): { email: string; name?: string } {
+  const match = /^\s*(.*?)\s*<([^>]+)>\s*$/.exec(address);
+  if (!match) return { email: address.trim() };
+  const name = match[1]?.replace(/^"|"$/g, '');
+  return name ? { email: match[2].trim(), name } : { email: match[2].trim() };
+}
+
+function errorMessage(raw: unknown, status: number): string {
+  const errors = (raw as { errors?: Array<{ message?: string }> })?.errors;
+  if (Array.isArray(errors) && errors.length > 0) {
+    const messages = errors
+      .map((e) => e?.message)
+      .filter((m): m is string => typeof m === 'string');
+    if (messages.length > 0) return messages.join('; ');
+  }
+  return `SendGrid API error ${status}`;
+}
+
+export interface SendGridProviderAdapterOptions {
+  /** API base URL. Defaults to SENDGRID_BASE_URL or https://api.sendgrid.com. */
+  baseUrl?: string;
+}
+
+/**
+ * SendGrid adapter. Validates the API key's mail.send scope on provision.
+ */
+export class SendGridProviderAdapter implements ProviderAdapter {
+  readonly provider: AccountProvider = 'sendgrid';
+  private readonly baseUrl?: string;
+
+  constructor(options?: SendGridProviderAdapterOptions) {
+    this.baseUrl = options?.baseUrl;
+  }
+
+  async provisionAccount(
+    input: ProvisionAccountInput
+  ): Promise<ProvisionAccountResult> {
+    const apiKey = getApiKey(input.credentials);
+    if (!apiKey) {
+      throw new Error('SENDGRID_API_KEY is required for sendgrid provider');
+    }
+
+    const response = await fetch(`${this.getBaseUrl()}/v3/scopes`, {
+      method: 'GET',
+      headers: { Authorization: `Bearer ${apiKey}` },
+      signal: providerTimeoutSignal()
+    });
+    const raw = await response.json().catch(() => ({})) as { scopes?: string[] };
+    if (!response.ok) {
+      throw new SendGridApiError(errorMessage(raw, response.status), response.status);
+    }
+    const scopes = Array.isArray(raw.scopes) ? raw.scopes : [];
+    if (!scopes.includes('mail.send')) {
+      throw new Error('SendGrid API key lacks the mail.send scope');
+    }
+
+    const now = new Date().toISOString();
+    const updatedAccount: Account = {
+      ...input.account,
+      status: input.account.status === 'disabled' ? 'disabled' : 'active',
+      updatedAt: now
+    };
+    return {
+      account: updatedAccount,
+      externalId: input.account.id,
+      status: updatedAccount.status,
+      credentials: input.credentials,
+      metadata: { provider: this.provider, from: input.requestedFromAddress }
+    };
+  }
+
+  async sendEmail(input: SendEmailInput): Promise<SendEmailResult> {
+    const apiKey = getApiKey(input.credentials);
+    if (!apiKey) {
+      throw new Error('SENDGRID_API_KEY is required for sendgrid provider');
+    }
+    if (!input.text && !input.html) {
+      throw new Error('text or html content required');
+    }
+    const from = getFromAddress(input.account, input.credentials);
+
+    // SendGrid requires text/plain to precede text/html in the content array.
+    const content: Array<{ type: string; value: string }> = [];
+    if (input.text) content.push({ type: 'text/plain', value: input.text });
+    if (input.html) content.push({ type: 'text/html', value: input.html });
+
+    const personalization: Record<string, unknown> = { to: input.to.map(toEmailObject) };
+    if (input.cc?.length) personalization.cc = input.cc.map(toEmailObject);
+    if (input.bcc?.length) personalization.bcc = input.bcc.map(toEmailObject);
+
+    const body: Record<string, unknown> = {
+      personalizations: [personalization],
+      from: toEmailObject(from),
+      subject: input.subject,
+      content
+    };
+    if (input.replyTo) body.reply_to = toEmailObject(input.replyTo);
+    const headers = extraHeaders(input);
+    if (headers) body.headers = headers;
+    if (input.attachments?.length) {
+      body.attachments = input.attachments.map((attachment) => ({
+        content: attachment.content,
+        filename: attachment.filename,
+        type: attachment.contentType,
+        disposition: attachment.contentId ? 'inline' : 'attachment',
+        ...(attachment.contentId ? { content_id: attachment.contentId } : {})
+      }));
+    }
+
+    const response = await fetch(`${this.getBaseUrl()}/v3/mail/send`, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${apiKey}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(body),
+      signal: providerTimeoutSignal()
+    });
+
+    // Success is 202 with an empty body; errors carry { errors: [...] }.
+    const raw = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new SendGridApiError(errorMessage(raw, response.status), response.status);
+    }
+
+    const id = response.headers.get('x-message-id') ?? `sendgrid-${Date.now()}`;
+    return {
+      id,
+      provider: this.provider,
+      to: input.to,
+      status: 'queued',
+      from,
+      raw
+    };
+  }
+
+  private getBaseUrl(): string {
+    const base = this.baseUrl ?? (process.env.SENDGRID_BASE_URL?.trim() || SENDGRID_API);
+    return base.replace(/\/+$/, '');
+  }
+}
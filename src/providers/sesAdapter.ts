@@ -0,0 +1,247 @@
+/**
+ * Amazon SES provider adapter. Sends email via the SES v2 HTTP API.
+ * Uses per-account credentials (ProviderAccountSecrets.ses), falling back to
+ * AWS_ACCESS_KEY_ID / AWS_SECRET_ACCESS_KEY / AWS_SESSION_TOKEN / AWS_REGION.
+ * SES_ENDPOINT overrides the API base URL (e.g. a local fake SES server).
+ */
+
+import type {
+  Account,
+  AccountProvider,
+  AccountStatus,
+} from '../accounts.js';
+import type {
+  ProviderAccountSecrets,
+  ProviderAdapter,
+  ProvisionAccountInput,
+  ProvisionAccountResult,
+  SendEmailInput,
+  SendEmailResult,
+} from '../providers.js';
+import { extraHeaders, providerTimeoutSignal } from './http.js';
+import { signRequest, type AwsCredentials } from './sigv4.js';
+
+const DEFAULT_REGION = 'us-east-1';
+
+interface SesConfig {
+  credentials: AwsCredentials;
+  region: string;
+}
+
+interface SesIdentity {
+  IdentityType?: string;
+  VerifiedForSendingStatus?: boolean;
+  VerificationStatus?: string;
+}
+
+/** SES API returned a non-2xx response. */
+export class SesApiError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'SesApiError';
+    this.status = status;
+  }
+}
+
+function resolveConfig(credentials?: ProviderAccountSecrets): SesConfig {
+  const ses = credentials?.ses;
+  const accessKeyId = ses?.accessKeyId ?? process.env.AWS_ACCESS_KEY_ID?.trim();
+  const secretAccessKey = ses?.secretAccessKey ?? process.env.AWS_SECRET_ACCESS_KEY?.trim();
+  if (!accessKeyId || !secretAccessKey) {
+    throw new Error('AWS_ACCESS_KEY_ID and AWS_SECRET_ACCESS_KEY are required for ses provider');
+  }
+  const sessionToken = ses ? ses.sessionToken : process.env.AWS_SESSION_TOKEN?.trim() || undefined;
+  const region = ses?.region ?? (process.env.AWS_REGION?.trim() || DEFAULT_REGION);
+  return { credentials: { accessKeyId, secretAccessKey, sessionToken }, region };
+}
+
+function getFromAddress(account: Account, credentials?: ProviderAccountSecrets): string {
+  const envFrom = process.env.SES_FROM;
+  if (typeof envFrom === 'string' && envFrom.trim()) {
+    return envFrom.trim();
+  }
+  return credentials?.from ?? account.email;
+}
+
+function identityStatus(identity: SesIdentity, current: AccountStatus): AccountStatus {
+  if (current === 'disabled') return 'disabled';
+  return identity.VerifiedForSendingStatus ? 'active' : 'pending';
+}
+
+export interface SesProviderAdapterOptions {
+  /** API base URL. Defaults to SES_ENDPOINT or https://email.<region>.amazonaws.com. */
+  endpoint?: string;
+}
+
+/**
+ * SES adapter. Checks identity verification on provision and sends via SES v2.
+ */
+export class SesProviderAdapter implements ProviderAdapter {
+  readonly provider: AccountProvider = 'ses';
+  private readonly endpoint?: string;
+
+  constructor(options?: SesProviderAdapterOptions) {
+    this.endpoint = options?.endpoint;
+  }
+
+  /**
+   * Look up the account's email identity (then its domain). If neither exists,
+   * create the email identity so SES sends a verification mail; status stays
+   * pending until SES reports the identity verified for sending.
+   */
+  async provisionAccount(
+    input: ProvisionAccountInput
+  ): Promise<ProvisionAccountResult> {
+    const config = resolveConfig(input.credentials);
+    const email = input.requestedFromAddress ?? input.account.email;
+    const domain = email.split('@')[1] ?? '';
+
+    let identityName = email;
+    let identity = await this.getIdentity(config, email);
+    if (!identity && domain) {
+      identity = await this.getIdentity(config, domain);
+      if (identity) identityName = domain;
+    }
+    if (!identity) {
+      identity = await this.request<SesIdentity>(config, 'POST', '/v2/email/identities', {
+        EmailIdentity: email
+      });
+    }
+
+    const status = identityStatus(identity, input.account.status);
+    const updatedAccount: Account = {
+      ...input.account,
+      status,
+      updatedAt: new Date().toISOString()
+    };
+    return {
+      account: updatedAccount,
+      externalId: identityName,
+      status,
+      credentials: input.credentials,
+      metadata: {
+        provider: this.provider,
+        region: config.region,
+        identity: identityName,
+        identityType: identity.IdentityType,
+        verificationStatus: identity.VerificationStatus,
+        verifiedForSending: identity.VerifiedForSendingStatus ?? false
+      }
+    };
+  }
+
+  async sendEmail(input: SendEmailInput): Promise<SendEmailResult> {
+    if (!input.text && !input.html) {
+      throw new Error('text or html content required');
+    }
+    const config = resolveConfig(input.credentials);
+    const headers = extraHeaders(input);
+    const from = getFromAddress(input.account, input.credentials);
+
+    const body: Record<string, unknown> = {
+      FromEmailAddress: from,
+      Destination: {
+        ToAddresses: input.to,
+        ...(input.cc?.length ? { CcAddresses: input.cc } : {}),
+        ...(input.bcc?.length ? { BccAddresses: input.bcc } : {})
+      },
+      Content: {
+        Simple: {
+          Subject: { Data: input.subject, Charset: 'UTF-8' },
+          Body: {
+            ...(input.text ? { Text: { Data: input.text, Charset: 'UTF-8' } } : {}),
+            ...(input.html ? { Html: { Data: input.html, Charset: 'UTF-8' } } : {})
+          },
+          ...(headers
+            ? { Headers: Object.entries(headers).map(([Name, Value]) => ({ Name, Value })) }
+            : {}),
+          ...(input.attachments?.length
+            ? {
+                Attachments: input.attachments.map((attachment) => ({
+                  FileName: attachment.filename,
+                  ContentType: attachment.contentType,
+                  RawContent: attachment.content,
+                  ContentTransferEncoding: 'BASE64',
+                  ContentDisposition: attachment.contentId ? 'INLINE' : 'ATTACHMENT',
+                  ...(attachment.contentId ? { ContentId: attachment.contentId } : {})
+                }))
+              }
+            : {})
+        }
+      }
+    };
+    if (input.replyTo) body.ReplyToAddresses = [input.replyTo];
+    const configurationSet = process.env.SES_CONFIGURATION_SET?.trim();
+    if (configurationSet) body.ConfigurationSetName = configurationSet;
+
+    const raw = await this.request<{ MessageId?: string }>(
+      config,
+      'POST',
+      '/v2/email/outbound-emails',
+      body
+    );
+
+    return {
+      id: raw.MessageId ?? `ses-${Date.now()}`,
+      provider: this.provider,
+      to: input.to,
+      status: 'queued',
+      from,
+      raw
+    };
+  }
+
+  private async getIdentity(config: SesConfig, identity: string): Promise<SesIdentity | null> {
+    try {
+      return await this.request<SesIdentity>(
+        config,
+        'GET',
+        `/v2/email/identities/${encodeURIComponent(identity)}`
+      );
+    } catch (err) {
+      if (err instanceof SesApiError && err.status === 404) {
+        return null;
+      }
+      throw err;
+    }
+  }
+
+  private async request<T>(
+    config: SesConfig,
+    method: string,
+    path: string,
+    body?: unknown
+  ): Promise<T> {
+    const base =
+      this.endpoint ??
+      (process.env.SES_ENDPOINT?.trim() || `https://email.${config.region}.amazonaws.com`);
+    const url = new URL(base.replace(/\/+$/, '') + path);
+    const payload = body === undefined ? '' : JSON.stringify(body);
+    const headers = signRequest({
+      method,
+      url,
+      headers: body === undefined ? {} : { 'content-type': 'application/json' },
+      body: payload,
+      service: 'ses',
+      region: config.region,
+      credentials: config.credentials
+    });
+
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: body === undefined ? undefined : payload,
+      signal: providerTimeoutSignal()
+    });
+
+    const raw = await response.json().catch(() => ({})) as Record<string, unknown>;
+    if (!response.ok) {
+      const message = raw.message ?? raw.Message;
+      const errMsg = typeof message === 'string' ? message : `SES API error ${response.status}`;
+      throw new SesApiError(errMsg, response.status);
+    }
+    return raw as T;
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * AWS Signature Version 4 request signing.
+ * Hand-rolled so the SES adapter needs no AWS SDK dependency.
+ */
+
+import { createHash, createHmac } from 'node:crypto';
+
+export interface AwsCredentials {
+  accessKeyId: string;
+  secretAccessKey: string;
+  sessionToken?: string;
+}
+
+export interface SignRequestInput {
+  method: string;
+  url: string | URL;
+  /** Headers to sign and send. Host and X-Amz-Date are added when missing. */
+  headers?: Record<string, string>;
+  body?: string;
+  service: string;
+  region: string;
+  credentials: AwsCredentials;
+  /** Signing time; defaults to now. */
+  date?: Date;
+}
+
+const ALGORITHM = 'AWS4-HMAC-SHA256';
+
+function sha256Hex(data: string): string {
+  return createHash('sha256').update(data, 'utf8').digest('hex');
+}
+
+function hmac(key: string | Buffer, data: string): Buffer {
+  return createHmac('sha256', key).update(data, 'utf8').digest();
+}
+
+/** RFC 3986 encoding as required by SigV4 (encodeURIComponent plus !'()*). */
+function uriEncode(value: string): string {
+  return encodeURIComponent(value).replace(
+    /[!'()*]/g,
+    (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`
+  );
+}
+
+/** Format date as YYYYMMDD'T'HHMMSS'Z'. */
+export function toAmzDate(date: Date): string {
+  return date.toISOString().replace(/[:-]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Canonical URI: each segment of the (already encoded) path is encoded again,
+ * matching AWS services other than S3.
+ */
+function canonicalUri(pathname: string): string {
+  if (!pathname || pathname === '/') return '/';
+  return pathname
+    .split('/')
+    .map((segment) => uriEncode(segment))
+    .join('/');
+}
+
+function canonicalQuery(params: URLSearchParams): string {
+  return [...params.entries()]
+    .map(([key, value]) => [uriEncode(key), uriEncode(value)] as const)
+    .sort(([ak, av], [bk, bv]) => (ak === bk ? (av < bv ? -1 : 1) : ak < bk ? -1 : 1))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+}
+
+/** Derive the signing key for a given date/region/service. */
+export function deriveSigningKey(
+  secretAccessKey: string,
+  dateStamp: string,
+  region: string,
+  service: string
+): Buffer {
+  const kDate = hmac(`AWS4${secretAccessKey}`, dateStamp);
+  const kRegion = hmac(kDate, region);
+  const kService = hmac(kRegion, service);
+  return hmac(kService, 'aws4_request');
+}
+
+/**
+ * Sign a request. Returns the full header set to send, including
+ * Authorization, X-Amz-Date and (when present) X-Amz-Security-Token.
+ */
+export function signRequest(input: SignRequestInput): Record<string, string> {
+  const url = typeof input.url === 'string' ? new URL(input.url) : input.url;
+  const date = input.date ?? new Date();
+  const amzDate = toAmzDate(date);
+  const dateStamp = amzDate.slice(0, 8);
+
+  const headers: Record<string, string> = {};
+  for (const [name, value] of Object.entries(input.headers ?? {})) {
+    headers[name.toLowerCase()] = value;
+  }
+  headers.host ??= url.host;
+  headers['x-amz-date'] ??= amzDate;
+  if (input.credentials.sessionToken) {
+    headers['x-amz-security-token'] = input.credentials.sessionToken;
+  }
+
+  const signedHeaderNames = Object.keys(headers).sort();
+  const canonicalHeaders = signedHeaderNames
+    .map((name) => `${name}:${String(headers[name]).trim().replace(/\s+/g, ' ')}\n`)
+    .join('');
+  const signedHeaders = signedHeaderNames.join(';');
+
+  const canonicalRequest = [
+    input.method.toUpperCase(),
+    canonicalUri(url.pathname),
+    canonicalQuery(url.searchParams),
+    canonicalHeaders,
+    signedHeaders,
+    sha256Hex(input.body ?? ''),
+  ].join('\n');
+
+  const scope = `${dateStamp}/${input.region}/${input.service}/aws4_request`;
+  const stringToSign = [ALGORITHM, amzDate, scope, sha256Hex(canonicalRequest)].join('\n');
+  const signingKey = deriveSigningKey(
+    input.credentials.secretAccessKey,
+    dateStamp,
+    input.region,
+    input.service
+  );
+  const signature = createHmac('sha256', signingKey).update(stringToSign, 'utf8').digest('hex');
+
+  headers.authorization =
+    `${ALGORITHM} Credential=${input.credentials.accessKeyId}/${scope}, ` +
+    `SignedHeaders=${signedHeaders}, Signature=${signature}`;
+  return headers;
+}
@@ -0,0 +1,142 @@
+/**
+ * SMTP provider adapter. Sends email through an account's own SMTP server.
+ * Uses per-account credentials (ProviderAccountSecrets.smtp), falling back to
+ * SMTP_HOST / SMTP_PORT / SMTP_USER / SMTP_PASS / SMTP_SECURE / SMTP_FROM.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type {
+  Account,
+  AccountProvider,
+} from '../accounts.js';
+import type {
+  ProviderAccountSecrets,
+  ProviderAdapter,
+  ProvisionAccountInput,
+  ProvisionAccountResult,
+  SendEmailInput,
+  SendEmailResult,
+} from '../providers.js';
+import {
+  sendSmtpMessage,
+  verifySmtpConnection,
+  type SmtpConnectionOptions,
+} from './smtpClient.js';
+import { buildMimeMessage } from '../mime/builder.js';
+import { signDkim } from '../mime/dkim.js';
+
+type SmtpSecrets = NonNullable<ProviderAccountSecrets['smtp']>;
+
+function getEnvSmtp(): SmtpSecrets | undefined {
+  const host = process.env.SMTP_HOST?.trim();
+  if (!host) return undefined;
+  const secure = process.env.SMTP_SECURE === 'true';
+  const port = Number(process.env.SMTP_PORT ?? (secure ? 465 : 587));
+  return {
+    host,
+    port: Number.isFinite(port) && port > 0 ? port : secure ? 465 : 587,
+    secure,
+    user: process.env.SMTP_USER?.trim() ?? '',
+    pass: process.env.SMTP_PASS ?? '',
+    from: process.env.SMTP_FROM?.trim() || undefined,
+    allowInsecureAuth: process.env.SMTP_ALLOW_INSECURE_AUTH === 'true',
+  };
+}
+
+function resolveSmtp(credentials?: ProviderAccountSecrets): SmtpSecrets {
+  const smtp = credentials?.smtp ?? getEnvSmtp();
+  if (!smtp || !smtp.host) {
+    throw new Error('SMTP credentials (host, port, user, pass) are required for smtp provider');
+  }
+  return smtp;
+}
+
+function getFromAddress(account: Account, smtp: SmtpSecrets, credentials?: ProviderAccountSecrets): string {
+  return smtp.from ?? credentials?.from ?? account.email;
+}
+
+/** Extract the bare address from "Name <addr>" or return the input trimmed. */
+function bareAddress(address: string): string {
+  const match = /<([^>]+)>/.exec(address);
+  return (match?.[1] ?? address).trim();
+}
+
+export interface SmtpProviderAdapterOptions {
+  /** Extra connection options (e.g. tls, timeoutMs) applied to every session. */
+  connection?: Partial<SmtpConnectionOptions>;
+}
+
+/**
+ * SMTP adapter. Validates credentials on provision and sends via SMTP.
+ */
+export class SmtpProviderAdapter implements ProviderAdapter {
+  readonly provider: AccountProvider = 'smtp';
+  private readonly connectionDefaults: Partial<SmtpConnectionOptions>;
+
+  constructor(options?: SmtpProviderAdapterOptions) {
+    this.connectionDefaults = options?.connection ?? {};
+  }
+
+  async provisionAccount(
+    input: ProvisionAccountInput
+  ): Promise<ProvisionAccountResult> {
+    const smtp = resolveSmtp(input.credentials);
+    await verifySmtpConnection(this.connectionOptions(smtp));
+    const now = new Date().toISOString();
+    const updatedAccount: Account = {
+      ...input.account,
+      status: input.account.status === 'disabled' ? 'disabled' : 'active',
+      updatedAt: now
+    };
+    return {
+      account: updatedAccount,
+      externalId: smtp.user || input.account.email,
+      status: updatedAccount.status,
+      credentials: input.credentials,
+      metadata: { provider: this.provider, host: smtp.host, port: smtp.port }
+    };
+  }
+
+  async sendEmail(input: SendEmailInput): Promise<SendEmailResult> {
+    if (!input.text && !input.html) {
+      throw new Error('text or html content required');
+    }
+    const smtp = resolveSmtp(input.credentials);
+    const from = getFromAddress(input.account, smtp, input.credentials);
+    const domain = bareAddress(from).split('@')[1]?.toLowerCase() ?? 'localhost';
+    const messageId = `<${randomUUID()}@${domain}>`;
+    const unsigned = buildMimeMessage(input, { from, messageId });
+    const dkimKey = await input.dkimKeys?.get(domain);
+    const message = dkimKey ? signDkim(unsigned, dkimKey) : unsigned;
+
+    const reply = await sendSmtpMessage(
+      this.connectionOptions(smtp),
+      {
+        from: bareAddress(from),
+        to: [...input.to, ...(input.cc ?? []), ...(input.bcc ?? [])].map(bareAddress)
+      },
+      message
+    );
+
+    return {
+      id: messageId,
+      provider: this.provider,
+      to: input.to,
+      status: 'sent',
+      from,
+      raw: { code: reply.code, response: reply.lines.join(' ') }
+    };
+  }
+
+  private connectionOptions(smtp: SmtpSecrets): SmtpConnectionOptions {
+    return {
+      ...this.connectionDefaults,
+      host: smtp.host,
+      port: smtp.port,
+      secure: smtp.secure,
+      user: smtp.user || undefined,
+      pass: smtp.pass,
+      ...(smtp.allowInsecureAuth ? { allowInsecureAuth: true } : {}),
+    };
+  }
+}
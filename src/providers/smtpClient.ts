@@ -0,0 +1,342 @@
+/**
+ * Minimal SMTP client (RFC 5321) used by the SMTP provider adapter.
+ * Supports EHLO, STARTTLS, implicit TLS, AUTH PLAIN/LOGIN and a single
+ * MAIL FROM / RCPT TO / DATA transaction per connection.
+ */
+
+import { connect as netConnect, type Socket } from 'node:net';
+import { connect as tlsConnect, type ConnectionOptions, type TLSSocket } from 'node:tls';
+import { hostname } from 'node:os';
+
+export interface SmtpConnectionOptions {
+  host: string;
+  port: number;
+  /** Implicit TLS (usually port 465). When false, STARTTLS is used if offered. */
+  secure?: boolean;
+  user?: string;
+  pass?: string;
+  /** Name announced in EHLO. Defaults to the local hostname. */
+  name?: string;
+  /** Fail when the server does not offer STARTTLS on a plain connection. */
+  requireTls?: boolean;
+  /**
+   * Authenticate even when the connection is not encrypted. Off by default,
+   * so credentials are never sent in cleartext (e.g. when STARTTLS is stripped).
+   */
+  allowInsecureAuth?: boolean;
+  /** Socket inactivity timeout in milliseconds. */
+  timeoutMs?: number;
+  /** Extra TLS options (e.g. ca, rejectUnauthorized) for TLS and STARTTLS. */
+  tls?: ConnectionOptions;
+}
+
+export interface SmtpEnvelope {
+  from: string;
+  to: string[];
+}
+
+export interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+/** SMTP server replied with an unexpected status code. 4xx codes are transient. */
+export class SmtpReplyError extends Error {
+  readonly code: number;
+
+  constructor(message: string, code: number) {
+    super(message);
+    this.name = 'SmtpReplyError';
+    this.code = code;
+  }
+}
+
+/**
+ * The session failed (timed out, dropped, garbled) before the message body
+ * was sent, so the server cannot have accepted the message.
+ */
+export class SmtpNotSentError extends Error {
+  constructor(cause: Error) {
+    super(cause.message, { cause });
+    this.name = 'SmtpNotSentError';
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+
+/**
+ * Single SMTP session over a plain or TLS socket.
+ * Replies are buffered line by line and handed out in order.
+ */
+export class SmtpConnection {
+  private socket!: Socket | TLSSocket;
+  private buffer = '';
+  private readonly replies: SmtpReply[] = [];
+  private pendingLines: string[] = [];
+  private waiter?: { resolve: (reply: SmtpReply) => void; reject: (err: Error) => void };
+  private failure?: Error;
+  private bodySent = false;
+  private capabilities = new Set<string>();
+  private authMechanisms = new Set<string>();
+  private readonly options: SmtpConnectionOptions;
+
+  constructor(options: SmtpConnectionOptions) {
+    this.options = options;
+  }
+
+  /** Open the connection, read the greeting, EHLO and upgrade/authenticate as needed. */
+  async open(): Promise<void> {
+    const { host, port, secure } = this.options;
+    const socket = secure
+      ? tlsConnect({ host, port, servername: host, ...this.options.tls })
+      : netConnect({ host, port });
+    this.attach(socket);
+    await this.waitForConnect(socket, secure ? 'secureConnect' : 'connect');
+
+    this.expect(await this.readReply(), [220], 'greeting');
+    await this.ehlo();
+
+    let encrypted = Boolean(secure);
+    if (!secure && this.capabilities.has('STARTTLS')) {
+      await this.command('STARTTLS', [220]);
+      await this.upgradeTls();
+      await this.ehlo();
+      encrypted = true;
+    } else if (!secure && this.options.requireTls) {
+      throw new Error('SMTP server does not support STARTTLS');
+    }
+
+    if (this.options.user) {
+      if (!encrypted && !this.options.allowInsecureAuth) {
+        throw new Error('Refusing to send SMTP credentials over an unencrypted connection');
+      }
+      await this.authenticate(this.options.user, this.options.pass ?? '');
+    }
+  }
+
+  /** Run MAIL FROM / RCPT TO / DATA for one message. Returns the final DATA reply. */
+  async send(envelope: SmtpEnvelope, message: string): Promise<SmtpReply> {
+    if (envelope.to.length === 0) {
+      throw new Error('At least one recipient required');
+    }
+    await this.command(`MAIL FROM:<${envelope.from}>`, [250]);
+    for (const rcpt of envelope.to) {
+      await this.command(`RCPT TO:<${rcpt}>`, [250, 251]);
+    }
+    await this.command('DATA', [354]);
+    this.bodySent = true;
+    this.write(dotStuff(message) + '\r\n.\r\n');
+    return this.expect(await this.readReply(), [250], 'DATA');
+  }
+
+  /** Send QUIT and close the socket. Never throws. */
+  async close(): Promise<void> {
+    if (!this.failure && !this.socket.destroyed) {
+      try {
+        await this.command('QUIT', [221]);
+      } catch {
+        // Server may drop the connection without replying
+      }
+    }
+    this.socket.destroy();
+  }
+
+  /** Issue a command and require one of the expected reply codes. */
+  async command(line: string, expected: number[]): Promise<SmtpReply> {
+    this.write(line + '\r\n');
+    const verb = line.startsWith('AUTH') ? 'AUTH' : line.split(' ')[0] ?? line;
+    return this.expect(await this.readReply(), expected, verb);
+  }
+
+  private async ehlo(): Promise<void> {
+    const name = this.options.name ?? hostname();
+    let reply: SmtpReply;
+    try {
+      reply = await this.command(`EHLO ${name}`, [250]);
+    } catch (err) {
+      if (!(err instanceof SmtpReplyError)) throw err;
+      reply = await this.command(`HELO ${name}`, [250]);
+    }
+    this.capabilities = new Set();
+    this.authMechanisms = new Set();
+    for (const ext of reply.lines.slice(1)) {
+      const [keyword, ...params] = ext.trim().toUpperCase().split(/\s+/);
+      if (!keyword) continue;
+      this.capabilities.add(keyword);
+      if (keyword === 'AUTH') {
+        params.forEach((mechanism) => this.authMechanisms.add(mechanism));
+      }
+    }
+  }
+
+  private async authenticate(user: string, pass: string): Promise<void> {
+    if (this.authMechanisms.has('PLAIN')) {
+      const token = Buffer.from(`\0${user}\0${pass}`, 'utf8').toString('base64');
+      await this.command(`AUTH PLAIN ${token}`, [235]);
+      return;
+    }
+    if (this.authMechanisms.has('LOGIN')) {
+      await this.command('AUTH LOGIN', [334]);
+      await this.command(Buffer.from(user, 'utf8').toString('base64'), [334]);
+      await this.command(Buffer.from(pass, 'utf8').toString('base64'), [235]);
+      return;
+    }
+    throw new Error(
+      `No supported SMTP AUTH mechanism (server offers: ${[...this.authMechanisms].join(', ') || 'none'})`
+    );
+  }
+
+  private async upgradeTls(): Promise<void> {
+    // Anything read after the 220 came in plaintext and could have been
+    // injected; it must not be taken as a reply once encrypted.
+    if (this.buffer || this.pendingLines.length > 0 || this.replies.length > 0) {
+      const err = new Error('SMTP server sent data before the STARTTLS handshake');
+      this.fail(err);
+      throw err;
+    }
+    const plain = this.socket;
+    plain.removeAllListeners('data');
+    plain.removeAllListeners('error');
+    plain.removeAllListeners('close');
+    plain.setTimeout(0);
+    const secure = tlsConnect({
+      socket: plain,
+      servername: this.options.host,
+      ...this.options.tls,
+    });
+    this.buffer = '';
+    this.pendingLines = [];
+    this.replies.length = 0;
+    this.attach(secure);
+    await this.waitForConnect(secure, 'secureConnect');
+  }
+
+  private attach(socket: Socket | TLSSocket): void {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.setTimeout(this.options.timeoutMs ?? DEFAULT_TIMEOUT_MS, () => {
+      socket.destroy(new Error('SMTP connection timed out'));
+    });
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', (err: Error) => this.fail(err));
+    socket.on('close', () => this.fail(new Error('SMTP connection closed')));
+  }
+
+  private waitForConnect(socket: Socket | TLSSocket, event: string): Promise<void> {
+    return new Promise<void>((resolve, reject) => {
+      if (this.failure) {
+        reject(this.failure);
+        return;
+      }
+      socket.once(event, () => resolve());
+      socket.once('error', (err: Error) => reject(this.failure ?? err));
+      socket.once('close', () => reject(this.failure ?? new Error('SMTP connection closed')));
+    });
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    let index = this.buffer.indexOf('\n');
+    while (index !== -1) {
+      const line = this.buffer.slice(0, index).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(index + 1);
+      this.onLine(line);
+      index = this.buffer.indexOf('\n');
+    }
+  }
+
+  private onLine(line: string): void {
+    const match = /^(\d{3})([ -]?)(.*)$/.exec(line);
+    if (!match) {
+      this.fail(new Error(`Malformed SMTP reply: ${line}`));
+      return;
+    }
+    this.pendingLines.push(match[3] ?? '');
+    if (match[2] === '-') return;
+
+    const reply: SmtpReply = { code: Number(match[1]), lines: this.pendingLines };
+    this.pendingLines = [];
+    if (this.waiter) {
+      const { resolve } = this.waiter;
+      this.waiter = undefined;
+      resolve(reply);
+    } else {
+      this.replies.push(reply);
+    }
+  }
+
+  private fail(err: Error): void {
+    if (this.failure) return;
+    const failure = this.bodySent ? err : new SmtpNotSentError(err);
+    this.failure = failure;
+    if (this.waiter) {
+      const { reject } = this.waiter;
+      this.waiter = undefined;
+      reject(failure);
+    }
+  }
+
+  private readReply(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise<SmtpReply>((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  private expect(reply: SmtpReply, expected: number[], stage: string): SmtpReply {
+    if (!expected.includes(reply.code)) {
+      throw new SmtpReplyError(
+        `SMTP ${stage} failed: ${reply.code} ${reply.lines.join(' ')}`.trim(),
+        reply.code
+      );
+    }
+    return reply;
+  }
+
+  private write(data: string): void {
+    if (this.failure) throw this.failure;
+    this.socket.write(data);
+  }
+}
+
+/**
+ * Deliver one message over a fresh SMTP session.
+ * Opens, authenticates, sends and always closes the connection.
+ */
+export async function sendSmtpMessage(
+  options: SmtpConnectionOptions,
+  envelope: SmtpEnvelope,
+  message: string
+): Promise<SmtpReply> {
+  const connection = new SmtpConnection(options);
+  try {
+    await connection.open();
+    return await connection.send(envelope, message);
+  } finally {
+    await connection.close();
+  }
+}
+
+/**
+ * Open a session and authenticate without sending, to validate credentials.
+ */
+export async function verifySmtpConnection(options: SmtpConnectionOptions): Promise<void> {
+  const connection = new SmtpConnection(options);
+  try {
+    await connection.open();
+  } finally {
+    await connection.close();
+  }
+}
+
+/** Normalize line endings to CRLF and escape leading dots (RFC 5321 4.5.2). */
+function dotStuff(message: string): string {
+  return message
+    .replace(/\r?\n/g, '\r\n')
+    .split('\r\n')
+    .map((line) => (line.startsWith('.') ? '.' + line : line))
+    .join('\r\n')
+    .replace(/(\r\n)+$/, '');
+}
@@ -0,0 +1,429 @@
+/**
+ * File-backed outbound email queue.
+ * POST /emails/send enqueues; the outbound worker claims due messages,
+ * delivers them and records the outcome. Messages that fail permanently
+ * (or exhaust their attempts) move to the dead-letter list. Scheduled sends
+ * are queued with a future first attempt, so they survive restarts like any
+ * other pending message, and can be cancelled until the worker claims them.
+ *
+ * The queue file only holds pending and dead-lettered messages, since the
+ * worker rewrites it on every claim. Sent and cancelled messages move to a
+ * file each, without their body and attachments; the full content of sent
+ * messages is kept apart for exports (GET /emails/:id/raw).
+ */
+
+import { randomUUID } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import type { AccountProvider } from '../accounts.js';
+import type { EmailContent } from '../providers.js';
+
+export type OutboundStatus = 'queued' | 'sending' | 'sent' | 'dead' | 'cancelled';
+
+export interface OutboundMessage {
+  id: string;
+  accountId: string;
+  tenantId?: string;
+  agentId?: string;
+  email: EmailContent;
+  status: OutboundStatus;
+  /** Delivery attempts made so far. */
+  attempts: number;
+  maxAttempts: number;
+  /** Earliest time the worker may (re)try delivery. */
+  nextAttemptAt: string;
+  /** Requested delivery time, for scheduled sends. */
+  scheduledAt?: string;
+  /** While sending: when the worker's claim lapses and the message can be reclaimed. */
+  leaseExpiresAt?: string;
+  lastError?: string;
+  /** Credit hold to commit on delivery or release on dead-letter. */
+  holdId?: string;
+  /** Provider that accepted the message, and its message ID. */
+  provider?: AccountProvider;
+  providerMessageId?: string;
+  /** From address the provider sent with, for exports of the message. */
+  from?: string;
+  createdAt: string;
+  updatedAt: string;
+  sentAt?: string;
+  deadAt?: string;
+  cancelledAt?: string;
+}
+
+export interface EnqueueInput {
+  accountId: string;
+  tenantId?: string;
+  agentId?: string;
+  email: EmailContent;
+  holdId?: string;
+  maxAttempts?: number;
+  /** Defer first delivery until this time; defaults to now. */
+  notBefore?: Date;
+  /** Mark the message as scheduled for `notBefore` rather than merely deferred. */
+  scheduled?: boolean;
+}
+
+export interface OutboundQueue {
+  enqueue(input: EnqueueInput): Promise<OutboundMessage>;
+  /**
+   * Look up a message, whether pending, sent, cancelled or dead-lettered.
+   * Sent and cancelled messages come back without body or attachments.
+   */
+  get(id: string): Promise<OutboundMessage | null>;
+  /** Full content of a pending or sent message; null once cancelled. */
+  getContent(id: string): Promise<EmailContent | null>;
+  /**
+   * Claim up to `limit` due messages for delivery. Claimed messages move to
+   * `sending` with a lease so a crashed worker's claims are retried.
+   */
+  claimDue(limit: number, leaseMs: number, now?: Date): Promise<OutboundMessage[]>;
+  /**
+   * Extend the lease on a message still being sent, so a slow delivery is not
+   * reclaimed by another worker. Returns false once it is no longer `sending`.
+   */
+  renewLease(id: string, leaseMs: number, now?: Date): Promise<boolean>;
+  markSent(
+    id: string,
+    result: { provider: AccountProvider; providerMessageId: string; from?: string },
+  ): Promise<OutboundMessage | null>;
+  /** Record a failed attempt and schedule the next one. */
+  markRetry(id: string, error: string, nextAttemptAt: Date): Promise<OutboundMessage | null>;
+  /** Record a permanent failure and move the message to the dead-letter list. */
+  markDead(id: string, error: string): Promise<OutboundMessage | null>;
+  /**
+   * Withdraw a message that is still waiting for delivery. Returns null when it
+   * is unknown or already claimed, sent, dead-lettered or cancelled.
+   */
+  cancel(id: string): Promise<OutboundMessage | null>;
+  listDeadLetter(): Promise<OutboundMessage[]>;
+}
+
+/** Queue state as returned by GET /emails/:id; omits the body and credit hold. */
+export function toPublicOutboundMessage(message: OutboundMessage) {
+  return {
+    id: message.id,
+    accountId: message.accountId,
+    tenantId: message.tenantId,
+    to: message.email.to,
+    subject: message.email.subject,
+    status: message.status,
+    attempts: message.attempts,
+    maxAttempts: message.maxAttempts,
+    nextAttemptAt: message.status === 'queued' ? message.nextAttemptAt : undefined,
+    scheduledAt: message.scheduledAt,
+    lastError: message.lastError,
+    provider: message.provider,
+    providerMessageId: message.providerMessageId,
+    createdAt: message.createdAt,
+    updatedAt: message.updatedAt,
+    sentAt: message.sentAt,
+    deadAt: message.deadAt,
+    cancelledAt: message.cancelledAt,
+  };
+}
+
+interface QueueStoreData {
+  messages: OutboundMessage[];
+  deadLetter: OutboundMessage[];
+}
+
+const DEFAULT_MAX_ATTEMPTS = 5;
+
+/** Addressing and subject only, for records of finished messages. */
+function withoutBody(email: EmailContent): EmailContent {
+  return {
+    to: email.to,
+    ...(email.cc ? { cc: email.cc } : {}),
+    ...(email.bcc ? { bcc: email.bcc } : {}),
+    subject: email.subject,
+  };
+}
+
+function isSafeId(id: string): boolean {
+  return /^[A-Za-z0-9_-]+$/.test(id);
+}
+
+function emptyStore(): QueueStoreData {
+  return { messages: [], deadLetter: [] };
+}
+
+export class FileOutboundQueue implements OutboundQueue {
+  private readonly filePath: string;
+  private readonly finishedDir: string;
+  private readonly contentDir: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  /**
+   * `finishedDir` (sent and cancelled records) and `contentDir` (content of
+   * sent messages) default to `outbound-finished` and `outbound-content`
+   * directories next to the queue file.
+   */
+  constructor(filePath: string, dirs: { finishedDir?: string; contentDir?: string } = {}) {
+    this.filePath = filePath;
+    this.finishedDir = dirs.finishedDir ?? join(dirname(filePath), 'outbound-finished');
+    this.contentDir = dirs.contentDir ?? join(dirname(filePath), 'outbound-content');
+  }
+
+  async enqueue(input: EnqueueInput): Promise<OutboundMessage> {
+    const now = new Date().toISOString();
+    const message: OutboundMessage = {
+      id: randomUUID(),
+      accountId: input.accountId,
+      tenantId: input.tenantId,
+      agentId: input.agentId,
+      email: { ...input.email },
+      status: 'queued',
+      attempts: 0,
+      maxAttempts: input.maxAttempts ?? DEFAULT_MAX_ATTEMPTS,
+      nextAttemptAt: (input.notBefore ?? new Date()).toISOString(),
+      ...(input.scheduled && input.notBefore ? { scheduledAt: input.notBefore.toISOString() } : {}),
+      holdId: input.holdId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await this.withWriteLock(async () => {
+      const store = await this.readStore();
+      store.messages.push(message);
+      await this.writeStore(store);
+    });
+    return message;
+  }
+
+  async get(id: string): Promise<OutboundMessage | null> {
+    const store = await this.readStore();
+    return (
+      store.messages.find((m) => m.id === id) ??
+      store.deadLetter.find((m) => m.id === id) ??
+      (await this.readJson<OutboundMessage>(this.finishedDir, id))
+    );
+  }
+
+  async getContent(id: string): Promise<EmailContent | null> {
+    const store = await this.readStore();
+    const pending = store.messages.find((m) => m.id === id) ?? store.deadLetter.find((m) => m.id === id);
+    if (pending) return pending.email;
+    return this.readJson<EmailContent>(this.contentDir, id);
+  }
+
+  async claimDue(limit: number, leaseMs: number, now: Date = new Date()): Promise<OutboundMessage[]> {
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      // Queue files written before finished messages moved out may still hold some
+      const finished = store.messages.filter((m) => m.status === 'sent' || m.status === 'cancelled');
+      for (const message of finished) {
+        await this.archive(message);
+      }
+      store.messages = store.messages.filter((m) => !finished.includes(m));
+      const nowMs = now.getTime();
+      const claimed: OutboundMessage[] = [];
+      const due = store.messages
+        .filter((m) => isClaimable(m, nowMs))
+        .sort((a, b) => a.nextAttemptAt.localeCompare(b.nextAttemptAt));
+      for (const message of due.slice(0, Math.max(0, limit))) {
+        message.status = 'sending';
+        message.attempts += 1;
+        message.leaseExpiresAt = new Date(nowMs + leaseMs).toISOString();
+        message.updatedAt = now.toISOString();
+        claimed.push({ ...message });
+      }
+      if (claimed.length > 0 || finished.length > 0) {
+        await this.writeStore(store);
+      }
+      return claimed;
+    });
+  }
+
+  async renewLease(id: string, leaseMs: number, now: Date = new Date()): Promise<boolean> {
+    const renewed = await this.update(id, (message) => {
+      if (message.status === 'sending') {
+        message.leaseExpiresAt = new Date(now.getTime() + leaseMs).toISOString();
+      }
+    });
+    return renewed?.status === 'sending';
+  }
+
+  async markSent(
+    id: string,
+    result: { provider: AccountProvider; providerMessageId: string; from?: string },
+  ): Promise<OutboundMessage | null> {
+    return this.finish(id, (message, now) => {
+      message.status = 'sent';
+      message.provider = result.provider;
+      message.providerMessageId = result.providerMessageId;
+      if (result.from) message.from = result.from;
+      message.sentAt = now;
+      delete message.leaseExpiresAt;
+      delete message.lastError;
+    });
+  }
+
+  async markRetry(id: string, error: string, nextAttemptAt: Date): Promise<OutboundMessage | null> {
+    return this.update(id, (message) => {
+      message.status = 'queued';
+      message.lastError = error;
+      message.nextAttemptAt = nextAttemptAt.toISOString();
+      delete message.leaseExpiresAt;
+    });
+  }
+
+  async markDead(id: string, error: string): Promise<OutboundMessage | null> {
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      const index = store.messages.findIndex((m) => m.id === id);
+      if (index === -1) return null;
+      const [message] = store.messages.splice(index, 1);
+      const now = new Date().toISOString();
+      message.status = 'dead';
+      message.lastError = error;
+      message.deadAt = now;
+      message.updatedAt = now;
+      delete message.leaseExpiresAt;
+      store.deadLetter.push(message);
+      await this.writeStore(store);
+      return message;
+    });
+  }
+
+  async cancel(id: string): Promise<OutboundMessage | null> {
+    return this.finish(id, (message, now) => {
+      if (message.status !== 'queued') return false;
+      message.status = 'cancelled';
+      message.cancelledAt = now;
+    });
+  }
+
+  async listDeadLetter(): Promise<OutboundMessage[]> {
+    const store = await this.readStore();
+    return store.deadLetter;
+  }
+
+  private async update(
+    id: string,
+    apply: (message: OutboundMessage, now: string) => void,
+  ): Promise<OutboundMessage | null> {
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      const message = store.messages.find((m) => m.id === id);
+      if (!message) return null;
+      const now = new Date().toISOString();
+      apply(message, now);
+      message.updatedAt = now;
+      await this.writeStore(store);
+      return message;
+    });
+  }
+
+  /**
+   * Apply a final transition and move the message out of the queue file:
+   * its record to `finishedDir` without the body, and for sent messages the
+   * content to `contentDir`. `apply` returns false to leave it queued.
+   */
+  private async finish(
+    id: string,
+    apply: (message: OutboundMessage, now: string) => boolean | void,
+  ): Promise<OutboundMessage | null> {
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      const index = store.messages.findIndex((m) => m.id === id);
+      if (index === -1) return null;
+      const message = store.messages[index];
+      const now = new Date().toISOString();
+      if (apply(message, now) === false) return null;
+      message.updatedAt = now;
+      const record = await this.archive(message);
+      store.messages.splice(index, 1);
+      await this.writeStore(store);
+      return record;
+    });
+  }
+
+  /** Write a finished message's record (and content, once sent) to their own files. */
+  private async archive(message: OutboundMessage): Promise<OutboundMessage> {
+    if (message.status === 'sent') {
+      await this.writeJson(this.contentDir, message.id, message.email);
+    }
+    const record = { ...message, email: withoutBody(message.email) };
+    await this.writeJson(this.finishedDir, message.id, record);
+    return record;
+  }
+
+  private async readJson<T>(dir: string, id: string): Promise<T | null> {
+    if (!isSafeId(id)) return null;
+    try {
+      return JSON.parse(await fs.readFile(join(dir, `${id}.json`), 'utf8')) as T;
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeJson(dir: string, id: string, value: unknown): Promise<void> {
+    if (!isSafeId(id)) {
+      throw new Error(`Cannot store outbound message ${id}`);
+    }
+    await fs.mkdir(dir, { recursive: true });
+    const path = join(dir, `${id}.json`);
+    const tempPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(value, null, 2) + '\n', 'utf8');
+    await fs.rename(tempPath, path);
+  }
+
+  private async withWriteLock<T>(operation: () => Promise<T>): Promise<T> {
+    const previous = this.writeQueue;
+    let release!: () => void;
+    this.writeQueue = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    await previous;
+    try {
+      return await operation();
+    } finally {
+      release();
+    }
+  }
+
+  private async readStore(): Promise<QueueStoreData> {
+    await this.ensureStoreFile();
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw) as Partial<QueueStoreData>;
+      return {
+        messages: Array.isArray(parsed.messages) ? parsed.messages : [],
+        deadLetter: Array.isArray(parsed.deadLetter) ? parsed.deadLetter : [],
+      };
+    } catch {
+      return emptyStore();
+    }
+  }
+
+  private async writeStore(store: QueueStoreData): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    const tempPath = join(
+      dirname(this.filePath),
+      `${basename(this.filePath)}.${process.pid}.${Date.now()}.tmp`
+    );
+    const payload = JSON.stringify(store, null, 2) + '\n';
+    await fs.writeFile(tempPath, payload, 'utf8');
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private async ensureStoreFile(): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      await this.writeStore(emptyStore());
+    }
+  }
+}
+
+function isClaimable(message: OutboundMessage, nowMs: number): boolean {
+  if (message.status === 'queued') {
+    return Date.parse(message.nextAttemptAt) <= nowMs;
+  }
+  // A worker that died mid-send leaves its lease behind; reclaim once it lapses.
+  if (message.status === 'sending' && message.leaseExpiresAt) {
+    return Date.parse(message.leaseExpiresAt) <= nowMs;
+  }
+  return false;
+}
@@ -0,0 +1,275 @@
+/**
+ * Outbound queue worker. Polls the queue for due messages, delivers them
+ * through the account's provider failover chain, retries transient failures
+ * with exponential backoff and jitter, and dead-letters the rest.
+ */
+
+import type { AccountRepository } from '../accounts.js';
+import type { WalletStoreInterface } from '../fileWalletStore.js';
+import type { MessageRepository } from '../messages.js';
+import type { ProviderAccountSecrets, ProviderAdapter, SendEmailResult } from '../providers.js';
+import {
+  ProviderFailoverError,
+  resolveProviderChain,
+  sendWithFailover,
+} from '../providers/failover.js';
+import type { CredentialVault } from '../secrets/credentialVault.js';
+import type { DkimKeyLookup } from '../mime/dkim.js';
+import type { OutboundMessage, OutboundQueue } from './outboundQueue.js';
+
+export interface OutboundWorkerDeps {
+  queue: OutboundQueue;
+  accountRepository: AccountRepository;
+  getProviderAdapter(provider: string): ProviderAdapter;
+  credentialVault?: CredentialVault;
+  /** DKIM keys per From domain, passed to adapters that sign (SMTP). */
+  dkimKeys?: DkimKeyLookup;
+  walletStore?: WalletStoreInterface;
+  /** Message records to advance to sent / failed as delivery settles. */
+  messageRepository?: MessageRepository;
+}
+
+export interface OutboundWorkerOptions {
+  /** Delay between polls when the queue is idle. Default 1s. */
+  pollIntervalMs?: number;
+  /** Messages claimed per poll. Default 10. */
+  batchSize?: number;
+  /** Backoff before the first retry; doubles per attempt. Default 5s. */
+  baseDelayMs?: number;
+  /** Upper bound on the backoff. Default 15 minutes. */
+  maxDelayMs?: number;
+  /**
+   * How long a claim is held before another worker may retry it. Default 2
+   * minutes; renewed every third of that while the batch is being delivered.
+   */
+  leaseMs?: number;
+  /** Source of randomness for jitter (0 <= x < 1); injectable for tests. */
+  random?: () => number;
+}
+
+/**
+ * Backoff before retry number `attempt` (1-based): base * 2^(attempt-1),
+ * capped, with "equal jitter" so retries spread out but never fire instantly.
+ */
+export function computeBackoffMs(
+  attempt: number,
+  baseDelayMs: number,
+  maxDelayMs: number,
+  random: () => number = Math.random,
+): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(exponential / 2 + random() * (exponential / 2));
+}
+
+export class OutboundWorker {
+  private readonly deps: OutboundWorkerDeps;
+  private readonly pollIntervalMs: number;
+  private readonly batchSize: number;
+  private readonly baseDelayMs: number;
+  private readonly maxDelayMs: number;
+  private readonly leaseMs: number;
+  private readonly random: () => number;
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+  private inFlight: Promise<number> | undefined;
+
+  constructor(deps: OutboundWorkerDeps, options?: OutboundWorkerOptions) {
+    this.deps = deps;
+    this.pollIntervalMs = options?.pollIntervalMs ?? 1_000;
+    this.batchSize = options?.batchSize ?? 10;
+    this.baseDelayMs = options?.baseDelayMs ?? 5_000;
+    this.maxDelayMs = options?.maxDelayMs ?? 15 * 60 * 1000;
+    this.leaseMs = options?.leaseMs ?? 2 * 60 * 1000;
+    this.random = options?.random ?? Math.random;
+  }
+
+  /** Start polling. The timer is unref'd so it never keeps the process alive. */
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.schedule(0);
+  }
+
+  /** Stop polling and wait for the current batch to finish. */
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.inFlight;
+  }
+
+  /**
+   * Claim and deliver one batch of due messages. Returns how many were processed.
+   * Leases are renewed until each message settles, however long its failover
+   * chain takes, and one message failing unexpectedly does not stop the rest.
+   */
+  async processDue(now: Date = new Date()): Promise<number> {
+    const { queue } = this.deps;
+    const claimed = await queue.claimDue(this.batchSize, this.leaseMs, now);
+    const held = new Set(claimed.map((message) => message.id));
+    const renewal = setInterval(() => {
+      for (const id of held) {
+        queue.renewLease(id, this.leaseMs).catch((err: unknown) => {
+          console.error(JSON.stringify({
+            level: 'error',
+            msg: 'outbound_lease_renewal_error',
+            messageId: id,
+            error: err instanceof Error ? err.message : err,
+          }));
+        });
+      }
+    }, Math.max(1, Math.floor(this.leaseMs / 3)));
+    renewal.unref();
+
+    try {
+      for (const message of claimed) {
+        try {
+          await this.deliver(message);
+        } catch (err) {
+          // Left in `sending`; the lease lapses and the message is retried
+          console.error(JSON.stringify({
+            level: 'error',
+            msg: 'outbound_deliver_error',
+            messageId: message.id,
+            error: err instanceof Error ? err.message : err,
+          }));
+        } finally {
+          held.delete(message.id);
+        }
+      }
+    } finally {
+      clearInterval(renewal);
+    }
+    return claimed.length;
+  }
+
+  private schedule(delayMs: number): void {
+    if (!this.running) return;
+    this.timer = setTimeout(() => {
+      this.inFlight = this.processDue().catch((err) => {
+        console.error(JSON.stringify({
+          level: 'error',
+          msg: 'outbound_worker_error',
+          error: err instanceof Error ? err.message : err,
+        }));
+        return 0;
+      });
+      void this.inFlight.then((processed) => {
+        // Keep draining while there is work; otherwise wait for the next poll.
+        this.schedule(processed >= this.batchSize ? 0 : this.pollIntervalMs);
+      });
+    }, delayMs);
+    this.timer.unref();
+  }
+
+  private async deliver(message: OutboundMessage): Promise<void> {
+    const { queue, accountRepository, credentialVault } = this.deps;
+
+    const account = await accountRepository.getById(message.accountId);
+    if (!account) {
+      await this.deadLetter(message, 'Account not found');
+      return;
+    }
+    if (account.status === 'disabled') {
+      await this.deadLetter(message, 'Account is disabled');
+      return;
+    }
+
+    let credentials: ProviderAccountSecrets | undefined;
+    try {
+      credentials = (await credentialVault?.get(account.id)) ?? undefined;
+    } catch (err) {
+      await this.retryOrDeadLetter(
+        message,
+        `Failed to load account credentials: ${err instanceof Error ? err.message : err}`,
+        true,
+      );
+      return;
+    }
+
+    let result: SendEmailResult;
+    try {
+      ({ result } = await sendWithFailover(
+        {
+          ...message.email,
+          account,
+          tenantId: message.tenantId,
+          credentials,
+          dkimKeys: this.deps.dkimKeys,
+        },
+        resolveProviderChain(account),
+        this.deps.getProviderAdapter,
+      ));
+    } catch (err) {
+      const error = err instanceof Error ? err.message : 'Email send failed';
+      const transient =
+        err instanceof ProviderFailoverError &&
+        (err.attempts[err.attempts.length - 1]?.transient ?? false);
+      await this.retryOrDeadLetter(message, error, transient);
+      return;
+    }
+
+    // The provider has accepted the message; from here on errors are not
+    // send failures and must not be retried as such.
+    await queue.markSent(message.id, {
+      provider: result.provider,
+      providerMessageId: result.id,
+      from: result.from,
+    });
+    if (message.holdId) {
+      await this.deps.walletStore?.commit(message.holdId);
+    }
+    await this.deps.messageRepository?.updateStatus(message.id, 'sent', {
+      provider: result.provider,
+      providerMessageId: result.id,
+    });
+    console.log(JSON.stringify({
+      level: 'info',
+      msg: 'outbound_sent',
+      messageId: message.id,
+      provider: result.provider,
+      attempts: message.attempts,
+    }));
+  }
+
+  private async retryOrDeadLetter(
+    message: OutboundMessage,
+    error: string,
+    transient: boolean,
+  ): Promise<void> {
+    if (!transient || message.attempts >= message.maxAttempts) {
+      await this.deadLetter(message, error);
+      return;
+    }
+    const delayMs = computeBackoffMs(message.attempts, this.baseDelayMs, this.maxDelayMs, this.random);
+    await this.deps.queue.markRetry(message.id, error, new Date(Date.now() + delayMs));
+    console.log(JSON.stringify({
+      level: 'warn',
+      msg: 'outbound_retry',
+      messageId: message.id,
+      attempts: message.attempts,
+      retryInMs: delayMs,
+      error,
+    }));
+  }
+
+  private async deadLetter(message: OutboundMessage, error: string): Promise<void> {
+    await this.deps.queue.markDead(message.id, error);
+    if (message.holdId) {
+      await this.deps.walletStore?.release(message.holdId);
+    }
+    await this.deps.messageRepository?.updateStatus(message.id, 'failed', {
+      detail: error,
+      ...(message.holdId ? { cost: 0 } : {}),
+    });
+    console.error(JSON.stringify({
+      level: 'error',
+      msg: 'outbound_dead_letter',
+      messageId: message.id,
+      attempts: message.attempts,
+      error,
+    }));
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Per-email recipient limits (to + cc + bcc). Providers cap a single send at
+ * 50 recipients (Resend, SES); tenants can be restricted further so the API
+ * is not used for broadcast.
+ */
+
+/** Hard ceiling shared by every provider adapter. */
+export const PROVIDER_MAX_RECIPIENTS = 50;
+
+function parseLimit(raw: string | undefined): number | undefined {
+  if (!raw || !raw.trim()) return undefined;
+  const value = Number(raw.trim());
+  if (!Number.isInteger(value) || value < 1) return undefined;
+  return Math.min(value, PROVIDER_MAX_RECIPIENTS);
+}
+
+/** TENANT_MAX_RECIPIENTS="tenant-a:5,tenant-b:20" → Map(tenant → limit). */
+function getTenantLimits(): Map<string, number> {
+  const raw = process.env.TENANT_MAX_RECIPIENTS;
+  const limits = new Map<string, number>();
+  if (!raw || typeof raw !== 'string') return limits;
+  for (const entry of raw.split(',')) {
+    const separator = entry.lastIndexOf(':');
+    if (separator <= 0) continue;
+    const tenantId = entry.slice(0, separator).trim().toLowerCase();
+    const limit = parseLimit(entry.slice(separator + 1));
+    if (tenantId && limit !== undefined) limits.set(tenantId, limit);
+  }
+  return limits;
+}
+
+/**
+ * Maximum recipients per email for a tenant: its TENANT_MAX_RECIPIENTS entry,
+ * else MAX_RECIPIENTS_PER_EMAIL, else the provider ceiling.
+ */
+export function getMaxRecipients(tenantId?: string): number {
+  const tenantLimit = tenantId
+    ? getTenantLimits().get(tenantId.trim().toLowerCase())
+    : undefined;
+  return (
+    tenantLimit ??
+    parseLimit(process.env.MAX_RECIPIENTS_PER_EMAIL) ??
+    PROVIDER_MAX_RECIPIENTS
+  );
+}
@@ -4,7 +4,11 @@
  * Requires RESEND_API_KEY.
  */
 
+import { providerTimeoutSignal } from './providers/http.js';
+
 const RESEND_RECEIVING_BASE = 'https://api.resend.com/emails/receiving';
+/** Largest raw message downloaded; Resend accepts inbound mail up to 40 MB. */
+const MAX_RAW_MESSAGE_BYTES = 50 * 1024 * 1024;
 
 function getApiKey(): string | undefined {
   const key = process.env.RESEND_API_KEY;
@@ -21,6 +25,8 @@ export interface ReceivedEmailSummary {
   cc?: string[];
   reply_to?: string[];
   message_id?: string;
+  /** SMTP envelope, for mail received by the local listener. */
+  envelope?: { mail_from: string; rcpt_to: string[] };
   attachments?: Array<{
     id: string;
     filename: string;
@@ -51,6 +57,8 @@ export interface ReceivedEmailFull {
   cc?: string[];
   reply_to?: string[];
   message_id?: string | null;
+  /** SMTP envelope, for mail received by the local listener. */
+  envelope?: { mail_from: string; rcpt_to: string[] };
   raw?: { download_url: string; expires_at: string };
   attachments?: Array<{
     id: string;
@@ -114,3 +122,50 @@ export async function getReceivedEmail(
   const url = `${RESEND_RECEIVING_BASE}/${encodeURIComponent(emailId.trim())}`;
   return resendFetch<ReceivedEmailFull>(url);
 }
+
+/**
+ * Download the original RFC 822 message from a received email's
+ * `raw.download_url`. The URL is pre-signed and short-lived, so fetch the
+ * email again for a fresh one rather than storing it. Messages over
+ * `maxBytes` (at most 50 MB) answer 413.
+ */
+export async function downloadReceivedEmailRaw(
+  downloadUrl: string,
+  maxBytes: number = MAX_RAW_MESSAGE_BYTES,
+): Promise<{ ok: boolean; status?: number; data?: Buffer; error?: string }> {
+  const limit = Math.min(maxBytes, MAX_RAW_MESSAGE_BYTES);
+  let response: Response;
+  try {
+    response = await fetch(downloadUrl, { method: 'GET', signal: providerTimeoutSignal() });
+  } catch (err) {
+    return { ok: false, status: 502, error: `Raw message download failed: ${err instanceof Error ? err.message : String(err)}` };
+  }
+  if (!response.ok) {
+    return { ok: false, status: 502, error: `Raw message download failed with status ${response.status}` };
+  }
+  if (Number(response.headers.get('content-length')) > limit) {
+    await response.body?.cancel();
+    return { ok: false, status: 413, error: 'Raw message too large' };
+  }
+
+  // Content-Length may be absent or wrong: count as the body streams in and
+  // stop reading as soon as it passes the limit.
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body?.getReader();
+  try {
+    while (reader) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.byteLength;
+      if (size > limit) {
+        await reader.cancel();
+        return { ok: false, status: 413, error: 'Raw message too large' };
+      }
+      chunks.push(value);
+    }
+  } catch (err) {
+    return { ok: false, status: 502, error: `Raw message download failed: ${err instanceof Error ? err.message : String(err)}` };
+  }
+  return { ok: true, status: 200, data: Buffer.concat(chunks) };
+}
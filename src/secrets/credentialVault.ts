@@ -0,0 +1,234 @@
+/**
+ * File-backed encrypted vault for per-account provider credentials.
+ * Entries are AES-256-GCM encrypted under a versioned master key from env;
+ * the account ID is bound as additional authenticated data.
+ */
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import type { ProviderAccountSecrets } from '../providers.js';
+
+interface VaultEntry {
+  keyVersion: number;
+  iv: string;
+  tag: string;
+  ciphertext: string;
+  updatedAt: string;
+}
+
+interface VaultStoreData {
+  entries: Record<string, VaultEntry>;
+}
+
+const EMPTY_STORE: VaultStoreData = { entries: {} };
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+/**
+ * Encrypted secrets keyed by ID. Account provider credentials by default;
+ * other secrets (e.g. DKIM private keys per domain) use their own file.
+ */
+export interface CredentialVault<T = ProviderAccountSecrets> {
+  /** Decrypted credentials for an account, or null when none are stored. */
+  get(accountId: string): Promise<T | null>;
+  /** Encrypt and store credentials under the active key version. */
+  set(accountId: string, secrets: T): Promise<void>;
+  delete(accountId: string): Promise<boolean>;
+  /** Re-encrypt every entry not already on the active key version. */
+  rotate(): Promise<{ rotated: number; keyVersion: number }>;
+}
+
+export interface MasterKeys {
+  keys: Map<number, Buffer>;
+  activeVersion: number;
+}
+
+function decodeKey(raw: string, label: string): Buffer {
+  const value = raw.trim();
+  const key = /^[0-9a-f]{64}$/i.test(value)
+    ? Buffer.from(value, 'hex')
+    : Buffer.from(value, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`${label} must be 32 bytes (base64 or hex)`);
+  }
+  return key;
+}
+
+/**
+ * Load master keys from env.
+ * CREDENTIALS_MASTER_KEYS="1:<key>,2:<key>" lists versioned keys; the active
+ * version is CREDENTIALS_KEY_VERSION or the highest listed. A single
+ * CREDENTIALS_MASTER_KEY is treated as version 1.
+ */
+export function loadMasterKeysFromEnv(): MasterKeys {
+  const keys = new Map<number, Buffer>();
+  const list = process.env.CREDENTIALS_MASTER_KEYS;
+  if (typeof list === 'string' && list.trim()) {
+    for (const item of list.split(',')) {
+      const [versionRaw, keyRaw] = item.split(':');
+      const version = Number(versionRaw?.trim());
+      if (!Number.isInteger(version) || version < 1 || !keyRaw) {
+        throw new Error('CREDENTIALS_MASTER_KEYS entries must look like <version>:<key>');
+      }
+      keys.set(version, decodeKey(keyRaw, `CREDENTIALS_MASTER_KEYS version ${version}`));
+    }
+  } else if (process.env.CREDENTIALS_MASTER_KEY?.trim()) {
+    keys.set(1, decodeKey(process.env.CREDENTIALS_MASTER_KEY, 'CREDENTIALS_MASTER_KEY'));
+  }
+
+  const configured = Number(process.env.CREDENTIALS_KEY_VERSION);
+  const activeVersion =
+    Number.isInteger(configured) && configured > 0
+      ? configured
+      : Math.max(0, ...keys.keys());
+  if (keys.size > 0 && !keys.has(activeVersion)) {
+    throw new Error(`CREDENTIALS_KEY_VERSION ${activeVersion} has no matching master key`);
+  }
+  return { keys, activeVersion };
+}
+
+export class FileCredentialVault<T = ProviderAccountSecrets> implements CredentialVault<T> {
+  private readonly filePath: string;
+  private readonly masterKeys: MasterKeys;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(filePath: string, masterKeys?: MasterKeys) {
+    this.filePath = filePath;
+    this.masterKeys = masterKeys ?? loadMasterKeysFromEnv();
+  }
+
+  async get(accountId: string): Promise<T | null> {
+    const store = await this.readStore();
+    const entry = store.entries[accountId];
+    if (!entry) return null;
+    return this.decrypt(accountId, entry);
+  }
+
+  async set(accountId: string, secrets: T): Promise<void> {
+    const entry = this.encrypt(accountId, secrets);
+    await this.withWriteLock(async () => {
+      const store = await this.readStore();
+      store.entries[accountId] = entry;
+      await this.writeStore(store);
+    });
+  }
+
+  async delete(accountId: string): Promise<boolean> {
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      if (!store.entries[accountId]) return false;
+      delete store.entries[accountId];
+      await this.writeStore(store);
+      return true;
+    });
+  }
+
+  async rotate(): Promise<{ rotated: number; keyVersion: number }> {
+    const keyVersion = this.activeKey().version;
+    return this.withWriteLock(async () => {
+      const store = await this.readStore();
+      let rotated = 0;
+      for (const [accountId, entry] of Object.entries(store.entries)) {
+        if (entry.keyVersion === keyVersion) continue;
+        store.entries[accountId] = this.encrypt(accountId, this.decrypt(accountId, entry));
+        rotated += 1;
+      }
+      if (rotated > 0) {
+        await this.writeStore(store);
+      }
+      return { rotated, keyVersion };
+    });
+  }
+
+  private activeKey(): { version: number; key: Buffer } {
+    const { keys, activeVersion } = this.masterKeys;
+    const key = keys.get(activeVersion);
+    if (!key) {
+      throw new Error('CREDENTIALS_MASTER_KEY is required to store account credentials');
+    }
+    return { version: activeVersion, key };
+  }
+
+  private encrypt(accountId: string, secrets: T): VaultEntry {
+    const { version, key } = this.activeKey();
+    const iv = randomBytes(IV_BYTES);
+    const cipher = createCipheriv(ALGORITHM, key, iv);
+    cipher.setAAD(Buffer.from(accountId, 'utf8'));
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(secrets), 'utf8'),
+      cipher.final(),
+    ]);
+    return {
+      keyVersion: version,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+      updatedAt: new Date().toISOString(),
+    };
+  }
+
+  private decrypt(accountId: string, entry: VaultEntry): T {
+    const key = this.masterKeys.keys.get(entry.keyVersion);
+    if (!key) {
+      throw new Error(`Master key version ${entry.keyVersion} is not configured`);
+    }
+    const decipher = createDecipheriv(ALGORITHM, key, Buffer.from(entry.iv, 'base64'));
+    decipher.setAAD(Buffer.from(accountId, 'utf8'));
+    decipher.setAuthTag(Buffer.from(entry.tag, 'base64'));
+    const plaintext = Buffer.concat([
+      decipher.update(Buffer.from(entry.ciphertext, 'base64')),
+      decipher.final(),
+    ]);
+    return JSON.parse(plaintext.toString('utf8')) as T;
+  }
+
+  private async withWriteLock<T>(operation: () => Promise<T>): Promise<T> {
+    const previous = this.writeQueue;
+    let release!: () => void;
+    this.writeQueue = new Promise<void>((resolve) => {
+      release = resolve;
+    });
+    await previous;
+    try {
+      return await operation();
+    } finally {
+      release();
+    }
+  }
+
+  private async readStore(): Promise<VaultStoreData> {
+    await this.ensureStoreFile();
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      const parsed = JSON.parse(raw) as Partial<VaultStoreData>;
+      if (!parsed.entries || typeof parsed.entries !== 'object') {
+        return { entries: {} };
+      }
+      return { entries: { ...parsed.entries } };
+    } catch {
+      return { entries: {} };
+    }
+  }
+
+  private async writeStore(store: VaultStoreData): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    const tempPath = join(
+      dirname(this.filePath),
+      `${basename(this.filePath)}.${process.pid}.${Date.now()}.tmp`
+    );
+    const payload = JSON.stringify(store, null, 2) + '\n';
+    await fs.writeFile(tempPath, payload, { encoding: 'utf8', mode: 0o600 });
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  private async ensureStoreFile(): Promise<void> {
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    try {
+      await fs.access(this.filePath);
+    } catch {
+      await this.writeStore({ ...EMPTY_STORE });
+    }
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Email templates: subject/text/html bodies with {{variable}} placeholders,
+ * rendered at send time. Values are HTML-escaped in the html body only.
+ */
+
+export interface EmailTemplate {
+  id: string;
+  name: string;
+  subject: string;
+  text?: string;
+  html?: string;
+  /** Placeholder names used anywhere in the template; all are required at send time. */
+  variables: string[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface CreateTemplateInput {
+  name: string;
+  subject: string;
+  text?: string;
+  html?: string;
+}
+
+/** Fields to change; null clears text or html. */
+export interface UpdateTemplateInput {
+  name?: string;
+  subject?: string;
+  text?: string | null;
+  html?: string | null;
+}
+
+export interface TemplateRepository {
+  create(input: CreateTemplateInput): Promise<EmailTemplate>;
+  getById(id: string): Promise<EmailTemplate | null>;
+  list(): Promise<EmailTemplate[]>;
+  update(id: string, input: UpdateTemplateInput): Promise<EmailTemplate | null>;
+  delete(id: string): Promise<boolean>;
+}
+
+export type TemplateVariables = Record<string, string | number | boolean>;
+
+export interface RenderedTemplate {
+  subject: string;
+  text?: string;
+  html?: string;
+}
+
+const PLACEHOLDER = /\{\{\s*([A-Za-z_][A-Za-z0-9_]*)\s*\}\}/g;
+
+/** Thrown when rendering without a value for every placeholder. */
+export class MissingTemplateVariablesError extends Error {
+  readonly missing: string[];
+
+  constructor(missing: string[]) {
+    super(`Missing template variables: ${missing.join(', ')}`);
+    this.name = 'MissingTemplateVariablesError';
+    this.missing = missing;
+  }
+}
+
+/** Sorted, de-duplicated placeholder names across the given template parts. */
+export function extractTemplateVariables(...parts: Array<string | undefined>): string[] {
+  const names = new Set<string>();
+  for (const part of parts) {
+    for (const match of (part ?? '').matchAll(PLACEHOLDER)) {
+      names.add(match[1]);
+    }
+  }
+  return [...names].sort();
+}
+
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function substitute(
+  source: string,
+  variables: TemplateVariables,
+  escape: (value: string) => string,
+): string {
+  return source.replace(PLACEHOLDER, (_match, name: string) => escape(String(variables[name])));
+}
+
+/**
+ * Fill a template's placeholders. Throws MissingTemplateVariablesError when
+ * any placeholder has no value; extra variables are ignored.
+ */
+export function renderTemplate(
+  template: Pick<EmailTemplate, 'subject' | 'text' | 'html'>,
+  variables: TemplateVariables,
+): RenderedTemplate {
+  const missing = extractTemplateVariables(template.subject, template.text, template.html)
+    .filter((name) => !Object.prototype.hasOwnProperty.call(variables, name));
+  if (missing.length > 0) {
+    throw new MissingTemplateVariablesError(missing);
+  }
+  const plain = (value: string) => value;
+  return {
+    subject: substitute(template.subject, variables, plain),
+    ...(template.text !== undefined ? { text: substitute(template.text, variables, plain) } : {}),
+    ...(template.html !== undefined ? { html: substitute(template.html, variables, escapeHtml) } : {}),
+  };
+}
@@ -0,0 +1,93 @@
+/**
+ * Svix webhook signature verification (used by Resend).
+ * Signed content is `${svix-id}.${svix-timestamp}.${rawBody}`, HMAC-SHA256
+ * with the base64 secret after its `whsec_` prefix. The svix-signature header
+ * lists one or more space-separated `v1,<base64>` signatures.
+ */
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+/** Webhook failed verification. The message is safe to return to the sender. */
+export class WebhookVerificationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WebhookVerificationError';
+  }
+}
+
+export interface SvixHeaders {
+  id?: string;
+  timestamp?: string;
+  signature?: string;
+}
+
+export interface VerifySvixOptions {
+  /** Maximum clock skew between svix-timestamp and now. Default 5 minutes. */
+  toleranceSeconds?: number;
+  now?: Date;
+}
+
+function decodeSecret(secret: string): Buffer {
+  const value = secret.trim().replace(/^whsec_/, '');
+  const key = Buffer.from(value, 'base64');
+  if (key.length === 0) {
+    throw new WebhookVerificationError('Webhook secret is empty or not base64');
+  }
+  return key;
+}
+
+/** Compute the v1 signature for a payload (exported for tests and tooling). */
+export function signSvixPayload(
+  secret: string,
+  id: string,
+  timestamp: string,
+  payload: string | Buffer,
+): string {
+  const body = typeof payload === 'string' ? payload : payload.toString('utf8');
+  const digest = createHmac('sha256', decodeSecret(secret))
+    .update(`${id}.${timestamp}.${body}`, 'utf8')
+    .digest('base64');
+  return `v1,${digest}`;
+}
+
+/**
+ * Verify headers and raw body against the secret. Throws
+ * WebhookVerificationError when headers are missing, the timestamp is outside
+ * the tolerance, or no signature matches.
+ */
+export function verifySvixSignature(
+  secret: string,
+  headers: SvixHeaders,
+  payload: string | Buffer,
+  options: VerifySvixOptions = {},
+): void {
+  const { id, timestamp, signature } = headers;
+  if (!id || !timestamp || !signature) {
+    throw new WebhookVerificationError('Missing svix-id, svix-timestamp or svix-signature header');
+  }
+
+  const seconds = Number(timestamp);
+  if (!Number.isInteger(seconds)) {
+    throw new WebhookVerificationError('Invalid svix-timestamp');
+  }
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  const nowSeconds = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  if (Math.abs(nowSeconds - seconds) > tolerance) {
+    throw new WebhookVerificationError('Webhook timestamp outside tolerance');
+  }
+
+  const expected = Buffer.from(signSvixPayload(secret, id, timestamp, payload).slice(3), 'base64');
+  const matched = signature
+    .split(' ')
+    .map((part) => part.trim())
+    .filter((part) => part.startsWith('v1,'))
+    .some((part) => {
+      const candidate = Buffer.from(part.slice(3), 'base64');
+      return candidate.length === expected.length && timingSafeEqual(candidate, expected);
+    });
+  if (!matched) {
+    throw new WebhookVerificationError('No matching webhook signature');
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+
+import {
+  AttachmentError,
+  base64Size,
+  getMaxAttachmentBytes,
+  getMaxReceivedAttachmentBytes,
+  getReceivedAttachmentDenylist,
+  isDeniedFileType,
+  parseAttachments,
+} from '../src/attachments.js';
+
+const pdf = Buffer.from('%PDF-1.4 report').toString('base64');
+
+describe('parseAttachments', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('returns an empty list when absent', () => {
+    expect(parseAttachments(undefined)).toEqual([]);
+  });
+
+  it('normalizes content type, content id and whitespace in content', () => {
+    const wrapped = pdf.replace(/(.{8})/g, '$1\n');
+    expect(
+      parseAttachments([
+        { filename: 'report.pdf', content: wrapped, contentType: 'Application/PDF' },
+        { filename: 'logo.png', content: 'iVBORw0=', content_type: 'image/png', content_id: '<logo>' },
+      ])
+    ).toEqual([
+      { filename: 'report.pdf', content: pdf, contentType: 'application/pdf' },
+      { filename: 'logo.png', content: 'iVBORw0=', contentType: 'image/png', contentId: 'logo' },
+    ]);
+  });
+
+  it('rejects malformed attachments with 400', () => {
+    const cases: unknown[] = [
+      {},
+      [{ filename: '../etc/passwd', content: pdf, contentType: 'text/plain' }],
+      [{ filename: 'a.txt', content: 'not base64!', contentType: 'text/plain' }],
+      [{ filename: 'a.txt', content: pdf, contentType: 'text' }],
+      [{ filename: 'a.txt', content: pdf, contentType: 'text/plain', contentId: 'has space' }],
+    ];
+    for (const value of cases) {
+      expect(() => parseAttachments(value)).toThrow(
+        expect.objectContaining({ name: 'AttachmentError', status: 400 })
+      );
+    }
+  });
+
+  it('rejects executable file types with 415', () => {
+    expect(() =>
+      parseAttachments([{ filename: 'setup.EXE', content: pdf, contentType: 'application/octet-stream' }])
+    ).toThrow(expect.objectContaining({ status: 415 }));
+    expect(() =>
+      parseAttachments([{ filename: 'run', content: pdf, contentType: 'application/x-sh' }])
+    ).toThrow(expect.objectContaining({ status: 415 }));
+  });
+
+  it('enforces the total decoded size with 413', () => {
+    const content = Buffer.alloc(600).toString('base64');
+    expect(base64Size(content)).toBe(600);
+    expect(() =>
+      parseAttachments(
+        [
+          { filename: 'a.bin', content, contentType: 'application/octet-stream' },
+          { filename: 'b.bin', content, contentType: 'application/octet-stream' },
+        ],
+        1000
+      )
+    ).toThrow(expect.objectContaining({ status: 413 }));
+    expect(() =>
+      parseAttachments([{ filename: 'a.bin', content, contentType: 'application/octet-stream' }], 1000)
+    ).not.toThrow(AttachmentError);
+  });
+
+  it('reads MAX_ATTACHMENT_BYTES', () => {
+    vi.stubEnv('MAX_ATTACHMENT_BYTES', '2048');
+    expect(getMaxAttachmentBytes()).toBe(2048);
+    vi.stubEnv('MAX_ATTACHMENT_BYTES', 'nope');
+    expect(getMaxAttachmentBytes()).toBe(10 * 1024 * 1024);
+  });
+});
+
+describe('received attachment limits', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('denies executables by extension or content type by default', () => {
+    expect(isDeniedFileType('setup.EXE', 'application/octet-stream')).toBe(true);
+    expect(isDeniedFileType('setup.exe. ', 'application/octet-stream')).toBe(true);
+    expect(isDeniedFileType('run', 'application/x-msdownload')).toBe(true);
+    expect(isDeniedFileType('report.pdf', 'application/pdf')).toBe(false);
+  });
+
+  it('reads RECEIVED_ATTACHMENT_DENYLIST', () => {
+    vi.stubEnv('RECEIVED_ATTACHMENT_DENYLIST', ' .PDF, image/* ,text/html');
+    const denylist = getReceivedAttachmentDenylist();
+    expect(isDeniedFileType('a.pdf', 'application/octet-stream', denylist)).toBe(true);
+    expect(isDeniedFileType('logo', 'image/png; name=logo', denylist)).toBe(true);
+    expect(isDeniedFileType('page', 'text/html', denylist)).toBe(true);
+    expect(isDeniedFileType('setup.exe', 'application/octet-stream', denylist)).toBe(false);
+
+    vi.stubEnv('RECEIVED_ATTACHMENT_DENYLIST', '');
+    expect(isDeniedFileType('setup.exe', 'application/x-msdownload', getReceivedAttachmentDenylist())).toBe(false);
+  });
+
+  it('reads RECEIVED_ATTACHMENT_MAX_BYTES', () => {
+    vi.stubEnv('RECEIVED_ATTACHMENT_MAX_BYTES', '4096');
+    expect(getMaxReceivedAttachmentBytes()).toBe(4096);
+    vi.stubEnv('RECEIVED_ATTACHMENT_MAX_BYTES', '-1');
+    expect(getMaxReceivedAttachmentBytes()).toBe(25 * 1024 * 1024);
+  });
+});
@@ -26,4 +26,12 @@ describe('computeBodyHash', () => {
   it('returns different hash for different content', () => {
     expect(computeBodyHash({ a: 1 })).not.toBe(computeBodyHash({ a: 2 }));
   });
+
+  it('binds attachment content into the hash', () => {
+    const send = (content: string) => ({
+      to: 'a@example.com',
+      attachments: [{ filename: 'r.txt', contentType: 'text/plain', content }],
+    });
+    expect(computeBodyHash(send('aGVsbG8='))).not.toBe(computeBodyHash(send('aGVsbG9v')));
+  });
 });
@@ -0,0 +1,123 @@
+/**
+ * Tests for FileCredentialVault (AES-256-GCM, key rotation).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import { FileCredentialVault, loadMasterKeysFromEnv } from '../src/secrets/credentialVault.js';
+
+const keyV1 = Buffer.alloc(32, 1);
+const keyV2 = Buffer.alloc(32, 2);
+const secrets = {
+  smtp: { host: 'smtp.example.com', port: 587, user: 'agent', pass: 'hunter2' },
+  apiKey: 'SG.secret'
+};
+
+describe('FileCredentialVault', () => {
+  let tmpDir: string;
+  let storePath: string;
+
+  beforeEach(() => {
+    tmpDir = mkdtempSync(join(tmpdir(), 'ernest-vault-'));
+    storePath = join(tmpDir, 'credentials.json');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('round-trips secrets without writing plaintext to disk', async () => {
+    const vault = new FileCredentialVault(storePath, { keys: new Map([[1, keyV1]]), activeVersion: 1 });
+    await vault.set('acct-1', secrets);
+
+    expect(await vault.get('acct-1')).toEqual(secrets);
+    const onDisk = readFileSync(storePath, 'utf8');
+    expect(onDisk).not.toContain('hunter2');
+    expect(onDisk).not.toContain('SG.secret');
+    expect(JSON.parse(onDisk).entries['acct-1'].keyVersion).toBe(1);
+  });
+
+  it('returns null for unknown accounts', async () => {
+    const vault = new FileCredentialVault(storePath, { keys: new Map([[1, keyV1]]), activeVersion: 1 });
+    expect(await vault.get('missing')).toBeNull();
+  });
+
+  it('binds ciphertext to the account id', async () => {
+    const vault = new FileCredentialVault(storePath, { keys: new Map([[1, keyV1]]), activeVersion: 1 });
+    await vault.set('acct-1', secrets);
+    const store = JSON.parse(readFileSync(storePath, 'utf8'));
+    store.entries['acct-2'] = store.entries['acct-1'];
+    writeFileSync(storePath, JSON.stringify(store));
+
+    await expect(vault.get('acct-2')).rejects.toThrow();
+  });
+
+  it('rotates entries to the active key version', async () => {
+    const old = new FileCredentialVault(storePath, { keys: new Map([[1, keyV1]]), activeVersion: 1 });
+    await old.set('acct-1', secrets);
+    await old.set('acct-2', { apiKey: 'other' });
+
+    const rotating = new FileCredentialVault(storePath, {
+      keys: new Map([[1, keyV1], [2, keyV2]]),
+      activeVersion: 2
+    });
+    expect(await rotating.rotate()).toEqual({ rotated: 2, keyVersion: 2 });
+    expect(await rotating.rotate()).toEqual({ rotated: 0, keyVersion: 2 });
+
+    // Old key can be retired once everything is re-encrypted
+    const retired = new FileCredentialVault(storePath, { keys: new Map([[2, keyV2]]), activeVersion: 2 });
+    expect(await retired.get('acct-1')).toEqual(secrets);
+    expect(await retired.get('acct-2')).toEqual({ apiKey: 'other' });
+  });
+
+  it('throws on set when no master key is configured', async () => {
+    const vault = new FileCredentialVault(storePath, { keys: new Map(), activeVersion: 0 });
+    await expect(vault.set('acct-1', secrets)).rejects.toThrow('CREDENTIALS_MASTER_KEY');
+  });
+
+  it('deletes entries', async () => {
+    const vault = new FileCredentialVault(storePath, { keys: new Map([[1, keyV1]]), activeVersion: 1 });
+    await vault.set('acct-1', secrets);
+    expect(await vault.delete('acct-1')).toBe(true);
+    expect(await vault.delete('acct-1')).toBe(false);
+    expect(await vault.get('acct-1')).toBeNull();
+  });
+});
+
+describe('loadMasterKeysFromEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reads a single CREDENTIALS_MASTER_KEY as version 1', () => {
+    vi.stubEnv('CREDENTIALS_MASTER_KEYS', '');
+    vi.stubEnv('CREDENTIALS_KEY_VERSION', '');
+    vi.stubEnv('CREDENTIALS_MASTER_KEY', keyV1.toString('base64'));
+    const { keys, activeVersion } = loadMasterKeysFromEnv();
+    expect(activeVersion).toBe(1);
+    expect(keys.get(1)).toEqual(keyV1);
+  });
+
+  it('reads versioned keys and defaults to the highest version', () => {
+    vi.stubEnv('CREDENTIALS_MASTER_KEYS', `1:${keyV1.toString('base64')},2:${keyV2.toString('hex')}`);
+    vi.stubEnv('CREDENTIALS_KEY_VERSION', '');
+    const { keys, activeVersion } = loadMasterKeysFromEnv();
+    expect(activeVersion).toBe(2);
+    expect(keys.get(2)).toEqual(keyV2);
+  });
+
+  it('rejects keys that are not 32 bytes', () => {
+    vi.stubEnv('CREDENTIALS_MASTER_KEYS', '');
+    vi.stubEnv('CREDENTIALS_MASTER_KEY', 'too-short');
+    expect(() => loadMasterKeysFromEnv()).toThrow('32 bytes');
+  });
+
+  it('rejects an active version without a key', () => {
+    vi.stubEnv('CREDENTIALS_MASTER_KEYS', `1:${keyV1.toString('base64')}`);
+    vi.stubEnv('CREDENTIALS_KEY_VERSION', '3');
+    expect(() => loadMasterKeysFromEnv()).toThrow('CREDENTIALS_KEY_VERSION');
+  });
+});
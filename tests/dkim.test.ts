@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { createHash, createPublicKey, generateKeyPairSync, verify } from 'node:crypto';
+
+import { buildMimeMessage } from '../src/mime/builder.js';
+import {
+  canonicalizeBodyRelaxed,
+  canonicalizeHeaderRelaxed,
+  dkimDnsRecord,
+  generateDkimKey,
+  importDkimKey,
+  signDkim,
+  type DkimKey,
+} from '../src/mime/dkim.js';
+
+function sampleMessage(): string {
+  return buildMimeMessage(
+    {
+      to: ['Reader <reader@example.org>'],
+      subject: 'A subject long enough that the header has to be folded across more than one line',
+      text: 'Hello  there \r\n\r\n\r\n',
+    },
+    {
+      from: 'Agent <agent@example.com>',
+      messageId: '<dkim-1@example.com>',
+      date: new Date('2026-01-02T03:04:05Z'),
+    }
+  );
+}
+
+/** Minimal relaxed/relaxed verifier, following RFC 6376 §6.1.3 step by step. */
+function verifyDkim(message: string, publicKeyDns: string): boolean {
+  const separator = message.indexOf('\r\n\r\n');
+  const fields: string[] = [];
+  for (const line of message.slice(0, separator).split('\r\n')) {
+    if (/^[ \t]/.test(line)) fields[fields.length - 1] += `\r\n${line}`;
+    else fields.push(line);
+  }
+  const signatureField = fields.find((field) => /^dkim-signature:/i.test(field))!;
+  const tags = Object.fromEntries(
+    signatureField
+      .slice(signatureField.indexOf(':') + 1)
+      .replace(/\s+/g, '')
+      .split(';')
+      .filter(Boolean)
+      .map((tag) => [tag.slice(0, tag.indexOf('=')), tag.slice(tag.indexOf('=') + 1)])
+  );
+
+  const body = message.slice(separator + 4);
+  const bodyHash = createHash('sha256').update(canonicalizeBodyRelaxed(body)).digest('base64');
+  if (bodyHash !== tags.bh) return false;
+
+  const headers = tags.h.split(':').map((name: string) =>
+    fields.filter((field) => field.split(':')[0].trim().toLowerCase() === name).at(-1)!
+  );
+  const unsignedSignature = signatureField.replace(/b=[^;]*$/, 'b=');
+  const data =
+    headers.map((field: string) => `${canonicalizeHeaderRelaxed(field)}\r\n`).join('') +
+    canonicalizeHeaderRelaxed(unsignedSignature);
+  const signature = Buffer.from(tags.b, 'base64');
+
+  if (tags.a === 'ed25519-sha256') {
+    const spki = Buffer.concat([
+      Buffer.from('302a300506032b6570032100', 'hex'),
+      Buffer.from(publicKeyDns, 'base64'),
+    ]);
+    const key = createPublicKey({ key: spki, format: 'der', type: 'spki' });
+    return verify(null, createHash('sha256').update(data).digest(), key, signature);
+  }
+  const key = createPublicKey({ key: Buffer.from(publicKeyDns, 'base64'), format: 'der', type: 'spki' });
+  return verify('sha256', Buffer.from(data), key, signature);
+}
+
+describe('relaxed canonicalization', () => {
+  it('matches the RFC 6376 §3.4.5 example', () => {
+    expect(canonicalizeHeaderRelaxed('A: X')).toBe('a:X');
+    expect(canonicalizeHeaderRelaxed('B : Y\t\r\n\tZ  ')).toBe('b:Y Z');
+    expect(canonicalizeBodyRelaxed(' C \r\nD \t E\r\n\r\n\r\n')).toBe(' C\r\nD E\r\n');
+  });
+
+  it('canonicalizes an empty body to the empty string', () => {
+    expect(canonicalizeBodyRelaxed('\r\n\r\n')).toBe('');
+  });
+});
+
+describe('signDkim', () => {
+  const now = new Date('2026-01-02T03:04:05Z');
+
+  it.each(['rsa-sha256', 'ed25519-sha256'] as const)('produces a verifiable %s signature', (algorithm) => {
+    const key = generateDkimKey('Example.com', 'sel1', algorithm, 1024);
+    const signed = signDkim(sampleMessage(), key, now);
+    const header = signed.slice(0, signed.indexOf('\r\nFrom:')).replace(/\r\n[ \t]/g, ' ');
+
+    expect(header.startsWith('DKIM-Signature: v=1;')).toBe(true);
+    expect(header).toContain(`a=${algorithm}; c=relaxed/relaxed; d=example.com; s=sel1; t=1767323045;`);
+    expect(header).toContain('h=from:to:subject:date:message-id:mime-version:content-type;');
+    expect(signed.split('\r\n').every((line) => line.length <= 998)).toBe(true);
+    expect(verifyDkim(signed, key.publicKey)).toBe(true);
+  });
+
+  it('fails verification when the body is altered', () => {
+    const key = generateDkimKey('example.com', 'sel1', 'ed25519-sha256');
+    const signed = signDkim(sampleMessage(), key, now);
+    expect(verifyDkim(signed.replace('Hello', 'Howdy'), key.publicKey)).toBe(false);
+  });
+
+  it('refuses messages without a From header', () => {
+    const key = generateDkimKey('example.com', 'sel1', 'ed25519-sha256');
+    expect(() => signDkim('Subject: x\r\n\r\nbody\r\n', key)).toThrow(/From header/);
+  });
+});
+
+describe('DKIM keys', () => {
+  it('imports an existing PEM key and derives the DNS record', () => {
+    const { privateKey } = generateKeyPairSync('ed25519');
+    const key: DkimKey = importDkimKey(
+      'example.com',
+      'mail',
+      privateKey.export({ type: 'pkcs8', format: 'pem' }).toString()
+    );
+
+    expect(key.algorithm).toBe('ed25519-sha256');
+    expect(Buffer.from(key.publicKey, 'base64')).toHaveLength(32);
+    expect(dkimDnsRecord(key)).toEqual({
+      type: 'TXT',
+      name: 'mail._domainkey.example.com',
+      value: `v=DKIM1; k=ed25519; p=${key.publicKey}`,
+    });
+  });
+
+  it('rejects unsupported key types', () => {
+    const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'P-256' });
+    expect(() =>
+      importDkimKey('example.com', 'mail', privateKey.export({ type: 'pkcs8', format: 'pem' }).toString())
+    ).toThrow(/RSA or Ed25519/);
+  });
+});
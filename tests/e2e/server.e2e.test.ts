@@ -5,6 +5,7 @@
 
 import { describe, it, expect, beforeAll, afterAll } from 'vitest';
 import type { Server } from 'node:http';
+import { generateKeyPairSync } from 'node:crypto';
 import { app } from '../../src/index.js';
 
 let server: Server;
@@ -66,6 +67,23 @@ describe('POST /accounts', () => {
     expect(account.updatedAt).toBeDefined();
   });
 
+  it('provisions local-dev accounts and activates them', async () => {
+    const res = await fetch(`${baseUrl}/accounts`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: JSON.stringify({
+        email: 'provision-e2e@example.com',
+        provider: 'local-dev',
+        credentials: { apiKey: 'never-returned' },
+      }),
+    });
+    expect(res.status).toBe(201);
+    const account = await res.json();
+    expect(account.status).toBe('active');
+    expect(account.provisionedAt).toBeDefined();
+    expect(account.credentials).toBeUndefined();
+  });
+
   it('returns 400 when provider invalid', async () => {
     const res = await fetch(`${baseUrl}/accounts`, {
       method: 'POST',
@@ -163,6 +181,69 @@ describe('GET /accounts/:id', () => {
   });
 });
 
+describe('PUT /accounts/:id/agents', () => {
+  it('replaces the agents that own an account', async () => {
+    const createRes = await fetch(`${baseUrl}/accounts`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: JSON.stringify({
+        email: 'owned-e2e@example.com',
+        provider: 'local-dev',
+        agentIds: ['agent-a'],
+      }),
+    });
+    const created = await createRes.json();
+    expect(created.agentIds).toEqual(['agent-a']);
+
+    const res = await fetch(`${baseUrl}/accounts/${created.id}/agents`, {
+      method: 'PUT',
+      headers: authHeaders,
+      body: JSON.stringify({ agentIds: ['agent-b', 'agent-c'] }),
+    });
+    expect(res.status).toBe(200);
+    expect((await res.json()).agentIds).toEqual(['agent-b', 'agent-c']);
+  });
+
+  it('validates agentIds', async () => {
+    const res = await fetch(`${baseUrl}/accounts/00000000-0000-0000-0000-000000000000/agents`, {
+      method: 'PUT',
+      headers: authHeaders,
+      body: JSON.stringify({ agentIds: 'agent-a' }),
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
+describe('POST /accounts/:id/reprovision', () => {
+  it('returns 502 with provisioningError when provider is not configured', async () => {
+    const createRes = await fetch(`${baseUrl}/accounts`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: JSON.stringify({ email: 'reprovision-e2e@example.com', provider: 'sendgrid' }),
+    });
+    const created = await createRes.json();
+    expect(created.provisioningError).toBeDefined();
+
+    const res = await fetch(`${baseUrl}/accounts/${created.id}/reprovision`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: '{}',
+    });
+    expect(res.status).toBe(502);
+    const body = await res.json();
+    expect(body.error).toContain('Provisioning failed');
+    expect(body.account.status).toBe('pending');
+  });
+
+  it('returns 404 when not found', async () => {
+    const res = await fetch(
+      `${baseUrl}/accounts/00000000-0000-0000-0000-000000000000/reprovision`,
+      { method: 'POST', headers: authHeaders, body: '{}' }
+    );
+    expect(res.status).toBe(404);
+  });
+});
+
 describe('GET /credits/:tenantId', () => {
   it('returns balance for tenant', async () => {
     const res = await fetch(`${baseUrl}/credits/tenant-e2e`, {
@@ -191,6 +272,47 @@ describe('GET /credits/:tenantId', () => {
   });
 });
 
+describe('/suppressions', () => {
+  it('adds, lists and removes a suppression', async () => {
+    const created = await fetch(`${baseUrl}/suppressions`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: JSON.stringify({ email: 'Blocked@Example.com', detail: 'requested removal' })
+    });
+    expect(created.status).toBe(201);
+    expect(await created.json()).toMatchObject({
+      email: 'blocked@example.com',
+      reason: 'manual'
+    });
+
+    const listed = await fetch(`${baseUrl}/suppressions?email=blocked@example.com`, {
+      headers: authHeaders
+    });
+    expect((await listed.json()).data).toHaveLength(1);
+
+    const removed = await fetch(`${baseUrl}/suppressions/blocked@example.com`, {
+      method: 'DELETE',
+      headers: authHeaders
+    });
+    expect(removed.status).toBe(204);
+
+    const again = await fetch(`${baseUrl}/suppressions/blocked@example.com`, {
+      method: 'DELETE',
+      headers: authHeaders
+    });
+    expect(again.status).toBe(404);
+  });
+
+  it('rejects an unknown reason', async () => {
+    const res = await fetch(`${baseUrl}/suppressions`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: JSON.stringify({ email: 'x@example.com', reason: 'spite' })
+    });
+    expect(res.status).toBe(400);
+  });
+});
+
 describe('POST /emails/send', () => {
   it('returns 401 without X-Attestation (agent route, not API key)', async () => {
     const res = await fetch(`${baseUrl}/emails/send`, {
@@ -209,3 +331,117 @@ describe('POST /emails/send', () => {
     expect(body.hint).toContain('X-Attestation');
   });
 });
+
+describe('POST /emails/batch', () => {
+  it('returns 401 without X-Attestation', async () => {
+    const res = await fetch(`${baseUrl}/emails/batch`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: JSON.stringify({ messages: [{ to: 'test@example.com', subject: 'Test', text: 'Body' }] }),
+    });
+    expect(res.status).toBe(401);
+  });
+});
+
+describe('DELETE /emails/:id', () => {
+  it('returns 401 without X-Attestation', async () => {
+    const res = await fetch(`${baseUrl}/emails/00000000-0000-0000-0000-000000000000`, {
+      method: 'DELETE',
+      headers: authHeaders,
+    });
+    expect(res.status).toBe(401);
+  });
+});
+
+describe('/dkim/keys', () => {
+  it('generates a key, returns its DNS record and removes it', async () => {
+    const created = await fetch(`${baseUrl}/dkim/keys`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: JSON.stringify({ domain: 'Mail.Example.com', algorithm: 'ed25519-sha256' }),
+    });
+    expect(created.status).toBe(201);
+    const key = await created.json();
+    expect(key).toMatchObject({
+      domain: 'mail.example.com',
+      selector: 'ernest',
+      algorithm: 'ed25519-sha256',
+      dnsRecord: { type: 'TXT', name: 'ernest._domainkey.mail.example.com' },
+    });
+    expect(key.dnsRecord.value).toMatch(/^v=DKIM1; k=ed25519; p=[A-Za-z0-9+/]+=*$/);
+    expect(key.privateKey).toBeUndefined();
+
+    const fetched = await fetch(`${baseUrl}/dkim/keys/mail.example.com`, { headers: authHeaders });
+    expect((await fetched.json()).dnsRecord).toEqual(key.dnsRecord);
+
+    const removed = await fetch(`${baseUrl}/dkim/keys/mail.example.com`, {
+      method: 'DELETE',
+      headers: authHeaders,
+    });
+    expect(removed.status).toBe(204);
+    const missing = await fetch(`${baseUrl}/dkim/keys/mail.example.com`, { headers: authHeaders });
+    expect(missing.status).toBe(404);
+  });
+
+  it('validates domain and algorithm', async () => {
+    const badDomain = await fetch(`${baseUrl}/dkim/keys`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: JSON.stringify({ domain: 'not a domain' }),
+    });
+    expect(badDomain.status).toBe(400);
+    const badAlgorithm = await fetch(`${baseUrl}/dkim/keys`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: JSON.stringify({ domain: 'example.com', algorithm: 'rsa-sha1' }),
+    });
+    expect(badAlgorithm.status).toBe(400);
+  });
+
+  it('rejects a privateKey that does not match the algorithm', async () => {
+    const { privateKey } = generateKeyPairSync('ed25519');
+    const res = await fetch(`${baseUrl}/dkim/keys`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: JSON.stringify({
+        domain: 'example.com',
+        algorithm: 'rsa-sha256',
+        privateKey: privateKey.export({ type: 'pkcs8', format: 'pem' }),
+      }),
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toContain('ed25519-sha256');
+  });
+});
+
+describe('/templates', () => {
+  it('creates, updates, lists and deletes a template', async () => {
+    const created = await fetch(`${baseUrl}/templates`, {
+      method: 'POST',
+      headers: authHeaders,
+      body: JSON.stringify({ name: 'welcome', subject: 'Hi {{name}}', text: 'Welcome, {{name}}' }),
+    });
+    expect(created.status).toBe(201);
+    const template = await created.json();
+    expect(template).toMatchObject({ name: 'welcome', variables: ['name'] });
+
+    const patched = await fetch(`${baseUrl}/templates/${template.id}`, {
+      method: 'PATCH',
+      headers: authHeaders,
+      body: JSON.stringify({ html: '<p>{{greeting}}</p>' }),
+    });
+    expect(patched.status).toBe(200);
+    expect((await patched.json()).variables).toEqual(['greeting', 'name']);
+
+    const listed = await fetch(`${baseUrl}/templates`, { headers: authHeaders });
+    expect((await listed.json()).data.map((t: { id: string }) => t.id)).toContain(template.id);
+
+    const removed = await fetch(`${baseUrl}/templates/${template.id}`, {
+      method: 'DELETE',
+      headers: authHeaders,
+    });
+    expect(removed.status).toBe(204);
+    const missing = await fetch(`${baseUrl}/templates/${template.id}`, { headers: authHeaders });
+    expect(missing.status).toBe(404);
+  });
+});
@@ -14,3 +14,17 @@ process.env.WALLET_PATH =
   process.env.WALLET_PATH ?? join(e2eTmp, 'wallets.json');
 process.env.AGENTS_PATH =
   process.env.AGENTS_PATH ?? join(e2eTmp, 'agents.json');
+process.env.CREDENTIALS_PATH =
+  process.env.CREDENTIALS_PATH ?? join(e2eTmp, 'credentials.json');
+process.env.CREDENTIALS_MASTER_KEY =
+  process.env.CREDENTIALS_MASTER_KEY ?? Buffer.alloc(32, 7).toString('base64');
+process.env.OUTBOUND_QUEUE_PATH =
+  process.env.OUTBOUND_QUEUE_PATH ?? join(e2eTmp, 'outbound-queue.json');
+process.env.MESSAGES_PATH =
+  process.env.MESSAGES_PATH ?? join(e2eTmp, 'messages.json');
+process.env.SUPPRESSIONS_PATH =
+  process.env.SUPPRESSIONS_PATH ?? join(e2eTmp, 'suppressions.json');
+process.env.TEMPLATES_PATH =
+  process.env.TEMPLATES_PATH ?? join(e2eTmp, 'templates.json');
+process.env.DKIM_KEYS_PATH =
+  process.env.DKIM_KEYS_PATH ?? join(e2eTmp, 'dkim-keys.json');
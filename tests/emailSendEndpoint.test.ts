@@ -10,6 +10,11 @@ import { tmpdir } from 'node:os';
 import { FileAccountRepository } from '../src/fileAccountRepository.js';
 import { FileWalletStore } from '../src/fileWalletStore.js';
 import { processSendEmail } from '../src/handlers/sendEmail.js';
+import { FileCredentialVault } from '../src/secrets/credentialVault.js';
+import { FileOutboundQueue } from '../src/queue/outboundQueue.js';
+import { FileMessageRepository } from '../src/fileMessageRepository.js';
+import { FileSuppressionStore } from '../src/fileSuppressionStore.js';
+import { FileTemplateRepository } from '../src/fileTemplateRepository.js';
 import {
   LocalDevProviderAdapter,
   getProviderAdapter,
@@ -118,7 +123,7 @@ describe('processSendEmail', () => {
     expect(result.body).toMatchObject({
       status: 'sent',
       provider: 'local-dev',
-      to: 'receiver@example.com',
+      to: ['receiver@example.com'],
     });
     expect((result.body as { id?: string }).id).toBeDefined();
   });
@@ -173,9 +178,39 @@ describe('processSendEmail', () => {
     );
 
     expect(result.status).toBe(202);
+    expect(result.body).toMatchObject({ balance: 9 });
     expect(await walletStore.getBalance('tenant-ok')).toBe(9);
   });
 
+  it('refunds reserved credits when the send fails', async () => {
+    const account = await createAccount(`refund-${Date.now()}@example.com`);
+    await walletStore.add('tenant-refund', 5);
+
+    const result = await processSendEmail(
+      {
+        accountId: account.id,
+        to: 'receiver@example.com',
+        subject: 'Hello',
+        text: 'Hi',
+        tenantId: 'tenant-refund'
+      },
+      {
+        accountRepository: repo,
+        getProviderAdapter: () => ({
+          provider: 'local-dev',
+          provisionAccount: vi.fn(),
+          sendEmail: vi.fn().mockRejectedValue(new Error('provider down')),
+        }),
+        walletStore,
+        creditsPerEmail: 2
+      }
+    );
+
+    expect(result.status).toBe(502);
+    expect(result.body).toMatchObject({ error: 'provider down', balance: 5 });
+    expect(await walletStore.getBalance('tenant-refund')).toBe(5);
+  });
+
   it('skips credit check for admin tenant (ADMIN_TENANT_IDS)', async () => {
     vi.stubEnv('ADMIN_TENANT_IDS', 'admin-tenant');
     const account = await createAccount(`admin-${Date.now()}@example.com`);
@@ -220,4 +255,384 @@ describe('processSendEmail', () => {
 
     expect(result.status).toBe(202);
   });
+
+  it('passes vault credentials to the provider adapter', async () => {
+    const account = await createAccount(`vault-${Date.now()}@example.com`);
+    const vault = new FileCredentialVault(join(tmpDir, 'credentials.json'), {
+      keys: new Map([[1, Buffer.alloc(32, 9)]]),
+      activeVersion: 1
+    });
+    await vault.set(account.id, { apiKey: 'account-key' });
+    const adapter = new LocalDevProviderAdapter();
+    const spy = vi.spyOn(adapter, 'sendEmail');
+
+    const result = await processSendEmail(
+      {
+        accountId: account.id,
+        to: 'receiver@example.com',
+        subject: 'Hello',
+        text: 'Hi'
+      },
+      {
+        accountRepository: repo,
+        getProviderAdapter: () => adapter,
+        credentialVault: vault
+      }
+    );
+
+    expect(result.status).toBe(202);
+    expect(spy).toHaveBeenCalledWith(
+      expect.objectContaining({ credentials: { apiKey: 'account-key' } })
+    );
+  });
+
+  it('fails over to the next provider on a transient error', async () => {
+    const account = await repo.create({
+      email: `failover-${Date.now()}@example.com`,
+      provider: 'resend',
+      failoverProviders: ['local-dev'],
+    });
+    const outage = Object.assign(new Error('Service unavailable'), { status: 503 });
+    const resend = {
+      provider: 'resend',
+      provisionAccount: vi.fn(),
+      sendEmail: vi.fn().mockRejectedValue(outage),
+    } as unknown as ReturnType<typeof getProviderAdapter>;
+    const localDev = new LocalDevProviderAdapter();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const result = await processSendEmail(
+      {
+        accountId: account.id,
+        to: 'receiver@example.com',
+        subject: 'Hello',
+        text: 'Hi'
+      },
+      {
+        accountRepository: repo,
+        getProviderAdapter: (provider) => (provider === 'resend' ? resend : localDev)
+      }
+    );
+
+    expect(result.status).toBe(202);
+    expect(result.body).toMatchObject({ provider: 'local-dev', status: 'sent' });
+    expect(resend.sendEmail).toHaveBeenCalledTimes(1);
+  });
+
+  it('queues the email with its credit hold when a queue is configured', async () => {
+    const account = await createAccount(`queued-${Date.now()}@example.com`);
+    await walletStore.add('tenant-queue', 3);
+    const queue = new FileOutboundQueue(join(tmpDir, 'queue.json'));
+    const messages = new FileMessageRepository(join(tmpDir, 'messages.json'));
+    const adapter = new LocalDevProviderAdapter();
+    const spy = vi.spyOn(adapter, 'sendEmail');
+
+    const result = await processSendEmail(
+      {
+        accountId: account.id,
+        to: 'receiver@example.com',
+        subject: 'Hello',
+        text: 'Hi',
+        tenantId: 'tenant-queue'
+      },
+      {
+        accountRepository: repo,
+        getProviderAdapter: () => adapter,
+        walletStore,
+        outboundQueue: queue,
+        messageRepository: messages
+      },
+      { agentId: 'agent-1' }
+    );
+
+    expect(result.status).toBe(202);
+    expect(result.body).toMatchObject({ status: 'queued', balance: 2 });
+    expect(spy).not.toHaveBeenCalled();
+    const queued = await queue.get((result.body as { id: string }).id);
+    expect(queued).toMatchObject({
+      accountId: account.id,
+      agentId: 'agent-1',
+      tenantId: 'tenant-queue',
+      status: 'queued',
+    });
+    expect(queued!.holdId).toBeDefined();
+    expect(await messages.getById(queued!.id)).toMatchObject({
+      agentId: 'agent-1',
+      status: 'queued',
+      cost: 1,
+      to: ['receiver@example.com'],
+    });
+  });
+
+  it('rejects suppressed recipients before reserving credits', async () => {
+    const account = await createAccount(`suppressed-${Date.now()}@example.com`);
+    await walletStore.add('tenant-supp', 3);
+    const suppressions = new FileSuppressionStore(join(tmpDir, 'suppressions.json'));
+    await suppressions.add({ email: 'gone@example.com', reason: 'bounce', detail: 'mailbox unknown' });
+    const adapter = new LocalDevProviderAdapter();
+    const spy = vi.spyOn(adapter, 'sendEmail');
+
+    const result = await processSendEmail(
+      {
+        accountId: account.id,
+        to: 'Gone@example.com',
+        subject: 'Hello',
+        text: 'Hi',
+        tenantId: 'tenant-supp'
+      },
+      {
+        accountRepository: repo,
+        getProviderAdapter: () => adapter,
+        walletStore,
+        suppressionStore: suppressions
+      }
+    );
+
+    expect(result.status).toBe(422);
+    expect(result.body).toMatchObject({
+      error: 'Recipient is suppressed',
+      suppressed: [
+        { recipient: 'Gone@example.com', reason: 'bounce', detail: 'mailbox unknown', scope: 'global' }
+      ]
+    });
+    expect(spy).not.toHaveBeenCalled();
+    expect(await walletStore.getBalance('tenant-supp')).toBe(3);
+  });
+
+  it('sends to, cc and bcc and charges credits per unique recipient', async () => {
+    const account = await createAccount(`multi-${Date.now()}@example.com`);
+    await walletStore.add('tenant-multi', 10);
+    const adapter = new LocalDevProviderAdapter();
+    const spy = vi.spyOn(adapter, 'sendEmail');
+
+    const result = await processSendEmail(
+      {
+        accountId: account.id,
+        to: ['a@example.com', 'b@example.com'],
+        cc: 'c@example.com',
+        bcc: ['d@example.com', 'A@example.com'],
+        subject: 'Hello',
+        text: 'Hi',
+        tenantId: 'tenant-multi'
+      },
+      {
+        accountRepository: repo,
+        getProviderAdapter: () => adapter,
+        walletStore,
+        creditsPerEmail: 2
+      }
+    );
+
+    expect(result.status).toBe(202);
+    expect(result.body).toMatchObject({ balance: 2 });
+    expect(spy).toHaveBeenCalledWith(expect.objectContaining({
+      to: ['a@example.com', 'b@example.com'],
+      cc: ['c@example.com'],
+      bcc: ['d@example.com'],
+    }));
+  });
+
+  it('passes attachments to the provider and rejects oversized ones', async () => {
+    vi.stubEnv('MAX_ATTACHMENT_BYTES', '16');
+    const account = await createAccount(`attach-${Date.now()}@example.com`);
+    const adapter = new LocalDevProviderAdapter();
+    const send = (content: string) =>
+      processSendEmail(
+        {
+          accountId: account.id,
+          to: 'a@example.com',
+          subject: 'Report',
+          text: 'attached',
+          attachments: [{ filename: 'r.txt', content, contentType: 'text/plain' }]
+        },
+        { accountRepository: repo, getProviderAdapter: () => adapter }
+      );
+
+    const ok = await send(Buffer.from('small').toString('base64'));
+    expect(ok.status).toBe(202);
+    expect((ok.body as { raw: { echo: unknown } }).raw.echo).toMatchObject({
+      attachments: [{ filename: 'r.txt', contentType: 'text/plain', size: 5 }]
+    });
+
+    const tooBig = await send(Buffer.alloc(32).toString('base64'));
+    expect(tooBig.status).toBe(413);
+  });
+
+  it('renders subject and bodies from a template', async () => {
+    const account = await createAccount(`template-${Date.now()}@example.com`);
+    const templateRepository = new FileTemplateRepository(join(tmpDir, 'templates.json'));
+    const template = await templateRepository.create({
+      name: 'alert',
+      subject: 'Alert: {{title}}',
+      text: '{{title}} at {{time}}',
+      html: '<p>{{title}}</p>',
+    });
+    const adapter = new LocalDevProviderAdapter();
+    const spy = vi.spyOn(adapter, 'sendEmail');
+    const deps = { accountRepository: repo, getProviderAdapter: () => adapter, templateRepository };
+
+    const result = await processSendEmail(
+      {
+        accountId: account.id,
+        to: 'a@example.com',
+        templateId: template.id,
+        variables: { title: 'Disk <full>', time: '12:00' },
+      },
+      deps
+    );
+
+    expect(result.status).toBe(202);
+    expect(spy).toHaveBeenCalledWith(expect.objectContaining({
+      subject: 'Alert: Disk <full>',
+      text: 'Disk <full> at 12:00',
+      html: '<p>Disk &lt;full&gt;</p>',
+    }));
+
+    const missing = await processSendEmail(
+      { accountId: account.id, to: 'a@example.com', templateId: template.id, variables: { title: 'x' } },
+      deps
+    );
+    expect(missing).toMatchObject({ status: 422, body: { missing: ['time'] } });
+
+    const mixed = await processSendEmail(
+      { accountId: account.id, to: 'a@example.com', templateId: template.id, subject: 'raw' },
+      deps
+    );
+    expect(mixed.status).toBe(400);
+
+    const unknown = await processSendEmail(
+      { accountId: account.id, to: 'a@example.com', templateId: 'nope' },
+      deps
+    );
+    expect(unknown.status).toBe(404);
+  });
+
+  it('threads a reply to a received email', async () => {
+    const account = await repo.create({
+      email: `reply-${Date.now()}@example.com`,
+      provider: 'local-dev',
+      agentIds: ['agent-1'],
+    });
+    const adapter = new LocalDevProviderAdapter();
+    const spy = vi.spyOn(adapter, 'sendEmail');
+    const getReceivedEmail = vi.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      data: {
+        object: 'email',
+        id: 'recv-1',
+        to: [account.email],
+        from: 'customer@example.org',
+        created_at: new Date().toISOString(),
+        subject: 'Invoice question',
+        message_id: '<m2@example.org>',
+        headers: { references: '<m0@example.org> <m1@example.org>' },
+      },
+    });
+
+    const reply = {
+      accountId: account.id,
+      to: 'customer@example.org',
+      text: 'Happy to help',
+      replyToReceivedId: 'recv-1',
+      headers: { 'X-Ticket': '42' },
+    };
+    const deps = { accountRepository: repo, getProviderAdapter: () => adapter, getReceivedEmail };
+
+    // Agents can only reply to mail they could read via /emails/received/:id.
+    expect(await processSendEmail(reply, deps, { agentId: 'agent-2' })).toEqual({
+      status: 404,
+      body: { error: 'Received email not found' },
+    });
+
+    const result = await processSendEmail(reply, deps, { agentId: 'agent-1' });
+    expect(result.status).toBe(202);
+    expect(getReceivedEmail).toHaveBeenCalledWith('recv-1');
+    expect(spy).toHaveBeenCalledWith(expect.objectContaining({
+      subject: 'Re: Invoice question',
+      inReplyTo: '<m2@example.org>',
+      references: ['<m0@example.org>', '<m1@example.org>', '<m2@example.org>'],
+      headers: { 'X-Ticket': '42' },
+    }));
+  });
+
+  it('validates threading fields and custom headers', async () => {
+    const account = await createAccount(`thread-${Date.now()}@example.com`);
+    const deps = {
+      accountRepository: repo,
+      getProviderAdapter,
+      getReceivedEmail: vi.fn().mockResolvedValue({ ok: false, status: 404, error: 'not found' }),
+    };
+    const send = (extra: Record<string, unknown>) =>
+      processSendEmail({ accountId: account.id, to: 'a@example.com', subject: 'Hi', text: 'x', ...extra }, deps);
+
+    expect(await send({ inReplyTo: 'not a message id' })).toEqual({
+      status: 400,
+      body: { error: 'inReplyTo must be a Message-ID' },
+    });
+    expect((await send({ references: ['<a@example.com>', 'nope'] })).status).toBe(400);
+    expect(await send({ headers: { Subject: 'spoofed' } })).toEqual({
+      status: 400,
+      body: { error: 'header Subject cannot be set' },
+    });
+    expect((await send({ headers: { 'X-Evil': 'a\r\nBcc: x@example.com' } })).status).toBe(400);
+    expect((await send({ replyToReceivedId: 'recv-1', inReplyTo: '<a@example.com>' })).status).toBe(400);
+    expect(await send({ replyToReceivedId: 'missing' })).toEqual({
+      status: 404,
+      body: { error: 'Received email not found' },
+    });
+
+    const plain = await send({ in_reply_to: 'parent@example.org', references: 'root@example.org' });
+    expect(plain.status).toBe(202);
+  });
+
+  it('rejects invalid cc and bcc addresses', async () => {
+    const account = await createAccount(`badcc-${Date.now()}@example.com`);
+
+    const badCc = await processSendEmail(
+      { accountId: account.id, to: 'a@example.com', cc: ['ok@example.com', 'nope'], subject: 'Hi', text: 'Hi' },
+      { accountRepository: repo, getProviderAdapter }
+    );
+    const badBcc = await processSendEmail(
+      { accountId: account.id, to: 'a@example.com', bcc: 42 as unknown as string, subject: 'Hi', text: 'Hi' },
+      { accountRepository: repo, getProviderAdapter }
+    );
+    const emptyTo = await processSendEmail(
+      { accountId: account.id, to: [], cc: 'c@example.com', subject: 'Hi', text: 'Hi' },
+      { accountRepository: repo, getProviderAdapter }
+    );
+
+    expect(badCc.status).toBe(400);
+    expect(badBcc.status).toBe(400);
+    expect(emptyTo).toMatchObject({ status: 400, body: { error: 'valid to email required' } });
+  });
+
+  it('rejects addresses that would split into other recipients', async () => {
+    const account = await createAccount(`split-${Date.now()}@example.com`);
+    for (const to of ['a,b@c.com', 'x<evil@d.com>y@b.com', 'a;b@c.com', '"a"@b.com', 'a@b.com,c', 'a@b(c).com']) {
+      const result = await processSendEmail(
+        { accountId: account.id, to, subject: 'Hi', text: 'Hi' },
+        { accountRepository: repo, getProviderAdapter }
+      );
+      expect(result.status).toBe(400);
+    }
+  });
+
+  it('enforces the per-tenant recipient limit', async () => {
+    vi.stubEnv('MAX_RECIPIENTS_PER_EMAIL', '3');
+    vi.stubEnv('TENANT_MAX_RECIPIENTS', 'tenant-solo:1');
+    const account = await createAccount(`limit-${Date.now()}@example.com`);
+    const adapter = new LocalDevProviderAdapter();
+    const send = (to: string[], tenantId?: string) =>
+      processSendEmail(
+        { accountId: account.id, to, subject: 'Hi', text: 'Hi', tenantId },
+        { accountRepository: repo, getProviderAdapter: () => adapter }
+      );
+
+    expect((await send(['a@example.com', 'b@example.com', 'c@example.com'])).status).toBe(202);
+    expect(await send(['a@example.com', 'b@example.com', 'c@example.com', 'd@example.com']))
+      .toMatchObject({ status: 400, body: { error: 'Too many recipients', recipients: 4, max: 3 } });
+    expect(await send(['a@example.com', 'b@example.com'], 'tenant-solo'))
+      .toMatchObject({ status: 400, body: { max: 1 } });
+  });
 });
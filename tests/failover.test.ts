@@ -0,0 +1,223 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+import type { Account, AccountProvider } from '../src/accounts.js';
+import type { ProviderAdapter, SendEmailInput } from '../src/providers.js';
+import {
+  ProviderFailoverError,
+  isTransientProviderError,
+  isUndeliveredProviderError,
+  resolveProviderChain,
+  sendWithFailover,
+} from '../src/providers/failover.js';
+import { SmtpNotSentError, SmtpReplyError } from '../src/providers/smtpClient.js';
+
+function makeAccount(overrides: Partial<Account> = {}): Account {
+  const now = new Date().toISOString();
+  return {
+    id: 'acct-1',
+    email: 'sender@example.com',
+    provider: 'resend',
+    status: 'active',
+    createdAt: now,
+    updatedAt: now,
+    ...overrides,
+  };
+}
+
+function makeAdapter(provider: AccountProvider, outcome: Error | null): ProviderAdapter {
+  return {
+    provider,
+    provisionAccount: vi.fn(),
+    sendEmail: outcome
+      ? vi.fn().mockRejectedValue(outcome)
+      : vi.fn().mockImplementation(async (input: SendEmailInput) => ({
+          id: `${provider}-1`,
+          provider,
+          to: input.to,
+          status: 'queued',
+        })),
+  };
+}
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+describe('resolveProviderChain', () => {
+  beforeEach(() => {
+    vi.stubEnv('PROVIDER_FAILOVER_CHAIN', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses only the account provider when no chain is configured', () => {
+    expect(resolveProviderChain(makeAccount())).toEqual(['resend']);
+  });
+
+  it('appends the global chain after the account provider without duplicates', () => {
+    vi.stubEnv('PROVIDER_FAILOVER_CHAIN', 'resend, ses,smtp,bogus');
+    expect(resolveProviderChain(makeAccount({ provider: 'ses' }))).toEqual([
+      'ses',
+      'resend',
+      'smtp',
+    ]);
+  });
+
+  it('prefers the account failoverProviders over the global chain', () => {
+    vi.stubEnv('PROVIDER_FAILOVER_CHAIN', 'ses');
+    expect(
+      resolveProviderChain(makeAccount({ failoverProviders: ['smtp'] }))
+    ).toEqual(['resend', 'smtp']);
+  });
+});
+
+describe('isTransientProviderError', () => {
+  it('treats 5xx, 429 and timeouts as transient', () => {
+    expect(isTransientProviderError(httpError(503))).toBe(true);
+    expect(isTransientProviderError(httpError(429))).toBe(true);
+    expect(isTransientProviderError(new DOMException('timed out', 'TimeoutError'))).toBe(true);
+    expect(isTransientProviderError(new TypeError('fetch failed'))).toBe(true);
+    expect(
+      isTransientProviderError(Object.assign(new Error('connect'), { code: 'ECONNREFUSED' }))
+    ).toBe(true);
+  });
+
+  it('classifies SMTP replies by code', () => {
+    expect(isTransientProviderError(new SmtpReplyError('busy', 421))).toBe(true);
+    expect(isTransientProviderError(new SmtpReplyError('auth failed', 535))).toBe(false);
+  });
+
+  it('treats client and configuration errors as permanent', () => {
+    expect(isTransientProviderError(httpError(400))).toBe(false);
+    expect(isTransientProviderError(new Error('RESEND_API_KEY is required'))).toBe(false);
+  });
+});
+
+describe('isUndeliveredProviderError', () => {
+  it('accepts refusals and failures to connect', () => {
+    expect(isUndeliveredProviderError(httpError(503))).toBe(true);
+    expect(isUndeliveredProviderError(new SmtpReplyError('busy', 421))).toBe(true);
+    expect(isUndeliveredProviderError(new SmtpNotSentError(new Error('SMTP connection timed out')))).toBe(true);
+    expect(
+      isUndeliveredProviderError(
+        new TypeError('fetch failed', { cause: Object.assign(new Error('connect'), { code: 'ECONNREFUSED' }) })
+      )
+    ).toBe(true);
+  });
+
+  it('rejects timeouts and dropped connections, which may follow acceptance', () => {
+    expect(isUndeliveredProviderError(new DOMException('timed out', 'TimeoutError'))).toBe(false);
+    expect(isUndeliveredProviderError(new Error('SMTP connection timed out'))).toBe(false);
+    expect(isUndeliveredProviderError(new TypeError('fetch failed'))).toBe(false);
+    expect(isUndeliveredProviderError(Object.assign(new Error('reset'), { code: 'ECONNRESET' }))).toBe(false);
+    expect(isUndeliveredProviderError(httpError(504))).toBe(false);
+  });
+});
+
+describe('sendWithFailover', () => {
+  const input: SendEmailInput = {
+    account: makeAccount(),
+    to: ['to@example.com'],
+    subject: 'Hi',
+    text: 'Hello',
+  };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('moves to the next provider on a transient failure and logs it', async () => {
+    const adapters: Record<string, ProviderAdapter> = {
+      resend: makeAdapter('resend', httpError(502)),
+      ses: makeAdapter('ses', null),
+    };
+
+    const { result, attempts } = await sendWithFailover(
+      input,
+      ['resend', 'ses'],
+      (provider) => adapters[provider]
+    );
+
+    expect(result.provider).toBe('ses');
+    expect(attempts).toEqual([{ provider: 'resend', error: 'HTTP 502', transient: true }]);
+    const logged = JSON.parse(vi.mocked(console.log).mock.calls[0][0] as string);
+    expect(logged).toMatchObject({
+      level: 'warn',
+      msg: 'provider_failover',
+      failedProvider: 'resend',
+      nextProvider: 'ses',
+    });
+  });
+
+  it('passes stored credentials only to the account provider', async () => {
+    const resend = makeAdapter('resend', httpError(502));
+    const ses = makeAdapter('ses', null);
+    const adapters: Record<string, ProviderAdapter> = { resend, ses };
+
+    await sendWithFailover(
+      { ...input, credentials: { apiKey: 're_secret' } },
+      ['resend', 'ses'],
+      (provider) => adapters[provider]
+    );
+
+    expect(vi.mocked(resend.sendEmail).mock.calls[0][0].credentials).toEqual({ apiKey: 're_secret' });
+    expect(vi.mocked(ses.sendEmail).mock.calls[0][0].credentials).toBeUndefined();
+  });
+
+  it('does not fail over after a timeout, as the message may have been accepted', async () => {
+    const ses = makeAdapter('ses', null);
+    const adapters: Record<string, ProviderAdapter> = {
+      resend: makeAdapter('resend', new DOMException('timed out', 'TimeoutError')),
+      ses,
+    };
+
+    const err = await sendWithFailover(input, ['resend', 'ses'], (provider) => adapters[provider]).catch(
+      (e: unknown) => e
+    );
+
+    expect(err).toBeInstanceOf(ProviderFailoverError);
+    expect((err as ProviderFailoverError).attempts).toEqual([
+      { provider: 'resend', error: 'timed out', transient: true },
+    ]);
+    expect(ses.sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('stops on a permanent failure', async () => {
+    const ses = makeAdapter('ses', null);
+    const adapters: Record<string, ProviderAdapter> = {
+      resend: makeAdapter('resend', httpError(422)),
+      ses,
+    };
+
+    await expect(
+      sendWithFailover(input, ['resend', 'ses'], (provider) => adapters[provider])
+    ).rejects.toBeInstanceOf(ProviderFailoverError);
+    expect(ses.sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('reports every attempt when the whole chain fails', async () => {
+    const adapters: Record<string, ProviderAdapter> = {
+      resend: makeAdapter('resend', httpError(500)),
+      smtp: makeAdapter('smtp', new SmtpReplyError('try later', 451)),
+    };
+
+    const err = await sendWithFailover(
+      input,
+      ['resend', 'smtp'],
+      (provider) => adapters[provider]
+    ).catch((e: unknown) => e);
+
+    expect(err).toBeInstanceOf(ProviderFailoverError);
+    expect((err as ProviderFailoverError).message).toBe('try later');
+    expect((err as ProviderFailoverError).attempts.map((a) => a.provider)).toEqual([
+      'resend',
+      'smtp',
+    ]);
+  });
+});
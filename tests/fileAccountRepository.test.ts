@@ -177,6 +177,37 @@ describe('FileAccountRepository', () => {
     });
   });
 
+  describe('updateProvisioning', () => {
+    it('persists provisioning outcome and clears previous error', async () => {
+      const created = await repo.create({ email: 'prov@example.com', provider: 'smtp' });
+      await repo.updateProvisioning(created.id, { error: 'boom' });
+      expect((await repo.getById(created.id))!.provisioningError).toBe('boom');
+
+      const updated = await repo.updateProvisioning(created.id, {
+        status: 'active',
+        externalId: 'ext-1',
+        metadata: { host: 'smtp.example.com' },
+      });
+      expect(updated).toMatchObject({
+        status: 'active',
+        externalId: 'ext-1',
+        providerMetadata: { host: 'smtp.example.com' },
+      });
+      expect(updated!.provisionedAt).toBeDefined();
+      expect(updated!.provisioningError).toBeUndefined();
+    });
+
+    it('keeps status unchanged when provisioning fails', async () => {
+      const created = await repo.create({ email: 'fail@example.com', provider: 'smtp' });
+      const updated = await repo.updateProvisioning(created.id, { status: 'active', error: 'nope' });
+      expect(updated!.status).toBe('pending');
+    });
+
+    it('returns null when account not found', async () => {
+      expect(await repo.updateProvisioning('non-existent', { status: 'active' })).toBeNull();
+    });
+  });
+
   describe('atomic write', () => {
     it('writes via temp file then rename (no partial writes)', async () => {
       const filePath = join(tempDir, 'accounts.json');
@@ -207,6 +238,28 @@ describe('FileAccountRepository', () => {
     });
   });
 
+  describe('agent ownership', () => {
+    it('lists accounts by owning agent and replaces owners', async () => {
+      const owned = await repo.create({
+        email: 'owned@example.com',
+        provider: 'local-dev',
+        agentIds: ['agent-a', 'agent-a', 'agent-b'],
+      });
+      await repo.create({ email: 'unowned@example.com', provider: 'local-dev' });
+
+      expect(owned.agentIds).toEqual(['agent-a', 'agent-b']);
+      expect((await repo.listByAgent('agent-b')).map((a) => a.id)).toEqual([owned.id]);
+
+      const updated = await repo.updateAgents(owned.id, ['agent-c']);
+      expect(updated?.agentIds).toEqual(['agent-c']);
+      expect(await repo.listByAgent('agent-a')).toEqual([]);
+
+      const cleared = await repo.updateAgents(owned.id, []);
+      expect(cleared?.agentIds).toBeUndefined();
+      expect(await repo.updateAgents('missing', ['agent-a'])).toBeNull();
+    });
+  });
+
   describe('persistence', () => {
     it('persists across repository instances', async () => {
       const account = await repo.create({
@@ -0,0 +1,87 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { FileMessageRepository } from '../src/fileMessageRepository.js';
+
+describe('FileMessageRepository', () => {
+  let dir: string;
+  let repo: FileMessageRepository;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ernest-messages-'));
+    repo = new FileMessageRepository(join(dir, 'messages.json'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates a queued message with an initial event', async () => {
+    const message = await repo.create({
+      id: 'queue-id',
+      accountId: 'acct-1',
+      agentId: 'agent-1',
+      to: ['to@example.com'],
+      subject: 'Hi',
+      cost: 1,
+    });
+
+    expect(message).toMatchObject({ id: 'queue-id', status: 'queued', cost: 1 });
+    expect(message.events).toEqual([{ status: 'queued', at: message.createdAt }]);
+    expect(await repo.getById('queue-id')).toEqual(message);
+  });
+
+  it('rejects duplicate IDs', async () => {
+    await repo.create({ id: 'dup', accountId: 'a', to: ['to@example.com'], subject: 'Hi' });
+    await expect(
+      repo.create({ id: 'dup', accountId: 'a', to: ['to@example.com'], subject: 'Hi' })
+    ).rejects.toThrow('already exists');
+  });
+
+  it('records status transitions and finds messages by provider ID', async () => {
+    const message = await repo.create({ accountId: 'a', to: ['to@example.com'], subject: 'Hi' });
+
+    await repo.updateStatus(message.id, 'sent', { provider: 'ses', providerMessageId: 'ses-1' });
+    const bounced = await repo.updateStatus(message.id, 'bounced', { detail: 'mailbox full' });
+
+    expect(bounced).toMatchObject({ status: 'bounced', provider: 'ses', lastError: 'mailbox full' });
+    expect(bounced!.events.map((e) => e.status)).toEqual(['queued', 'sent', 'bounced']);
+    expect((await repo.getByProviderMessageId('ses-1'))?.id).toBe(message.id);
+    expect(await repo.updateStatus('missing', 'sent')).toBeNull();
+  });
+
+  it('lists newest first with agent, account, status and since filters', async () => {
+    const first = await repo.create({
+      accountId: 'acct-1',
+      agentId: 'agent-1',
+      to: ['a@example.com'],
+      subject: 'One',
+    });
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    const second = await repo.create({
+      accountId: 'acct-2',
+      agentId: 'agent-1',
+      to: ['b@example.com'],
+      subject: 'Two',
+      status: 'sent',
+    });
+    await repo.create({ accountId: 'acct-1', agentId: 'agent-2', to: ['c@example.com'], subject: 'Three' });
+
+    expect((await repo.list({ agentId: 'agent-1' })).map((m) => m.id)).toEqual([
+      second.id,
+      first.id,
+    ]);
+    expect((await repo.list({ agentId: 'agent-1', accountId: 'acct-1' })).map((m) => m.id)).toEqual([
+      first.id,
+    ]);
+    expect((await repo.list({ agentId: 'agent-1', status: 'sent' })).map((m) => m.id)).toEqual([
+      second.id,
+    ]);
+    expect(
+      (await repo.list({ agentId: 'agent-1', since: new Date(second.createdAt) })).map((m) => m.id)
+    ).toEqual([second.id]);
+    expect(await repo.list({ agentId: 'agent-1', limit: 1 })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { FileSuppressionStore } from '../src/fileSuppressionStore.js';
+
+describe('FileSuppressionStore', () => {
+  let dir: string;
+  let store: FileSuppressionStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ernest-suppressions-'));
+    store = new FileSuppressionStore(join(dir, 'suppressions.json'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('matches global suppressions for every account, case-insensitively', async () => {
+    await store.add({ email: 'Gone@Example.com', reason: 'bounce' });
+
+    expect(await store.find('gone@example.com', 'acct-1')).toMatchObject({ reason: 'bounce' });
+    expect(await store.find('GONE@example.com')).not.toBeNull();
+  });
+
+  it('scopes account suppressions to that account', async () => {
+    await store.add({ email: 'angry@example.com', accountId: 'acct-1', reason: 'complaint' });
+
+    expect(await store.find('angry@example.com', 'acct-1')).toMatchObject({
+      reason: 'complaint',
+      accountId: 'acct-1',
+    });
+    expect(await store.find('angry@example.com', 'acct-2')).toBeNull();
+  });
+
+  it('replaces an entry in the same scope and removes by scope', async () => {
+    await store.add({ email: 'x@example.com', reason: 'manual' });
+    await store.add({ email: 'x@example.com', reason: 'bounce', detail: 'hard' });
+    await store.add({ email: 'x@example.com', accountId: 'acct-1', reason: 'complaint' });
+
+    expect(await store.list({ email: 'x@example.com' })).toHaveLength(2);
+    expect(await store.remove('x@example.com')).toBe(true);
+    expect(await store.remove('x@example.com')).toBe(false);
+    expect(await store.list()).toEqual([
+      expect.objectContaining({ accountId: 'acct-1', reason: 'complaint' }),
+    ]);
+  });
+});
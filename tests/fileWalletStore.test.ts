@@ -47,6 +47,51 @@ describe('FileWalletStore', () => {
     expect(await store.getBalance('tenant-a')).toBe(7);
   });
 
+  it('reserve debits the balance and commit keeps the debit', async () => {
+    await store.add('tenant-a', 10);
+    const reservation = await store.reserve('tenant-a', 4);
+    expect(reservation).toMatchObject({ success: true, newBalance: 6 });
+    expect(await store.getBalance('tenant-a')).toBe(6);
+
+    const committed = await store.commit(reservation.hold!.id);
+    expect(committed).toEqual({ success: true, newBalance: 6 });
+    expect(await store.commit(reservation.hold!.id)).toEqual({
+      success: false,
+      newBalance: null
+    });
+  });
+
+  it('release refunds a hold exactly once', async () => {
+    await store.add('tenant-a', 10);
+    const reservation = await store.reserve('tenant-a', 4);
+
+    expect(await store.release(reservation.hold!.id)).toEqual({
+      success: true,
+      newBalance: 10
+    });
+    expect(await store.release(reservation.hold!.id)).toMatchObject({ success: false });
+    expect(await store.getBalance('tenant-a')).toBe(10);
+  });
+
+  it('reserve fails without a hold when insufficient', async () => {
+    await store.add('tenant-a', 2);
+    const reservation = await store.reserve('tenant-a', 3);
+    expect(reservation).toEqual({ success: false, newBalance: 2 });
+    expect(await store.getBalance('tenant-a')).toBe(2);
+  });
+
+  it('reserveAll holds every amount or none', async () => {
+    await store.add('tenant-a', 5);
+    expect(await store.reserveAll('tenant-a', [2, 2, 2])).toEqual({ success: false, newBalance: 5 });
+
+    const reservation = await store.reserveAll('tenant-a', [2, 3]);
+    expect(reservation).toMatchObject({ success: true, newBalance: 0 });
+    expect(reservation.holds!.map((hold) => hold.amount)).toEqual([2, 3]);
+
+    await store.release(reservation.holds![1].id);
+    expect(await store.getBalance('tenant-a')).toBe(3);
+  });
+
   it('deduct returns success false when insufficient', async () => {
     await store.add('tenant-a', 5);
     const result = await store.deduct('tenant-a', 10);
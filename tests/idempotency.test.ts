@@ -0,0 +1,147 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Request, Response } from 'express';
+import {
+  createIdempotencyMiddleware,
+  InMemoryIdempotencyStore,
+} from '../src/middleware/idempotency.js';
+
+function mockReq(body: unknown, key?: string, agentId = 'agent-1'): Request {
+  return {
+    method: 'POST',
+    path: '/emails/send',
+    headers: key ? { 'idempotency-key': key } : {},
+    body,
+    agentId,
+  } as unknown as Request;
+}
+
+function mockRes() {
+  const res = {
+    statusCode: 200,
+    locals: { requestId: 'req-1' },
+    headers: {} as Record<string, string>,
+    body: undefined as unknown,
+    setHeader(key: string, value: string) {
+      this.headers[key.toLowerCase()] = value;
+      return this as unknown as Response;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this as unknown as Response;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this as unknown as Response;
+    },
+    on: vi.fn(),
+  };
+  return res as unknown as Response & { body?: unknown; headers: Record<string, string> };
+}
+
+const payload = { accountId: 'acct-1', to: 'to@example.com', subject: 'Hi', text: 'Hello' };
+
+describe('createIdempotencyMiddleware', () => {
+  let middleware: ReturnType<typeof createIdempotencyMiddleware>;
+
+  beforeEach(() => {
+    middleware = createIdempotencyMiddleware({ store: new InMemoryIdempotencyStore() });
+  });
+
+  /** Run the middleware and, when it calls next, a handler responding with `status`. */
+  async function run(req: Request, status = 202, body: unknown = { id: 'msg-1' }) {
+    const res = mockRes();
+    const handler = vi.fn(() => {
+      res.status(status).json(body);
+    });
+    await middleware(req, res, handler);
+    return { res, handler };
+  }
+
+  it('passes requests without a key straight through', async () => {
+    const first = await run(mockReq(payload));
+    const second = await run(mockReq(payload));
+    expect(first.handler).toHaveBeenCalled();
+    expect(second.handler).toHaveBeenCalled();
+  });
+
+  it('replays the first response for a retry with the same key', async () => {
+    await run(mockReq(payload, 'key-1'));
+    const retry = await run(mockReq(payload, 'key-1'), 202, { id: 'msg-2' });
+
+    expect(retry.handler).not.toHaveBeenCalled();
+    expect(retry.res.statusCode).toBe(202);
+    expect(retry.res.body).toEqual({ id: 'msg-1', requestId: 'req-1' });
+    expect(retry.res.headers['idempotent-replayed']).toBe('true');
+  });
+
+  it('returns 422 when the key is reused with a different body', async () => {
+    await run(mockReq(payload, 'key-1'));
+    const retry = await run(mockReq({ ...payload, subject: 'Other' }, 'key-1'));
+
+    expect(retry.handler).not.toHaveBeenCalled();
+    expect(retry.res.statusCode).toBe(422);
+  });
+
+  it('scopes keys per agent', async () => {
+    await run(mockReq(payload, 'key-1', 'agent-1'));
+    const other = await run(mockReq(payload, 'key-1', 'agent-2'));
+    expect(other.handler).toHaveBeenCalled();
+  });
+
+  it('makes concurrent duplicates wait for the first response', async () => {
+    const firstRes = mockRes();
+    await middleware(mockReq(payload, 'key-1'), firstRes, vi.fn());
+
+    const duplicateRes = mockRes();
+    const handler = vi.fn();
+    const pending = middleware(mockReq(payload, 'key-1'), duplicateRes, handler);
+    await Promise.resolve();
+    expect(duplicateRes.body).toBeUndefined();
+
+    firstRes.status(202).json({ id: 'msg-1' });
+    await pending;
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(duplicateRes.statusCode).toBe(202);
+    expect(duplicateRes.body).toMatchObject({ id: 'msg-1' });
+  });
+
+  it('does not store 5xx responses so the retry runs again', async () => {
+    await run(mockReq(payload, 'key-1'), 502, { error: 'provider down' });
+    const retry = await run(mockReq(payload, 'key-1'));
+
+    expect(retry.handler).toHaveBeenCalled();
+    expect(retry.res.statusCode).toBe(202);
+  });
+
+  it('keeps the claim when the client disconnects before the handler responds', async () => {
+    const firstRes = mockRes();
+    const firstHandler = vi.fn();
+    await middleware(mockReq(payload, 'key-1'), firstRes, firstHandler);
+    for (const [event, listener] of vi.mocked(firstRes.on).mock.calls) {
+      if (event === 'close') (listener as () => void)();
+    }
+
+    const retryRes = mockRes();
+    const retryHandler = vi.fn();
+    const pending = middleware(mockReq(payload, 'key-1'), retryRes, retryHandler);
+    firstRes.status(202).json({ id: 'msg-1' });
+    await pending;
+
+    expect(firstHandler).toHaveBeenCalledTimes(1);
+    expect(retryHandler).not.toHaveBeenCalled();
+    expect(retryRes.statusCode).toBe(202);
+    expect(retryRes.headers['idempotent-replayed']).toBe('true');
+  });
+
+  it('releases the key when the response finishes without JSON', async () => {
+    const firstRes = mockRes();
+    await middleware(mockReq(payload, 'key-1'), firstRes, vi.fn());
+    for (const [event, listener] of vi.mocked(firstRes.on).mock.calls) {
+      if (event === 'finish') (listener as () => void)();
+    }
+
+    const retry = await run(mockReq(payload, 'key-1'));
+    expect(retry.handler).toHaveBeenCalled();
+  });
+});
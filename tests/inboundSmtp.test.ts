@@ -0,0 +1,269 @@
+/**
+ * Tests for the embedded inbound SMTP listener and the local inbound store.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { connect } from 'node:net';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { InboundSmtpServer, type InboundSmtpMessage } from '../src/inbound/smtpServer.js';
+import {
+  FileInboundStore,
+  inboundEmailFromRaw,
+  localReceivedEmails,
+} from '../src/inbound/inboundStore.js';
+import { sendSmtpMessage, SmtpReplyError } from '../src/providers/smtpClient.js';
+import { buildMimeMessage } from '../src/mime/builder.js';
+
+/** Send raw lines on a fresh connection and collect every reply line. */
+function converse(port: number, lines: string[]): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    const socket = connect(port, '127.0.0.1');
+    let output = '';
+    socket.setEncoding('utf8');
+    socket.on('connect', () => socket.write(lines.map((line) => line + '\r\n').join('')));
+    socket.on('data', (chunk: string) => {
+      output += chunk;
+    });
+    socket.on('close', () => resolve(output.split('\r\n').filter(Boolean)));
+    socket.on('error', reject);
+  });
+}
+
+describe('InboundSmtpServer', () => {
+  let server: InboundSmtpServer;
+  let port: number;
+  let received: InboundSmtpMessage[];
+
+  beforeEach(async () => {
+    received = [];
+    server = new InboundSmtpServer({
+      name: 'mx.test',
+      acceptRecipient: async (address) => address.endsWith('@ours.example'),
+      onMessage: async (message) => {
+        received.push(message);
+        return `msg-${received.length}`;
+      },
+      maxMessageBytes: 2048,
+      maxRecipients: 2,
+    });
+    port = (await server.listen(0, '127.0.0.1')).port;
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('accepts a message from the SMTP client with dot-stuffing undone', async () => {
+    const message = 'Subject: Hi\r\nTo: a@ours.example\r\n\r\n.leading dot\r\nbody\r\n';
+    const reply = await sendSmtpMessage(
+      { host: '127.0.0.1', port, name: 'client.test' },
+      { from: 'sender@elsewhere.example', to: ['a@ours.example', 'B@ours.example'] },
+      message
+    );
+
+    expect(reply.code).toBe(250);
+    expect(reply.lines[0]).toContain('msg-1');
+    expect(received).toHaveLength(1);
+    expect(received[0].mailFrom).toBe('sender@elsewhere.example');
+    expect(received[0].rcptTo).toEqual(['a@ours.example', 'B@ours.example']);
+    const raw = received[0].raw.toString('utf8');
+    expect(raw).toMatch(/^Received: from \[127\.0\.0\.1\]\r\n\tby mx\.test with ESMTP;/);
+    expect(raw.endsWith(message)).toBe(true);
+  });
+
+  it('refuses recipients outside managed domains', async () => {
+    await expect(
+      sendSmtpMessage(
+        { host: '127.0.0.1', port },
+        { from: 'sender@elsewhere.example', to: ['victim@relay.example'] },
+        'Subject: relay\r\n\r\nx\r\n'
+      )
+    ).rejects.toMatchObject({ code: 550 } satisfies Partial<SmtpReplyError>);
+    expect(received).toHaveLength(0);
+  });
+
+  it('enforces command order, recipient and size limits', async () => {
+    const replies = await converse(port, [
+      'MAIL FROM:<a@b.example>',
+      'EHLO client.test',
+      'DATA',
+      'MAIL FROM:<a@b.example> SIZE=999999',
+      'MAIL FROM:<a@b.example>',
+      'RCPT TO:<one@ours.example>',
+      'RCPT TO:<two@ours.example>',
+      'RCPT TO:<three@ours.example>',
+      'DATA',
+      'x'.repeat(3000),
+      '.',
+      'QUIT',
+    ]);
+
+    expect(replies.map((line) => line.slice(0, 4))).toEqual([
+      '220 ',
+      '503 ',
+      '250-', '250-', '250 ',
+      '503 ',
+      '552 ',
+      '250 ',
+      '250 ',
+      '250 ',
+      '452 ',
+      '354 ',
+      '552 ',
+      '221 ',
+    ]);
+    expect(replies).toContain('250-SIZE 2048');
+    expect(received).toHaveLength(0);
+  });
+
+  it('logs and closes the session when handling a command throws', async () => {
+    const failing = new InboundSmtpServer({
+      name: 'mx.test',
+      acceptRecipient: async () => true,
+      onMessage: async () => {
+        throw new Error('disk full');
+      },
+    });
+    const failingPort = (await failing.listen(0, '127.0.0.1')).port;
+    // The store failure is logged; make that log call itself throw
+    const logError = vi.spyOn(console, 'error').mockImplementationOnce(() => {
+      throw new Error('log sink gone');
+    });
+
+    try {
+      const replies = await converse(failingPort, [
+        'EHLO client.test',
+        'MAIL FROM:<a@b.example>',
+        'RCPT TO:<c@ours.example>',
+        'DATA',
+        'Subject: Hi',
+        '',
+        'body',
+        '.',
+        'NOOP',
+      ]);
+
+      expect(replies.at(-1)).toBe('421 4.3.0 Internal error, closing connection');
+      expect(replies.some((line) => line.startsWith('250 2.0.0'))).toBe(false);
+      expect(logError.mock.calls.map(([line]) => JSON.parse(String(line)).msg)).toContain('inbound_smtp_session_failed');
+    } finally {
+      logError.mockRestore();
+      await failing.close();
+    }
+  });
+});
+
+describe('FileInboundStore', () => {
+  let dir: string;
+  let store: FileInboundStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ernest-inbound-'));
+    store = new FileInboundStore(join(dir, 'inbound.json'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('stores parsed messages with their raw bytes and serves Resend shapes', async () => {
+    const raw = Buffer.from(
+      buildMimeMessage(
+        {
+          to: ['Reader <reader@ours.example>'],
+          cc: ['cc@ours.example'],
+          subject: 'Quarterly',
+          text: 'Numbers attached',
+          attachments: [{ filename: 'q.csv', content: Buffer.from('a,b\n1,2\n').toString('base64'), contentType: 'text/csv' }],
+        },
+        { from: 'Boss <boss@elsewhere.example>', messageId: '<q1@elsewhere.example>' }
+      ),
+      'utf8'
+    );
+    const saved = await store.save(
+      inboundEmailFromRaw(raw, {
+        mailFrom: 'boss@elsewhere.example',
+        rcptTo: ['reader@ours.example', 'hidden@ours.example'],
+      }),
+      raw
+    );
+
+    expect(saved).toMatchObject({
+      from: 'Boss <boss@elsewhere.example>',
+      to: ['Reader <reader@ours.example>'],
+      cc: ['cc@ours.example'],
+      bcc: ['hidden@ours.example'],
+      subject: 'Quarterly',
+      message_id: '<q1@elsewhere.example>',
+      text: 'Numbers attached',
+      attachments: [{ filename: 'q.csv', content_type: 'text/csv', content_disposition: 'attachment', size: 8 }],
+    });
+    expect(saved.headers['message-id']).toBe('<q1@elsewhere.example>');
+    expect(await store.getRaw(saved.id)).toEqual(raw);
+    expect(await store.getRaw('../inbound')).toBeNull();
+
+    const source = localReceivedEmails(store);
+    const full = await source.getReceivedEmail(saved.id);
+    expect(full.data).toMatchObject({ object: 'email', id: saved.id, text: 'Numbers attached' });
+    expect(full.data?.attachments?.[0]).not.toHaveProperty('size');
+    expect(await source.getReceivedEmail('missing')).toMatchObject({ ok: false, status: 404 });
+
+    const list = await source.listReceivedEmails({});
+    expect(list.data).toMatchObject({ object: 'list', has_more: false });
+    expect(list.data?.data[0]).toMatchObject({ id: saved.id, attachments: [{ size: 8 }] });
+  });
+
+  it('keeps bodies out of the index, including those of older inline entries', async () => {
+    writeFileSync(join(dir, 'inbound.json'), JSON.stringify({
+      emails: [{
+        id: 'old', from: 'a@b.example', to: ['r@ours.example'], subject: 'Old', created_at: '2024-01-01T00:00:00.000Z',
+        text: 'inline body', html: null, headers: { subject: 'Old' }, attachments: [], source: 'resend',
+      }],
+    }));
+    expect(await store.get('old')).toMatchObject({ text: 'inline body', headers: { subject: 'Old' } });
+
+    const saved = await store.save(inboundEmailFromRaw(Buffer.from('Subject: New\r\n\r\nnew body'), {
+      mailFrom: 'a@b.example',
+      rcptTo: ['r@ours.example'],
+    }));
+
+    const index = readFileSync(join(dir, 'inbound.json'), 'utf8');
+    expect(index).not.toContain('body');
+    expect(await store.get('old')).toMatchObject({ text: 'inline body', headers: { subject: 'Old' } });
+    expect(await store.get(saved.id)).toMatchObject({ subject: 'New', text: 'new body' });
+    const listed = await store.list();
+    expect(listed.data.map((email) => email.id)).toEqual([saved.id, 'old']);
+    expect(listed.data[0]).not.toHaveProperty('text');
+  });
+
+  it('pages newest first with after/before cursors', async () => {
+    const ids: string[] = [];
+    for (let i = 0; i < 5; i++) {
+      const email = await store.save(inboundEmailFromRaw(Buffer.from(`Subject: ${i}\r\n\r\nx`), {
+        mailFrom: 'a@b.example',
+        rcptTo: ['r@ours.example'],
+      }));
+      ids.unshift(email.id);
+      await new Promise((resolve) => setTimeout(resolve, 2));
+    }
+
+    const first = await store.list({ limit: 2 });
+    expect(first.data.map((email) => email.id)).toEqual(ids.slice(0, 2));
+    expect(first.has_more).toBe(true);
+
+    const last = await store.list({ limit: 2, after: ids[2] });
+    expect(last.data.map((email) => email.id)).toEqual(ids.slice(3));
+    expect(last.has_more).toBe(false);
+
+    const back = await store.list({ limit: 2, before: ids[3] });
+    expect(back.data.map((email) => email.id)).toEqual(ids.slice(1, 3));
+    expect(back.has_more).toBe(true);
+
+    // Without a To header, every envelope recipient was a blind copy
+    expect(first.data[0].to).toEqual([]);
+    expect(first.data[0].bcc).toEqual(['r@ours.example']);
+  });
+});
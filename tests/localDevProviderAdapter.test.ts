@@ -1,6 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import { LocalDevProviderAdapter, getProviderAdapter } from '../src/providers.js';
-import type { Account } from '../src/accounts.js';
+import type { Account, AccountProvider } from '../src/accounts.js';
 
 const baseAccount: Account = {
   id: 'acct-1',
@@ -37,7 +37,7 @@ describe('LocalDevProviderAdapter', () => {
     const adapter = new LocalDevProviderAdapter();
     const result = await adapter.sendEmail({
       account: baseAccount,
-      to: 'receiver@example.com',
+      to: ['receiver@example.com'],
       subject: 'Test',
       text: 'Hello',
     });
@@ -46,7 +46,7 @@ describe('LocalDevProviderAdapter', () => {
     expect(result.status).toBe('sent');
     expect(result.raw).toMatchObject({
       echo: {
-        to: 'receiver@example.com',
+        to: ['receiver@example.com'],
         subject: 'Test',
         text: 'Hello',
         accountId: baseAccount.id,
@@ -63,6 +63,6 @@ describe('getProviderAdapter', () => {
   });
 
   it('throws for unsupported providers', () => {
-    expect(() => getProviderAdapter('smtp')).toThrow('not implemented');
+    expect(() => getProviderAdapter('postmark' as AccountProvider)).toThrow('not implemented');
   });
 });
@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+
+import {
+  buildMimeMessage,
+  encodeHeaderValue,
+  encodeQuotedPrintable,
+  foldHeader,
+  formatAddress,
+} from '../src/mime/builder.js';
+
+const envelope = {
+  from: 'Agent <agent@example.com>',
+  messageId: '<msg-1@example.com>',
+  date: new Date('2026-01-02T03:04:05Z'),
+  boundarySeed: 'seed',
+};
+
+function headerBlock(raw: string): string {
+  return raw.slice(0, raw.indexOf('\r\n\r\n'));
+}
+
+describe('encodeHeaderValue', () => {
+  it('leaves printable ASCII alone', () => {
+    expect(encodeHeaderValue('Weekly report')).toBe('Weekly report');
+  });
+
+  it('splits long UTF-8 values into encoded-words of at most 75 characters', () => {
+    const value = 'Grüße aus München '.repeat(6);
+    const encoded = encodeHeaderValue(value);
+    const words = encoded.split(' ');
+    expect(words.length).toBeGreaterThan(1);
+    for (const word of words) {
+      expect(word).toMatch(/^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/);
+      expect(word.length).toBeLessThanOrEqual(75);
+    }
+    const decoded = words
+      .map((word) => Buffer.from(word.slice(10, -2), 'base64').toString('utf8'))
+      .join('');
+    expect(decoded).toBe(value);
+  });
+
+  it('strips line breaks that would inject headers', () => {
+    expect(encodeHeaderValue('Hi\r\nBcc: victim@example.com')).toBe('Hi Bcc: victim@example.com');
+  });
+});
+
+describe('foldHeader', () => {
+  it('folds at whitespace to keep lines within 78 characters', () => {
+    const folded = foldHeader('Subject', 'word '.repeat(30).trim());
+    for (const line of folded.split('\r\n')) {
+      expect(line.length).toBeLessThanOrEqual(78);
+    }
+    expect(folded.replace(/\r\n/g, '')).toBe(`Subject: ${'word '.repeat(30).trim()}`);
+  });
+});
+
+describe('formatAddress', () => {
+  it('quotes, encodes or passes through display names', () => {
+    expect(formatAddress('a@example.com')).toBe('a@example.com');
+    expect(formatAddress('Ada Lovelace <ada@example.com>')).toBe('Ada Lovelace <ada@example.com>');
+    expect(formatAddress('Lovelace, Ada <ada@example.com>')).toBe('"Lovelace, Ada" <ada@example.com>');
+    expect(formatAddress('Jürgen <j@example.com>')).toBe(
+      `=?UTF-8?B?${Buffer.from('Jürgen').toString('base64')}?= <j@example.com>`
+    );
+  });
+});
+
+describe('encodeQuotedPrintable', () => {
+  it('escapes non-ASCII, "=" and trailing whitespace', () => {
+    expect(encodeQuotedPrintable('a=b café \nnext')).toBe('a=3Db caf=C3=A9=20\r\nnext');
+  });
+
+  it('soft-breaks lines longer than 76 characters', () => {
+    const encoded = encodeQuotedPrintable('x'.repeat(200));
+    const lines = encoded.split('\r\n');
+    expect(lines.every((line) => line.length <= 76)).toBe(true);
+    expect(encoded.replace(/=\r\n/g, '')).toBe('x'.repeat(200));
+  });
+});
+
+describe('buildMimeMessage', () => {
+  it('writes a single quoted-printable part for plain text', () => {
+    const raw = buildMimeMessage(
+      { to: ['a@example.com'], subject: 'Hi', text: 'Hello' },
+      envelope
+    );
+    expect(raw).toBe(
+      [
+        'From: Agent <agent@example.com>',
+        'To: a@example.com',
+        'Subject: Hi',
+        'Date: Fri, 02 Jan 2026 03:04:05 +0000',
+        'Message-ID: <msg-1@example.com>',
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        'Content-Transfer-Encoding: quoted-printable',
+        '',
+        'Hello',
+        '',
+      ].join('\r\n')
+    );
+  });
+
+  it('nests alternative in related in mixed for inline images and attachments', () => {
+    const raw = buildMimeMessage(
+      {
+        to: ['a@example.com'],
+        cc: ['c@example.com'],
+        bcc: ['hidden@example.com'],
+        subject: 'Report',
+        text: 'See chart',
+        html: '<img src="cid:chart">',
+        attachments: [
+          { filename: 'chart.png', content: 'iVBORw0=', contentType: 'image/png', contentId: 'chart' },
+          { filename: 'données.csv', content: 'YSxi', contentType: 'text/csv' },
+        ],
+      },
+      envelope
+    );
+
+    expect(headerBlock(raw)).toContain('Cc: c@example.com');
+    expect(raw).not.toContain('hidden@example.com');
+    expect(headerBlock(raw)).toContain('Content-Type: multipart/mixed; boundary="=_ernest_seed_2"');
+    const order = [
+      '--=_ernest_seed_2\r\nContent-Type: multipart/related; boundary="=_ernest_seed_1"',
+      '--=_ernest_seed_1\r\nContent-Type: multipart/alternative; boundary="=_ernest_seed_0"',
+      '--=_ernest_seed_0\r\nContent-Type: text/plain',
+      '--=_ernest_seed_0\r\nContent-Type: text/html',
+      '--=_ernest_seed_0--',
+      'Content-ID: <chart>',
+      '--=_ernest_seed_1--',
+      "filename*=UTF-8''donn%C3%A9es.csv",
+      '--=_ernest_seed_2--',
+    ].map((marker) => raw.indexOf(marker));
+    expect(order.every((index) => index >= 0)).toBe(true);
+    expect([...order].sort((a, b) => a - b)).toEqual(order);
+  });
+
+  it('adds custom headers without letting them replace structural ones', () => {
+    const raw = buildMimeMessage(
+      {
+        to: ['a@example.com'],
+        subject: 'Hi',
+        text: 'Hello',
+        headers: {
+          'X-Campaign': 'q3',
+          Subject: 'spoofed',
+          'Content-Type': 'text/html',
+          'Bad Header': 'x',
+          'DKIM-Signature': 'v=1; d=spoofed.example',
+          Sender: 'spoofed@example.org',
+        },
+      },
+      envelope
+    );
+    const headers = headerBlock(raw);
+    expect(headers).toContain('X-Campaign: q3');
+    expect(headers).not.toContain('spoofed');
+    expect(headers).not.toContain('Bad Header');
+    expect(headers.match(/Content-Type:/g)).toHaveLength(1);
+  });
+
+  it('writes In-Reply-To and References, which custom headers cannot replace', () => {
+    const raw = buildMimeMessage(
+      {
+        to: ['a@example.com'],
+        subject: 'Re: Hi',
+        text: 'Hello',
+        inReplyTo: '<parent@example.org>',
+        references: ['<root@example.org>', '<parent@example.org>'],
+        headers: { References: '<forged@example.org>' },
+      },
+      envelope
+    );
+    const headers = headerBlock(raw);
+    expect(headers).toContain('In-Reply-To: <parent@example.org>');
+    expect(headers).toContain('References: <root@example.org> <parent@example.org>');
+    expect(headers).not.toContain('forged');
+  });
+
+  it('is reproducible for a fixed envelope', () => {
+    const content = { to: ['a@example.com'], subject: 'Hi', text: 'a', html: '<p>a</p>' };
+    expect(buildMimeMessage(content, envelope)).toBe(buildMimeMessage(content, envelope));
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+
+import { buildMimeMessage } from '../src/mime/builder.js';
+import { decodeEncodedWords, getHeader, parseAddressList, parseMimeMessage } from '../src/mime/parser.js';
+
+describe('parseMimeMessage', () => {
+  it('round-trips a message from the builder', () => {
+    const raw = buildMimeMessage(
+      {
+        to: ['Zoë <reader@example.org>'],
+        subject: 'Grüße aus Köln',
+        text: 'Hallo — schön dich zu sehen',
+        html: '<p>Hallo — schön</p>',
+        attachments: [
+          { filename: 'report.pdf', content: Buffer.from('%PDF-1.4 fake').toString('base64'), contentType: 'application/pdf' },
+          { filename: 'logo.png', content: Buffer.from([137, 80, 78, 71]).toString('base64'), contentType: 'image/png', contentId: 'logo' },
+        ],
+      },
+      { from: 'Agent <agent@example.com>', messageId: '<m1@example.com>' }
+    );
+
+    const parsed = parseMimeMessage(Buffer.from(raw, 'utf8'));
+
+    expect(getHeader(parsed.headers, 'subject')).toBe('Grüße aus Köln');
+    expect(getHeader(parsed.headers, 'MESSAGE-ID')).toBe('<m1@example.com>');
+    expect(parsed.text?.trim()).toBe('Hallo — schön dich zu sehen');
+    expect(parsed.html?.trim()).toBe('<p>Hallo — schön</p>');
+    expect(parsed.textCharset).toBe('utf-8');
+    expect(parsed.attachments.map(({ content: _content, ...rest }) => rest)).toEqual([
+      { filename: 'logo.png', contentType: 'image/png', disposition: 'inline', contentId: 'logo', size: 4 },
+      { filename: 'report.pdf', contentType: 'application/pdf', disposition: 'attachment', size: 13 },
+    ]);
+    expect(parsed.attachments[0].content).toEqual(Buffer.from([137, 80, 78, 71]));
+  });
+
+  it('decodes legacy charsets, quoted-printable and RFC 2231 filenames', () => {
+    const raw = Buffer.concat([
+      Buffer.from(
+        'Subject: =?ISO-8859-1?Q?Caf=E9?= =?UTF-8?B?IOKYlQ==?=\r\n' +
+        'Content-Type: multipart/mixed; boundary="b1"\r\n\r\n' +
+        'preamble\r\n--b1\r\n' +
+        'Content-Type: text/plain; charset=iso-8859-1\r\nContent-Transfer-Encoding: quoted-printable\r\n\r\n' +
+        'Caf=E9 cr=\r\n=E8me\r\n--b1\r\n' +
+        'Content-Type: application/octet-stream\r\n' +
+        "Content-Disposition: attachment; filename*0*=utf-8''r%C3%A9sum; filename*1=\"e.txt\"\r\n\r\n",
+        'latin1'
+      ),
+      Buffer.from([0xff, 0x00, 0x41]),
+      Buffer.from('\r\n--b1--\r\nepilogue\r\n', 'latin1'),
+    ]);
+
+    const parsed = parseMimeMessage(raw);
+
+    expect(getHeader(parsed.headers, 'subject')).toBe('Café ☕');
+    expect(parsed.text).toBe('Café crème');
+    expect(parsed.textCharset).toBe('iso-8859-1');
+    expect(parsed.attachments).toHaveLength(1);
+    expect(parsed.attachments[0].filename).toBe('résume.txt');
+    expect(parsed.attachments[0].content).toEqual(Buffer.from([0xff, 0x00, 0x41]));
+  });
+
+  it('decodes only the attachment parts asked for', () => {
+    const raw = buildMimeMessage(
+      {
+        to: ['reader@example.org'],
+        subject: 'Files',
+        text: 'See attached',
+        attachments: [
+          { filename: 'a.txt', content: Buffer.from('first').toString('base64'), contentType: 'text/plain' },
+          { filename: 'b.txt', content: Buffer.from('second').toString('base64'), contentType: 'text/plain' },
+        ],
+      },
+      { from: 'agent@example.com', messageId: '<m2@example.com>' }
+    );
+
+    const parsed = parseMimeMessage(raw, { decodeAttachment: (index) => index === 1 });
+
+    expect(parsed.text).toBe('');
+    expect(parsed.attachments.map((part) => part.filename)).toEqual(['a.txt', 'b.txt']);
+    expect(parsed.attachments[0].content).toHaveLength(0);
+    expect(parsed.attachments[1]).toMatchObject({ size: 6, content: Buffer.from('second') });
+  });
+
+  it('treats a body without headers as plain text', () => {
+    expect(parseMimeMessage('Subject: hi\r\n\r\nbody').text).toBe('body');
+    expect(parseMimeMessage('Subject: hi').text).toBe('');
+  });
+});
+
+describe('header helpers', () => {
+  it('joins adjacent encoded words and leaves unknown charsets alone', () => {
+    expect(decodeEncodedWords('=?utf-8?q?a_b?= =?utf-8?q?c?= d')).toBe('a bc d');
+    expect(decodeEncodedWords('=?x-unknown?q?a?=')).toBe('=?x-unknown?q?a?=');
+  });
+
+  it('splits address lists around quotes and groups', () => {
+    expect(
+      parseAddressList('"Doe, Jane" <jane@example.com>, bob@example.com, Team: c@example.com, d@example.com;')
+    ).toEqual(['"Doe, Jane" <jane@example.com>', 'bob@example.com', 'c@example.com', 'd@example.com']);
+    expect(parseAddressList(undefined)).toEqual([]);
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * Tests for the file-backed outbound queue and its worker.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import type { Account } from '../src/accounts.js';
+import { FileAccountRepository } from '../src/fileAccountRepository.js';
+import { FileWalletStore } from '../src/fileWalletStore.js';
+import { FileMessageRepository } from '../src/fileMessageRepository.js';
+import type { ProviderAdapter } from '../src/providers.js';
+import { FileOutboundQueue } from '../src/queue/outboundQueue.js';
+import { OutboundWorker, computeBackoffMs } from '../src/queue/outboundWorker.js';
+
+let tmpDir: string;
+let queue: FileOutboundQueue;
+let repo: FileAccountRepository;
+let walletStore: FileWalletStore;
+let messages: FileMessageRepository;
+let account: Account;
+
+const email = { to: ['to@example.com'], subject: 'Hi', text: 'Hello' };
+
+function adapterWith(sendEmail: ProviderAdapter['sendEmail']): ProviderAdapter {
+  return { provider: 'local-dev', provisionAccount: vi.fn(), sendEmail };
+}
+
+function httpError(status: number): Error {
+  return Object.assign(new Error(`HTTP ${status}`), { status });
+}
+
+beforeEach(async () => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'ernest-queue-'));
+  queue = new FileOutboundQueue(join(tmpDir, 'queue.json'));
+  repo = new FileAccountRepository(join(tmpDir, 'accounts.json'));
+  walletStore = new FileWalletStore(join(tmpDir, 'wallets.json'));
+  messages = new FileMessageRepository(join(tmpDir, 'messages.json'));
+  account = await repo.create({ email: 'sender@example.com', provider: 'local-dev' });
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+describe('FileOutboundQueue', () => {
+  it('claims only due messages and leases them', async () => {
+    const due = await queue.enqueue({ accountId: account.id, email });
+    await queue.enqueue({
+      accountId: account.id,
+      email,
+      notBefore: new Date(Date.now() + 60_000),
+    });
+
+    const claimed = await queue.claimDue(10, 30_000);
+    expect(claimed.map((m) => m.id)).toEqual([due.id]);
+    expect(claimed[0]).toMatchObject({ status: 'sending', attempts: 1 });
+    expect(await queue.claimDue(10, 30_000)).toEqual([]);
+  });
+
+  it('reclaims messages whose lease has lapsed', async () => {
+    const message = await queue.enqueue({ accountId: account.id, email });
+    await queue.claimDue(10, 1_000);
+
+    const later = new Date(Date.now() + 5_000);
+    const reclaimed = await queue.claimDue(10, 1_000, later);
+    expect(reclaimed).toHaveLength(1);
+    expect(reclaimed[0]).toMatchObject({ id: message.id, attempts: 2 });
+  });
+
+  it('moves dead messages to the dead-letter list', async () => {
+    const message = await queue.enqueue({ accountId: account.id, email });
+    await queue.markDead(message.id, 'rejected');
+
+    expect(await queue.listDeadLetter()).toHaveLength(1);
+    expect(await queue.get(message.id)).toMatchObject({ status: 'dead', lastError: 'rejected' });
+  });
+
+  it('moves sent and cancelled messages out of the queue file without their body', async () => {
+    const sent = await queue.enqueue({ accountId: account.id, email });
+    const cancelled = await queue.enqueue({ accountId: account.id, email, notBefore: new Date(Date.now() + 60_000) });
+    await queue.claimDue(10, 30_000);
+    await queue.markSent(sent.id, { provider: 'local-dev', providerMessageId: 'p-1' });
+    await queue.cancel(cancelled.id);
+
+    const file = JSON.parse(readFileSync(join(tmpDir, 'queue.json'), 'utf8'));
+    expect(file.messages).toEqual([]);
+    expect(await queue.get(sent.id)).toMatchObject({ status: 'sent', email: { to: email.to, subject: 'Hi' } });
+    expect((await queue.get(sent.id))?.email).not.toHaveProperty('text');
+    expect(await queue.getContent(sent.id)).toEqual(email);
+    expect(await queue.get(cancelled.id)).toMatchObject({ status: 'cancelled' });
+    expect(await queue.getContent(cancelled.id)).toBeNull();
+    expect(await queue.cancel(cancelled.id)).toBeNull();
+  });
+
+  it('archives finished messages left in older queue files on the next claim', async () => {
+    const message = await queue.enqueue({ accountId: account.id, email });
+    const file = JSON.parse(readFileSync(join(tmpDir, 'queue.json'), 'utf8'));
+    file.messages[0].status = 'sent';
+    writeFileSync(join(tmpDir, 'queue.json'), JSON.stringify(file));
+
+    expect(await queue.claimDue(10, 30_000)).toEqual([]);
+    expect(JSON.parse(readFileSync(join(tmpDir, 'queue.json'), 'utf8')).messages).toEqual([]);
+    expect(await queue.get(message.id)).toMatchObject({ status: 'sent' });
+    expect(await queue.getContent(message.id)).toEqual(email);
+  });
+});
+
+describe('computeBackoffMs', () => {
+  it('doubles per attempt within the jitter band and respects the cap', () => {
+    expect(computeBackoffMs(1, 1_000, 60_000, () => 0)).toBe(500);
+    expect(computeBackoffMs(3, 1_000, 60_000, () => 0.999)).toBeLessThanOrEqual(4_000);
+    expect(computeBackoffMs(3, 1_000, 60_000, () => 0)).toBe(2_000);
+    expect(computeBackoffMs(20, 1_000, 60_000, () => 1)).toBe(60_000);
+  });
+});
+
+describe('OutboundWorker', () => {
+  function makeWorker(adapter: ProviderAdapter, leaseMs?: number) {
+    return new OutboundWorker(
+      {
+        queue,
+        accountRepository: repo,
+        getProviderAdapter: () => adapter,
+        walletStore,
+        messageRepository: messages,
+      },
+      { baseDelayMs: 1_000, random: () => 0, leaseMs }
+    );
+  }
+
+  it('delivers due messages and commits the credit hold', async () => {
+    await walletStore.add('tenant-a', 5);
+    const { hold } = await walletStore.reserve('tenant-a', 1);
+    const message = await queue.enqueue({ accountId: account.id, email, holdId: hold!.id });
+    await messages.create({ id: message.id, accountId: account.id, ...email, cost: 1 });
+    const sendEmail = vi.fn().mockResolvedValue({
+      id: 'provider-1',
+      provider: 'local-dev',
+      to: email.to,
+      status: 'sent',
+      from: 'Agent <custom@example.com>',
+    });
+
+    expect(await makeWorker(adapterWith(sendEmail)).processDue()).toBe(1);
+
+    expect(sendEmail).toHaveBeenCalledWith(expect.objectContaining({ to: email.to, account }));
+    expect(await queue.get(message.id)).toMatchObject({
+      status: 'sent',
+      provider: 'local-dev',
+      providerMessageId: 'provider-1',
+      from: 'Agent <custom@example.com>',
+    });
+    expect(await walletStore.commit(hold!.id)).toMatchObject({ success: false });
+    expect(await walletStore.getBalance('tenant-a')).toBe(4);
+    expect(await messages.getById(message.id)).toMatchObject({
+      status: 'sent',
+      providerMessageId: 'provider-1',
+    });
+  });
+
+  it('schedules a retry with backoff after a transient failure', async () => {
+    const message = await queue.enqueue({ accountId: account.id, email });
+    const worker = makeWorker(adapterWith(vi.fn().mockRejectedValue(httpError(503))));
+
+    const before = Date.now();
+    await worker.processDue();
+
+    const stored = await queue.get(message.id);
+    expect(stored).toMatchObject({ status: 'queued', attempts: 1, lastError: 'HTTP 503' });
+    expect(Date.parse(stored!.nextAttemptAt)).toBeGreaterThanOrEqual(before + 500);
+  });
+
+  it('dead-letters permanent failures and releases the hold', async () => {
+    await walletStore.add('tenant-a', 5);
+    const { hold } = await walletStore.reserve('tenant-a', 2);
+    const message = await queue.enqueue({ accountId: account.id, email, holdId: hold!.id });
+    await messages.create({ id: message.id, accountId: account.id, ...email, cost: 2 });
+    const worker = makeWorker(adapterWith(vi.fn().mockRejectedValue(httpError(422))));
+
+    await worker.processDue();
+    expect(await messages.getById(message.id)).toMatchObject({
+      status: 'failed',
+      cost: 0,
+      lastError: 'HTTP 422',
+    });
+
+    expect(await queue.get(message.id)).toMatchObject({ status: 'dead', lastError: 'HTTP 422' });
+    expect(await walletStore.getBalance('tenant-a')).toBe(5);
+  });
+
+  it('dead-letters once attempts are exhausted', async () => {
+    const message = await queue.enqueue({ accountId: account.id, email, maxAttempts: 2 });
+    const worker = makeWorker(adapterWith(vi.fn().mockRejectedValue(httpError(500))));
+
+    await worker.processDue();
+    await worker.processDue(new Date(Date.now() + 60_000));
+
+    expect(await queue.get(message.id)).toMatchObject({ status: 'dead', attempts: 2 });
+  });
+
+  it('renews the lease while a slow delivery runs', async () => {
+    const message = await queue.enqueue({ accountId: account.id, email });
+    let reclaimed: unknown[] | undefined;
+    const sendEmail = vi.fn(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 400));
+      // Another worker polling well after the original lease would have lapsed
+      reclaimed = await queue.claimDue(10, 150);
+      return { id: 'provider-1', provider: 'local-dev' as const, to: email.to, status: 'sent' as const };
+    });
+
+    await makeWorker(adapterWith(sendEmail), 150).processDue();
+
+    expect(reclaimed).toEqual([]);
+    expect(sendEmail).toHaveBeenCalledTimes(1);
+    expect(await queue.get(message.id)).toMatchObject({ status: 'sent', attempts: 1 });
+  });
+
+  it('keeps delivering the batch when one message fails unexpectedly', async () => {
+    const first = await queue.enqueue({ accountId: account.id, email });
+    const second = await queue.enqueue({ accountId: account.id, email });
+    const getById = repo.getById.bind(repo);
+    vi.spyOn(repo, 'getById').mockImplementation(async (id) => {
+      if (vi.mocked(repo.getById).mock.calls.length === 1) throw new Error('disk error');
+      return getById(id);
+    });
+    const sendEmail = vi.fn().mockResolvedValue({ id: 'provider-1', provider: 'local-dev', to: email.to, status: 'sent' });
+
+    expect(await makeWorker(adapterWith(sendEmail)).processDue()).toBe(2);
+
+    expect(await queue.get(first.id)).toMatchObject({ status: 'sending' });
+    expect(await queue.get(second.id)).toMatchObject({ status: 'sent' });
+    expect(vi.mocked(console.error).mock.calls.map(([line]) => JSON.parse(String(line)).msg)).toContain(
+      'outbound_deliver_error'
+    );
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Tests for account provisioning flow (POST /accounts, reprovision) without sockets.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { FileAccountRepository } from '../src/fileAccountRepository.js';
+import { FileCredentialVault } from '../src/secrets/credentialVault.js';
+import { processProvisionAccount } from '../src/handlers/provisionAccount.js';
+import { LocalDevProviderAdapter } from '../src/providers.js';
+import type { ProviderAdapter } from '../src/providers.js';
+
+let repo: FileAccountRepository;
+let vault: FileCredentialVault;
+let tmpDir: string;
+
+beforeEach(() => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'ernest-provision-'));
+  repo = new FileAccountRepository(join(tmpDir, 'accounts.json'));
+  vault = new FileCredentialVault(join(tmpDir, 'credentials.json'), {
+    keys: new Map([[1, Buffer.alloc(32, 1)]]),
+    activeVersion: 1,
+  });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function failingAdapter(message: string): ProviderAdapter {
+  return {
+    provider: 'smtp',
+    provisionAccount: vi.fn().mockRejectedValue(new Error(message)),
+    sendEmail: vi.fn(),
+  };
+}
+
+describe('processProvisionAccount', () => {
+  it('persists status, externalId and metadata from the adapter', async () => {
+    const account = await repo.create({ email: 'prov@example.com', provider: 'local-dev' });
+    const adapter = new LocalDevProviderAdapter();
+
+    const result = await processProvisionAccount(
+      account,
+      { requestedFromAddress: 'Agent <prov@example.com>' },
+      { accountRepository: repo, getProviderAdapter: () => adapter },
+    );
+
+    expect(result.status).toBe(200);
+    expect(result.body).toMatchObject({
+      id: account.id,
+      status: 'active',
+      externalId: account.id,
+      providerMetadata: { provider: 'local-dev', from: 'Agent <prov@example.com>' },
+    });
+    const stored = await repo.getById(account.id);
+    expect(stored?.status).toBe('active');
+    expect(stored?.provisionedAt).toBeDefined();
+  });
+
+  it('stores credentials in the vault and never returns them', async () => {
+    const account = await repo.create({ email: 'creds@example.com', provider: 'local-dev' });
+    const adapter = new LocalDevProviderAdapter();
+
+    const result = await processProvisionAccount(
+      account,
+      { credentials: { apiKey: 'secret-key' } },
+      { accountRepository: repo, getProviderAdapter: () => adapter, credentialVault: vault },
+    );
+
+    expect(JSON.stringify(result.body)).not.toContain('secret-key');
+    expect(await vault.get(account.id)).toEqual({ apiKey: 'secret-key' });
+    expect(JSON.stringify(await repo.getById(account.id))).not.toContain('secret-key');
+  });
+
+  it('fails provisioning when credentials are given but no master key is configured', async () => {
+    const account = await repo.create({ email: 'nokey@example.com', provider: 'local-dev' });
+    const keyless = new FileCredentialVault(join(tmpDir, 'keyless.json'), {
+      keys: new Map(),
+      activeVersion: 0,
+    });
+
+    const result = await processProvisionAccount(
+      account,
+      { credentials: { apiKey: 'secret-key' } },
+      {
+        accountRepository: repo,
+        getProviderAdapter: () => new LocalDevProviderAdapter(),
+        credentialVault: keyless,
+      },
+    );
+
+    expect(result.status).toBe(502);
+    expect((result.body as { error: string }).error).toContain('CREDENTIALS_MASTER_KEY');
+  });
+
+  it('records provisioningError and keeps account pending on failure', async () => {
+    const account = await repo.create({ email: 'fail@example.com', provider: 'smtp' });
+
+    const result = await processProvisionAccount(
+      account,
+      { credentials: { apiKey: 'kept' } },
+      {
+        accountRepository: repo,
+        getProviderAdapter: () => failingAdapter('connect ECONNREFUSED'),
+        credentialVault: vault,
+      },
+    );
+
+    expect(result.status).toBe(502);
+    expect(result.body).toMatchObject({
+      error: 'Provisioning failed: connect ECONNREFUSED',
+      account: { id: account.id, status: 'pending', provisioningError: 'connect ECONNREFUSED' },
+    });
+    expect(await vault.get(account.id)).toEqual({ apiKey: 'kept' });
+  });
+
+  it('reprovision reuses vault credentials and clears the error', async () => {
+    const account = await repo.create({ email: 'retry@example.com', provider: 'smtp' });
+    await processProvisionAccount(
+      account,
+      { credentials: { apiKey: 'stored-key' } },
+      { accountRepository: repo, getProviderAdapter: () => failingAdapter('timeout'), credentialVault: vault },
+    );
+
+    const adapter = new LocalDevProviderAdapter();
+    const spy = vi.spyOn(adapter, 'provisionAccount');
+    const failed = await repo.getById(account.id);
+    const result = await processProvisionAccount(
+      failed!,
+      {},
+      { accountRepository: repo, getProviderAdapter: () => adapter, credentialVault: vault },
+    );
+
+    expect(result.status).toBe(200);
+    expect(spy).toHaveBeenCalledWith(
+      expect.objectContaining({ credentials: { apiKey: 'stored-key' } }),
+    );
+    const stored = await repo.getById(account.id);
+    expect(stored?.status).toBe('active');
+    expect(stored?.provisioningError).toBeUndefined();
+  });
+});
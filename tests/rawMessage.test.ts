@@ -0,0 +1,120 @@
+/**
+ * Tests for loading raw received messages and matching their attachment parts.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { FileInboundStore, type NewInboundEmail } from '../src/inbound/inboundStore.js';
+import { loadRawMessage, pairAttachments } from '../src/inbound/rawMessage.js';
+import type { ParsedAttachment } from '../src/mime/parser.js';
+
+const record: NewInboundEmail = {
+  id: 'e1',
+  from: 'a@b.com',
+  to: ['c@d.com'],
+  subject: 'Hi',
+  text: null,
+  html: null,
+  headers: {},
+  attachments: [],
+  source: 'resend',
+};
+
+describe('loadRawMessage', () => {
+  let dir: string;
+  let inboundStore: FileInboundStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ernest-raw-'));
+    inboundStore = new FileInboundStore(join(dir, 'inbound.json'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('downloads Resend originals once and then serves the local copy', async () => {
+    await inboundStore.save(record);
+    const getReceivedEmail = vi.fn().mockResolvedValue({
+      ok: true,
+      data: { ...record, object: 'email', created_at: 'now', raw: { download_url: 'https://raw/e1', expires_at: 'later' } },
+    });
+    const downloadReceivedEmailRaw = vi.fn().mockResolvedValue({ ok: true, data: Buffer.from('raw bytes') });
+    const deps = { inboundStore, getReceivedEmail, downloadReceivedEmailRaw };
+
+    expect(await loadRawMessage('e1', deps)).toEqual({ ok: true, status: 200, data: Buffer.from('raw bytes') });
+    expect(await loadRawMessage('e1', deps)).toEqual({ ok: true, status: 200, data: Buffer.from('raw bytes') });
+    expect(downloadReceivedEmailRaw).toHaveBeenCalledTimes(1);
+    expect(downloadReceivedEmailRaw).toHaveBeenCalledWith('https://raw/e1', undefined);
+  });
+
+  it('reports missing messages, SMTP mail without raw bytes and Resend failures', async () => {
+    await inboundStore.save({ ...record, id: 'smtp-1', source: 'smtp' });
+    await inboundStore.save(record);
+    const deps = {
+      inboundStore,
+      getReceivedEmail: vi.fn().mockResolvedValue({ ok: true, data: { ...record, object: 'email', created_at: 'now' } }),
+      downloadReceivedEmailRaw: vi.fn(),
+    };
+
+    expect(await loadRawMessage('nope', deps)).toMatchObject({ ok: false, status: 404 });
+    expect(await loadRawMessage('smtp-1', deps)).toMatchObject({ ok: false, status: 404, error: 'Raw message not available' });
+    expect(await loadRawMessage('e1', deps)).toMatchObject({
+      ok: false,
+      status: 502,
+      error: 'Resend returned no raw download URL',
+    });
+    expect(deps.downloadReceivedEmailRaw).not.toHaveBeenCalled();
+  });
+
+  it('answers 413 for stored messages over maxBytes without reading them', async () => {
+    await inboundStore.save({ ...record, source: 'smtp' }, Buffer.alloc(100));
+    const getRaw = vi.spyOn(inboundStore, 'getRaw');
+    const deps = { inboundStore, getReceivedEmail: vi.fn(), downloadReceivedEmailRaw: vi.fn() };
+
+    expect(await loadRawMessage('e1', deps, { maxBytes: 99 })).toEqual({
+      ok: false,
+      status: 413,
+      error: 'Message exceeds 99 bytes',
+    });
+    expect(getRaw).not.toHaveBeenCalled();
+    expect(await loadRawMessage('e1', deps, { maxBytes: 100 })).toMatchObject({ ok: true });
+  });
+});
+
+describe('pairAttachments', () => {
+  const part = (filename: string, contentType: string, contentId?: string): ParsedAttachment => ({
+    filename,
+    contentType,
+    disposition: contentId ? 'inline' : 'attachment',
+    ...(contentId ? { contentId } : {}),
+    size: 1,
+    content: Buffer.from('x'),
+  });
+
+  it('pairs by position when the counts agree', () => {
+    const parts = [part('a.txt', 'text/plain'), part('b.txt', 'text/plain')];
+    const pairs = pairAttachments(
+      [{ id: '1', filename: 'x', content_type: 'x/y' }, { id: '2', filename: 'y', content_type: 'x/y' }],
+      parts
+    );
+    expect(pairs.get(parts[1])?.id).toBe('2');
+  });
+
+  it('otherwise pairs by filename, type and Content-ID', () => {
+    const parts = [part('logo.png', 'image/png', 'logo'), part('a.txt', 'text/plain'), part('a.txt', 'text/plain')];
+    const pairs = pairAttachments(
+      [
+        { id: 'txt', filename: 'a.txt', content_type: 'TEXT/PLAIN' },
+        { id: 'logo', filename: 'logo.png', content_type: 'image/png', content_id: '<logo>' },
+      ],
+      parts
+    );
+    expect(pairs.get(parts[0])?.id).toBe('logo');
+    expect(pairs.get(parts[1])?.id).toBe('txt');
+    expect(pairs.has(parts[2])).toBe(false);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Tests for downloading received attachments (processGetReceivedAttachment) without sockets.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { FileAccountRepository } from '../src/fileAccountRepository.js';
+import { processGetReceivedAttachment } from '../src/handlers/receivedEmail.js';
+import { buildMimeMessage } from '../src/mime/builder.js';
+import type { ReceivedEmailFull } from '../src/resendReceiving.js';
+
+const raw = Buffer.from(buildMimeMessage(
+  {
+    to: ['c@d.com'],
+    subject: 'Files',
+    text: 'See attached',
+    attachments: [
+      { filename: 'notes.txt', content: Buffer.from('hello').toString('base64'), contentType: 'text/plain' },
+      { filename: 'data.bin', content: Buffer.alloc(64).toString('base64'), contentType: 'application/octet-stream' },
+    ],
+  },
+  { from: 'a@b.com', messageId: '<m1@b.com>' }
+));
+
+const email: ReceivedEmailFull = {
+  object: 'email',
+  id: 'm1',
+  from: 'a@b.com',
+  to: ['c@d.com'],
+  subject: 'Files',
+  created_at: '2025-01-01T00:00:00.000Z',
+  attachments: [
+    { id: 'att-notes', filename: 'notes.txt', content_type: 'text/plain', content_disposition: 'attachment' },
+    { id: 'att-data', filename: 'data.bin', content_type: 'application/octet-stream', content_disposition: 'attachment' },
+  ],
+};
+
+let tmpDir: string;
+let accountRepository: FileAccountRepository;
+
+beforeEach(async () => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'ernest-received-attachment-'));
+  accountRepository = new FileAccountRepository(join(tmpDir, 'accounts.json'));
+  await accountRepository.create({ email: 'c@d.com', provider: 'local-dev', agentIds: ['agent-1'] });
+});
+
+afterEach(() => {
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function deps(message: ReceivedEmailFull = email) {
+  return {
+    accountRepository,
+    listReceivedEmails: vi.fn(),
+    getReceivedEmail: vi.fn().mockResolvedValue({ ok: true, status: 200, data: message }),
+    getRawMessage: vi.fn().mockResolvedValue({ ok: true, status: 200, data: raw }),
+  };
+}
+
+const noDenylist = { extensions: new Set<string>(), contentTypes: new Set<string>() };
+
+describe('processGetReceivedAttachment', () => {
+  it('returns the matching part from the raw message', async () => {
+    const result = await processGetReceivedAttachment('m1', 'att-notes', deps(), { agentId: 'agent-1' });
+    expect(result.status).toBe(200);
+    expect(result.attachment).toEqual({
+      filename: 'notes.txt',
+      contentType: 'text/plain',
+      content: Buffer.from('hello'),
+    });
+  });
+
+  it('hides other agents\' mail and unknown attachment IDs behind 404', async () => {
+    const other = await processGetReceivedAttachment('m1', 'att-notes', deps(), { agentId: 'agent-2' });
+    expect(other).toEqual({ status: 404, body: { error: 'Received email not found' } });
+
+    const unknown = await processGetReceivedAttachment('m1', 'nope', deps(), { agentId: 'agent-1' });
+    expect(unknown).toEqual({ status: 404, body: { error: 'Attachment not found' } });
+  });
+
+  it('refuses denied types before loading the raw message', async () => {
+    const d = deps();
+    const result = await processGetReceivedAttachment('m1', 'att-notes', d, { agentId: 'agent-1' }, {
+      denylist: { extensions: new Set(['txt']), contentTypes: new Set() },
+    });
+    expect(result).toEqual({ status: 415, body: { error: 'Attachment type not allowed' } });
+    expect(d.getRawMessage).not.toHaveBeenCalled();
+  });
+
+  it('checks the part itself when the metadata looks harmless', async () => {
+    const renamed = {
+      ...email,
+      attachments: email.attachments!.map((attachment) => ({ ...attachment, filename: 'x.pdf', content_type: 'application/pdf' })),
+    };
+    const result = await processGetReceivedAttachment('m1', 'att-data', deps(renamed), { agentId: 'agent-1' }, {
+      denylist: { extensions: new Set(['bin']), contentTypes: new Set() },
+    });
+    expect(result.status).toBe(415);
+  });
+
+  it('checks the stored size before loading the message', async () => {
+    const d = { ...deps(), getAttachmentSize: vi.fn().mockResolvedValue(64) };
+    const result = await processGetReceivedAttachment('m1', 'att-data', d, { agentId: 'agent-1' }, {
+      denylist: noDenylist,
+      maxBytes: 32,
+    });
+    expect(result).toEqual({ status: 413, body: { error: 'Attachment exceeds 32 bytes' } });
+    expect(d.getAttachmentSize).toHaveBeenCalledWith('m1', 'att-data');
+    expect(d.getRawMessage).not.toHaveBeenCalled();
+  });
+
+  it('caps the raw message it loads', async () => {
+    const d = {
+      ...deps(),
+      getRawMessage: vi.fn().mockResolvedValue({ ok: false, status: 413, error: 'Message exceeds 1000 bytes' }),
+    };
+    const result = await processGetReceivedAttachment('m1', 'att-notes', d, { agentId: 'agent-1' }, {
+      maxMessageBytes: 1000,
+    });
+    expect(result).toEqual({ status: 413, body: { error: 'Message exceeds 1000 bytes' } });
+    expect(d.getRawMessage).toHaveBeenCalledWith('m1', { maxBytes: 1000 });
+  });
+
+  it('returns 413 for parts over the size cap', async () => {
+    const result = await processGetReceivedAttachment('m1', 'att-data', deps(), { agentId: 'agent-1' }, {
+      denylist: noDenylist,
+      maxBytes: 32,
+    });
+    expect(result).toEqual({ status: 413, body: { error: 'Attachment exceeds 32 bytes' } });
+  });
+
+  it('passes raw message failures through', async () => {
+    const d = { ...deps(), getRawMessage: vi.fn().mockResolvedValue({ ok: false, status: 404, error: 'Raw message not available' }) };
+    const result = await processGetReceivedAttachment('m1', 'att-notes', d, { agentId: 'agent-1' });
+    expect(result).toEqual({ status: 404, body: { error: 'Raw message not available' } });
+
+    const withoutRaw = { ...deps(), getRawMessage: undefined };
+    expect((await processGetReceivedAttachment('m1', 'att-notes', withoutRaw, { agentId: 'agent-1' })).status).toBe(501);
+  });
+});
@@ -38,4 +38,12 @@ describe('InMemoryReplayStore', () => {
     store.markUsed('token-1');
     expect(store.isUsed('token-2')).toBe(false);
   });
+
+  it('claims a token once until it is released', () => {
+    const store = new InMemoryReplayStore();
+    expect(store.claim('token-1', 60_000)).toBe(true);
+    expect(store.claim('token-1', 60_000)).toBe(false);
+    store.release('token-1');
+    expect(store.claim('token-1', 60_000)).toBe(true);
+  });
 });
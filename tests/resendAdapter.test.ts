@@ -59,14 +59,14 @@ describe('ResendProviderAdapter', () => {
     const adapter = new ResendProviderAdapter();
     const result = await adapter.sendEmail({
       account: baseAccount,
-      to: 'recipient@example.com',
+      to: ['recipient@example.com'],
       subject: 'Hello',
       text: 'World'
     });
 
     expect(result.id).toBe('resend-msg-123');
     expect(result.provider).toBe('resend');
-    expect(result.to).toBe('recipient@example.com');
+    expect(result.to).toEqual(['recipient@example.com']);
     expect(result.status).toBe('queued');
 
     expect(fetchMock).toHaveBeenCalledWith(
@@ -99,7 +99,7 @@ describe('ResendProviderAdapter', () => {
     const adapter = new ResendProviderAdapter();
     await adapter.sendEmail({
       account: baseAccount,
-      to: 'u@ex.com',
+      to: ['u@ex.com'],
       subject: 'Hi',
       text: 'Hi'
     });
@@ -120,7 +120,7 @@ describe('ResendProviderAdapter', () => {
     const adapter = new ResendProviderAdapter();
     await adapter.sendEmail({
       account: baseAccount,
-      to: 'u@ex.com',
+      to: ['u@ex.com'],
       subject: 'Hi',
       html: '<p>Hi</p>',
       replyTo: 'reply@example.com'
@@ -131,6 +131,88 @@ describe('ResendProviderAdapter', () => {
     expect(body.html).toBe('<p>Hi</p>');
   });
 
+  it('sends threading and custom headers', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ id: 'x' }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      })
+    );
+    globalThis.fetch = fetchMock;
+
+    const adapter = new ResendProviderAdapter();
+    await adapter.sendEmail({
+      account: baseAccount,
+      to: ['u@ex.com'],
+      subject: 'Re: Hi',
+      text: 'Thanks',
+      inReplyTo: '<b@ex.com>',
+      references: ['<a@ex.com>', '<b@ex.com>'],
+      headers: { 'X-Agent': 'digest' }
+    });
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.headers).toEqual({
+      'X-Agent': 'digest',
+      'In-Reply-To': '<b@ex.com>',
+      References: '<a@ex.com> <b@ex.com>'
+    });
+  });
+
+  it('passes cc and bcc recipients through', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ id: 'x' }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      })
+    );
+    globalThis.fetch = fetchMock;
+
+    const adapter = new ResendProviderAdapter();
+    const result = await adapter.sendEmail({
+      account: baseAccount,
+      to: ['u@ex.com', 'v@ex.com'],
+      cc: ['c@ex.com'],
+      bcc: ['b@ex.com'],
+      subject: 'Hi',
+      text: 'Hi'
+    });
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.to).toEqual(['u@ex.com', 'v@ex.com']);
+    expect(body.cc).toEqual(['c@ex.com']);
+    expect(body.bcc).toEqual(['b@ex.com']);
+    expect(result.to).toEqual(['u@ex.com', 'v@ex.com']);
+  });
+
+  it('maps attachments onto the Resend payload', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ id: 'x' }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      })
+    );
+    globalThis.fetch = fetchMock;
+
+    const adapter = new ResendProviderAdapter();
+    await adapter.sendEmail({
+      account: baseAccount,
+      to: ['u@ex.com'],
+      subject: 'Hi',
+      html: '<img src="cid:logo">',
+      attachments: [
+        { filename: 'report.pdf', content: 'JVBERg==', contentType: 'application/pdf' },
+        { filename: 'logo.png', content: 'iVBORw0=', contentType: 'image/png', contentId: 'logo' }
+      ]
+    });
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.attachments).toEqual([
+      { filename: 'report.pdf', content: 'JVBERg==', content_type: 'application/pdf' },
+      { filename: 'logo.png', content: 'iVBORw0=', content_type: 'image/png', content_id: 'logo' }
+    ]);
+  });
+
   it('throws on Resend API error', async () => {
     const fetchMock = vi.fn().mockResolvedValue(
       new Response(JSON.stringify({ message: 'Invalid API key' }), {
@@ -144,7 +226,7 @@ describe('ResendProviderAdapter', () => {
     await expect(
       adapter.sendEmail({
         account: baseAccount,
-        to: 'u@ex.com',
+        to: ['u@ex.com'],
         subject: 'Hi',
         text: 'Hi'
       })
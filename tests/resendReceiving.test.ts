@@ -3,7 +3,7 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
-import { listReceivedEmails, getReceivedEmail } from '../src/resendReceiving.js';
+import { listReceivedEmails, getReceivedEmail, downloadReceivedEmailRaw } from '../src/resendReceiving.js';
 
 
 beforeEach(() => {
@@ -80,3 +80,44 @@ describe('getReceivedEmail', () => {
     );
   });
 });
+
+describe('downloadReceivedEmailRaw', () => {
+  it('returns the raw bytes without sending the API key', async () => {
+    process.env.RESEND_API_KEY = 're_test';
+    global.fetch = vi.fn().mockResolvedValue(new Response('Subject: hi\r\n\r\nbody', { status: 200 }));
+
+    const result = await downloadReceivedEmailRaw('https://inbound.example/raw/e1?sig=abc');
+    expect(result).toEqual({ ok: true, status: 200, data: Buffer.from('Subject: hi\r\n\r\nbody') });
+    const init = vi.mocked(global.fetch).mock.calls[0][1];
+    expect(init).not.toHaveProperty('headers');
+  });
+
+  it('reports failed and oversized downloads as 502', async () => {
+    global.fetch = vi.fn()
+      .mockResolvedValueOnce(new Response('gone', { status: 403 }))
+      .mockResolvedValueOnce(new Response('x', { status: 200, headers: { 'content-length': String(60 * 1024 * 1024) } }))
+      .mockRejectedValueOnce(new Error('socket hang up'));
+
+    expect(await downloadReceivedEmailRaw('https://x')).toMatchObject({ ok: false, status: 502, error: expect.stringContaining('403') });
+    expect(await downloadReceivedEmailRaw('https://x')).toMatchObject({ ok: false, error: 'Raw message too large' });
+    expect(await downloadReceivedEmailRaw('https://x')).toMatchObject({ ok: false, error: expect.stringContaining('socket hang up') });
+  });
+
+  it('stops reading a body without Content-Length once it passes the limit', async () => {
+    let pulled = 0;
+    const body = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled += 1;
+        controller.enqueue(new Uint8Array(64));
+      },
+    });
+    global.fetch = vi.fn().mockResolvedValue(new Response(body, { status: 200 }));
+
+    expect(await downloadReceivedEmailRaw('https://x', 100)).toEqual({
+      ok: false,
+      status: 413,
+      error: 'Raw message too large',
+    });
+    expect(pulled).toBeLessThan(5);
+  });
+});
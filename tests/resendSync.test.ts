@@ -0,0 +1,112 @@
+/**
+ * Tests for copying Resend Inbound mail into the local inbound store.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import { FileInboundStore } from '../src/inbound/inboundStore.js';
+import { backfillResendEmails, ingestResendEmail } from '../src/inbound/resendSync.js';
+import type { ReceivedEmailFull, ReceivedEmailSummary } from '../src/resendReceiving.js';
+
+function summary(id: string, minute: number): ReceivedEmailSummary {
+  return {
+    id,
+    from: 'a@b.com',
+    to: ['c@d.com'],
+    subject: `Subject ${id}`,
+    created_at: `2025-01-01T00:0${minute}:00.000Z`,
+    attachments: [{ id: `${id}-att`, filename: 'a.txt', content_type: 'text/plain', size: 3 }],
+  };
+}
+
+function full(id: string): ReceivedEmailFull {
+  return {
+    ...summary(id, Number(id.slice(1))),
+    object: 'email',
+    text: `Body ${id}`,
+    html: null,
+    headers: { 'message-id': `<${id}@b.com>` },
+    message_id: `<${id}@b.com>`,
+    attachments: [{ id: `${id}-att`, filename: 'a.txt', content_type: 'text/plain', content_disposition: 'attachment' }],
+  };
+}
+
+describe('Resend inbound sync', () => {
+  let dir: string;
+  let inboundStore: FileInboundStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ernest-resend-sync-'));
+    inboundStore = new FileInboundStore(join(dir, 'inbound.json'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('ingests one message under its Resend ID, replacing earlier copies', async () => {
+    const getReceivedEmail = vi.fn().mockResolvedValue({ ok: true, status: 200, data: full('e1') });
+    const deps = { inboundStore, getReceivedEmail, listReceivedEmails: vi.fn() };
+
+    const first = await ingestResendEmail('e1', deps);
+    await ingestResendEmail('e1', deps);
+
+    expect(first).toMatchObject({ ok: true, email: { id: 'e1', text: 'Body e1', source: 'resend' } });
+    expect((await inboundStore.list()).data).toHaveLength(1);
+    expect((await inboundStore.get('e1'))?.created_at).toBe('2025-01-01T00:01:00.000Z');
+    // No list entry, so the attachment size is unknown
+    expect((await inboundStore.get('e1'))?.attachments[0]).not.toHaveProperty('size');
+
+    getReceivedEmail.mockResolvedValueOnce({ ok: false, status: 0, error: 'RESEND_API_KEY is required for receiving' });
+    expect(await ingestResendEmail('e2', deps)).toEqual({
+      ok: false,
+      status: 502,
+      error: 'RESEND_API_KEY is required for receiving',
+    });
+  });
+
+  it('backfills every page, skipping stored messages unless refreshing', async () => {
+    const pages: Record<string, { has_more: boolean; data: ReceivedEmailSummary[] }> = {
+      start: { has_more: true, data: [summary('e4', 4), summary('e3', 3)] },
+      e3: { has_more: true, data: [summary('e2', 2), summary('e1', 1)] },
+      e1: { has_more: false, data: [] },
+    };
+    const listReceivedEmails = vi.fn(async (options?: { after?: string }) => ({
+      ok: true,
+      status: 200,
+      data: { object: 'list' as const, ...pages[options?.after ?? 'start'] },
+    }));
+    const getReceivedEmail = vi.fn(async (id: string) =>
+      id === 'e2' ? { ok: false, status: 500, error: 'boom' } : { ok: true, status: 200, data: full(id) }
+    );
+    await inboundStore.save({ ...full('e3'), source: 'resend', headers: {}, attachments: [] });
+    const onPage = vi.fn();
+
+    const result = await backfillResendEmails(
+      { inboundStore, listReceivedEmails, getReceivedEmail },
+      { pageSize: 2, onPage }
+    );
+
+    expect(result).toEqual({ ok: true, pages: 3, stored: 2, skipped: 1, failed: 1 });
+    expect(listReceivedEmails).toHaveBeenNthCalledWith(1, { limit: 2 });
+    expect(listReceivedEmails).toHaveBeenNthCalledWith(2, { limit: 2, after: 'e3' });
+    expect(onPage).toHaveBeenCalledTimes(3);
+    expect((await inboundStore.get('e4'))?.attachments[0].size).toBe(3);
+    expect((await inboundStore.list()).data.map((email) => email.id)).toEqual(['e4', 'e3', 'e1']);
+
+    const refreshed = await backfillResendEmails(
+      { inboundStore, listReceivedEmails, getReceivedEmail },
+      { pageSize: 2, refresh: true }
+    );
+    expect(refreshed).toMatchObject({ stored: 3, skipped: 0, failed: 1 });
+  });
+
+  it('stops with an error when a page cannot be listed', async () => {
+    const listReceivedEmails = vi.fn().mockResolvedValue({ ok: false, status: 429, error: 'rate limited' });
+    const result = await backfillResendEmails({ inboundStore, listReceivedEmails, getReceivedEmail: vi.fn() });
+    expect(result).toEqual({ ok: false, error: 'rate limited', pages: 0, stored: 0, skipped: 0, failed: 0 });
+  });
+});
@@ -0,0 +1,252 @@
+/**
+ * Tests for Resend webhook ingestion: event mapping and the signed HTTP route.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+import type { Server } from 'node:http';
+
+import { FileMessageRepository } from '../src/fileMessageRepository.js';
+import { FileSuppressionStore } from '../src/fileSuppressionStore.js';
+import { processResendWebhook } from '../src/handlers/resendWebhook.js';
+import { signSvixPayload } from '../src/webhooks/svix.js';
+import { app } from '../src/index.js';
+
+describe('processResendWebhook', () => {
+  let dir: string;
+  let messages: FileMessageRepository;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ernest-webhook-'));
+    messages = new FileMessageRepository(join(dir, 'messages.json'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  async function sentMessage() {
+    return messages.create({
+      accountId: 'acct-1',
+      to: ['to@example.com'],
+      subject: 'Hi',
+      status: 'sent',
+      provider: 'resend',
+      providerMessageId: 're_123',
+    });
+  }
+
+  it('maps delivery events onto the message found by Resend ID', async () => {
+    const message = await sentMessage();
+
+    const result = await processResendWebhook(
+      {
+        type: 'email.bounced',
+        data: { email_id: 're_123', bounce: { type: 'Permanent', message: 'mailbox does not exist' } },
+      },
+      { messageRepository: messages }
+    );
+
+    expect(result).toEqual({
+      status: 200,
+      body: { received: true, messageId: message.id, status: 'bounced' },
+    });
+    expect(await messages.getById(message.id)).toMatchObject({
+      status: 'bounced',
+      lastError: 'Permanent: mailbox does not exist',
+    });
+  });
+
+  it('never moves a message back to an earlier status', async () => {
+    const message = await sentMessage();
+    await processResendWebhook(
+      { type: 'email.delivered', data: { email_id: 're_123' } },
+      { messageRepository: messages }
+    );
+    await processResendWebhook(
+      { type: 'email.sent', data: { email_id: 're_123' } },
+      { messageRepository: messages }
+    );
+
+    const stored = await messages.getById(message.id);
+    expect(stored?.status).toBe('delivered');
+    expect(stored?.events.map((e) => e.type ?? e.status)).toEqual([
+      'sent',
+      'email.delivered',
+      'email.sent',
+    ]);
+  });
+
+  it('records opens as history without changing status', async () => {
+    const message = await sentMessage();
+    await processResendWebhook(
+      { type: 'email.opened', data: { email_id: 're_123' } },
+      { messageRepository: messages }
+    );
+
+    const stored = await messages.getById(message.id);
+    expect(stored?.status).toBe('sent');
+    expect(stored?.events.at(-1)).toMatchObject({ type: 'email.opened', status: 'sent' });
+  });
+
+  it('suppresses hard bounces globally and complaints per account', async () => {
+    const suppressions = new FileSuppressionStore(join(dir, 'suppressions.json'));
+    const message = await sentMessage();
+    const deps = { messageRepository: messages, suppressionStore: suppressions };
+
+    await processResendWebhook(
+      { type: 'email.bounced', data: { email_id: 're_123', bounce: { type: 'Transient' } } },
+      deps
+    );
+    expect(await suppressions.list()).toEqual([]);
+
+    await processResendWebhook(
+      { type: 'email.bounced', data: { email_id: 're_123', bounce: { type: 'Permanent' } } },
+      deps
+    );
+    await processResendWebhook({ type: 'email.complained', data: { email_id: 're_123' } }, deps);
+
+    expect(await suppressions.find('to@example.com', 'other-account')).toMatchObject({
+      reason: 'bounce',
+      messageId: message.id,
+    });
+    expect(await suppressions.list({ accountId: 'acct-1' })).toEqual([
+      expect.objectContaining({ reason: 'complaint', email: 'to@example.com' }),
+    ]);
+  });
+
+  it('does not guess which recipient of a multi-recipient message bounced', async () => {
+    const suppressions = new FileSuppressionStore(join(dir, 'suppressions.json'));
+    await messages.create({
+      accountId: 'acct-1',
+      to: ['a@example.com'],
+      cc: ['b@example.com'],
+      subject: 'Hi',
+      status: 'sent',
+      providerMessageId: 're_multi',
+    });
+
+    await processResendWebhook(
+      { type: 'email.bounced', data: { email_id: 're_multi', bounce: { type: 'Permanent' } } },
+      { messageRepository: messages, suppressionStore: suppressions }
+    );
+
+    expect(await suppressions.list()).toEqual([]);
+  });
+
+  it('acknowledges events for unknown messages', async () => {
+    const result = await processResendWebhook(
+      { type: 'email.delivered', data: { email_id: 'unknown' } },
+      { messageRepository: messages }
+    );
+    expect(result).toMatchObject({ status: 200, body: { ignored: 'unknown email_id' } });
+  });
+
+  it('stores received emails and asks for a retry when the fetch fails', async () => {
+    const ingestReceivedEmail = vi.fn()
+      .mockResolvedValueOnce({ ok: true })
+      .mockResolvedValueOnce({ ok: false, error: 'Resend API error 500' });
+    const event = { type: 'email.received', data: { email_id: 'in_1' } };
+
+    expect(await processResendWebhook(event, { messageRepository: messages, ingestReceivedEmail })).toEqual({
+      status: 200,
+      body: { received: true, emailId: 'in_1' },
+    });
+    expect(ingestReceivedEmail).toHaveBeenCalledWith('in_1');
+    expect(await processResendWebhook(event, { messageRepository: messages, ingestReceivedEmail })).toEqual({
+      status: 502,
+      body: { error: 'Resend API error 500' },
+    });
+    expect(await processResendWebhook(event, { messageRepository: messages })).toMatchObject({
+      status: 200,
+      body: { ignored: 'inbound storage not configured' },
+    });
+  });
+});
+
+describe('POST /webhooks/resend', () => {
+  const secret = `whsec_${Buffer.from('route-secret').toString('base64')}`;
+  let server: Server;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    await new Promise<void>((resolve) => {
+      server = app.listen(0, '127.0.0.1', () => resolve());
+    });
+    const addr = server.address();
+    baseUrl = addr && typeof addr === 'object' ? `http://127.0.0.1:${addr.port}` : '';
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    return new Promise<void>((resolve) => {
+      server?.close(() => resolve());
+    });
+  });
+
+  function post(body: string, headers: Record<string, string>) {
+    return fetch(`${baseUrl}/webhooks/resend`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+    });
+  }
+
+  it('returns 503 when no secret is configured', async () => {
+    vi.stubEnv('RESEND_WEBHOOK_SECRET', '');
+    const res = await post('{}', {});
+    expect(res.status).toBe(503);
+  });
+
+  it('rejects bad signatures and replayed svix-ids', async () => {
+    vi.stubEnv('RESEND_WEBHOOK_SECRET', secret);
+    const body = JSON.stringify({ type: 'email.delivered', data: { email_id: `re_${Date.now()}` } });
+    const svixId = `msg_${Date.now()}`;
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    const headers = {
+      'svix-id': svixId,
+      'svix-timestamp': timestamp,
+      'svix-signature': signSvixPayload(secret, svixId, timestamp, body),
+    };
+
+    const forged = await post(body, { ...headers, 'svix-signature': 'v1,Zm9yZ2Vk' });
+    expect(forged.status).toBe(401);
+
+    const first = await post(body, headers);
+    expect(first.status).toBe(200);
+    expect(await first.json()).toMatchObject({ received: true });
+
+    const replay = await post(body, headers);
+    expect(replay.status).toBe(409);
+  });
+
+  function signed(body: string, svixId: string) {
+    const timestamp = String(Math.floor(Date.now() / 1000));
+    return {
+      'svix-id': svixId,
+      'svix-timestamp': timestamp,
+      'svix-signature': signSvixPayload(secret, svixId, timestamp, body),
+    };
+  }
+
+  it('processes concurrent deliveries of one svix-id once', async () => {
+    vi.stubEnv('RESEND_WEBHOOK_SECRET', secret);
+    const body = JSON.stringify({ type: 'email.delivered', data: { email_id: `re_${Date.now()}` } });
+    const headers = signed(body, `msg_concurrent_${Date.now()}`);
+
+    const statuses = (await Promise.all([post(body, headers), post(body, headers)])).map((res) => res.status);
+    expect(statuses.sort()).toEqual([200, 409]);
+  });
+
+  it('lets Resend retry an event that failed with 5xx', async () => {
+    vi.stubEnv('RESEND_WEBHOOK_SECRET', secret);
+    vi.stubEnv('RESEND_API_KEY', '');
+    const body = JSON.stringify({ type: 'email.received', data: { email_id: 'in_retry' } });
+    const headers = signed(body, `msg_retry_${Date.now()}`);
+
+    expect((await post(body, headers)).status).toBe(502);
+    expect((await post(body, headers)).status).toBe(502);
+  });
+});
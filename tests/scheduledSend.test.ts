@@ -0,0 +1,178 @@
+/**
+ * Tests for scheduled sends (sendAt) and cancelling them with DELETE /emails/:id.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import type { Account } from '../src/accounts.js';
+import { FileAccountRepository } from '../src/fileAccountRepository.js';
+import { FileWalletStore } from '../src/fileWalletStore.js';
+import { FileMessageRepository } from '../src/fileMessageRepository.js';
+import { LocalDevProviderAdapter } from '../src/providers.js';
+import { FileOutboundQueue } from '../src/queue/outboundQueue.js';
+import { OutboundWorker } from '../src/queue/outboundWorker.js';
+import { MAX_SCHEDULE_AHEAD_MS, processSendEmail } from '../src/handlers/sendEmail.js';
+import { processCancelEmail } from '../src/handlers/cancelEmail.js';
+
+let tmpDir: string;
+let repo: FileAccountRepository;
+let walletStore: FileWalletStore;
+let messages: FileMessageRepository;
+let queue: FileOutboundQueue;
+let adapter: LocalDevProviderAdapter;
+let account: Account;
+
+beforeEach(async () => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'ernest-schedule-'));
+  repo = new FileAccountRepository(join(tmpDir, 'accounts.json'));
+  walletStore = new FileWalletStore(join(tmpDir, 'wallets.json'), { defaultInitialCredits: 0 });
+  messages = new FileMessageRepository(join(tmpDir, 'messages.json'));
+  queue = new FileOutboundQueue(join(tmpDir, 'queue.json'));
+  adapter = new LocalDevProviderAdapter();
+  account = await repo.create({ email: 'digest@example.com', provider: 'local-dev' });
+  await walletStore.add('tenant-1', 5);
+  vi.stubEnv('ADMIN_TENANT_IDS', '');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function deps() {
+  return {
+    accountRepository: repo,
+    getProviderAdapter: () => adapter,
+    walletStore,
+    outboundQueue: queue,
+    messageRepository: messages,
+  };
+}
+
+function schedule(sendAt: unknown, agentId = 'agent-1') {
+  return processSendEmail(
+    {
+      accountId: account.id,
+      to: 'reader@example.com',
+      subject: 'Morning digest',
+      text: 'Overnight summary',
+      tenantId: 'tenant-1',
+      sendAt: sendAt as string,
+    },
+    deps(),
+    { agentId },
+  );
+}
+
+describe('scheduled sends', () => {
+  it('holds credits and queues the message for its send time', async () => {
+    const sendAt = new Date(Date.now() + 60 * 60 * 1000);
+    const result = await schedule(sendAt.toISOString());
+
+    expect(result.status).toBe(202);
+    expect(result.body).toMatchObject({
+      status: 'scheduled',
+      sendAt: sendAt.toISOString(),
+      balance: 4,
+    });
+    const id = (result.body as { id: string }).id;
+    expect(await queue.get(id)).toMatchObject({
+      status: 'queued',
+      nextAttemptAt: sendAt.toISOString(),
+      scheduledAt: sendAt.toISOString(),
+    });
+    expect(await messages.getById(id)).toMatchObject({
+      status: 'scheduled',
+      scheduledAt: sendAt.toISOString(),
+      cost: 1,
+    });
+  });
+
+  it('is delivered by a worker once due, including after a restart', async () => {
+    const spy = vi.spyOn(adapter, 'sendEmail');
+    const sendAt = new Date(Date.now() + 60_000);
+    const id = ((await schedule(sendAt.toISOString())).body as { id: string }).id;
+
+    // A fresh queue and worker over the same file stand in for a restart.
+    const restarted = new FileOutboundQueue(join(tmpDir, 'queue.json'));
+    const worker = new OutboundWorker({
+      queue: restarted,
+      accountRepository: repo,
+      getProviderAdapter: () => adapter,
+      walletStore,
+      messageRepository: messages,
+    });
+
+    expect(await worker.processDue()).toBe(0);
+    expect(await worker.processDue(new Date(sendAt.getTime() + 1))).toBe(1);
+    expect(spy).toHaveBeenCalledTimes(1);
+    expect(await messages.getById(id)).toMatchObject({ status: 'sent', cost: 1 });
+    expect(await walletStore.getBalance('tenant-1')).toBe(4);
+  });
+
+  it.each([
+    ['not-a-date', 'sendAt must be an ISO timestamp'],
+    [12345, 'sendAt must be an ISO timestamp'],
+    [new Date(Date.now() - 1_000).toISOString(), 'sendAt must be in the future'],
+    [new Date(Date.now() + MAX_SCHEDULE_AHEAD_MS + 60_000).toISOString(), 'sendAt must be within 30 days'],
+  ])('rejects sendAt %s', async (sendAt, error) => {
+    const result = await schedule(sendAt);
+    expect(result).toEqual({ status: 400, body: { error } });
+    expect(await walletStore.getBalance('tenant-1')).toBe(5);
+  });
+
+  it('requires the outbound queue', async () => {
+    const result = await processSendEmail(
+      {
+        accountId: account.id,
+        to: 'reader@example.com',
+        subject: 'Later',
+        text: 'Body',
+        send_at: new Date(Date.now() + 60_000).toISOString(),
+      },
+      { accountRepository: repo, getProviderAdapter: () => adapter },
+    );
+    expect(result.status).toBe(501);
+  });
+});
+
+describe('processCancelEmail', () => {
+  it('cancels a scheduled send and releases its hold', async () => {
+    const id = ((await schedule(new Date(Date.now() + 60_000).toISOString())).body as { id: string }).id;
+
+    const result = await processCancelEmail(id, deps(), { agentId: 'agent-1' });
+
+    expect(result).toEqual({ status: 200, body: { id, status: 'cancelled', balance: 5 } });
+    expect(await queue.get(id)).toMatchObject({ status: 'cancelled' });
+    expect(await messages.getById(id)).toMatchObject({ status: 'cancelled', cost: 0 });
+    expect(await queue.claimDue(10, 1_000, new Date(Date.now() + 120_000))).toEqual([]);
+  });
+
+  it('hides other agents\' emails', async () => {
+    const id = ((await schedule(new Date(Date.now() + 60_000).toISOString())).body as { id: string }).id;
+
+    const result = await processCancelEmail(id, deps(), { agentId: 'agent-2' });
+
+    expect(result.status).toBe(404);
+    expect(await queue.get(id)).toMatchObject({ status: 'queued' });
+  });
+
+  it('refuses once the worker has claimed the message', async () => {
+    const sendAt = new Date(Date.now() + 60_000);
+    const id = ((await schedule(sendAt.toISOString())).body as { id: string }).id;
+    await queue.claimDue(10, 60_000, new Date(sendAt.getTime() + 1));
+
+    const result = await processCancelEmail(id, deps(), { agentId: 'agent-1' });
+
+    expect(result).toEqual({
+      status: 409,
+      body: { error: 'Email can no longer be cancelled', status: 'sending' },
+    });
+    expect(await walletStore.getBalance('tenant-1')).toBe(4);
+  });
+});
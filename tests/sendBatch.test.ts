@@ -0,0 +1,175 @@
+/**
+ * Tests for POST /emails/batch (processSendBatch).
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import type { Account } from '../src/accounts.js';
+import { FileAccountRepository } from '../src/fileAccountRepository.js';
+import { FileWalletStore } from '../src/fileWalletStore.js';
+import { FileMessageRepository } from '../src/fileMessageRepository.js';
+import { LocalDevProviderAdapter } from '../src/providers.js';
+import { FileOutboundQueue } from '../src/queue/outboundQueue.js';
+import { processSendBatch } from '../src/handlers/sendBatch.js';
+
+let tmpDir: string;
+let repo: FileAccountRepository;
+let walletStore: FileWalletStore;
+let messages: FileMessageRepository;
+let queue: FileOutboundQueue;
+let account: Account;
+
+beforeEach(async () => {
+  tmpDir = mkdtempSync(join(tmpdir(), 'ernest-batch-'));
+  repo = new FileAccountRepository(join(tmpDir, 'accounts.json'));
+  walletStore = new FileWalletStore(join(tmpDir, 'wallets.json'), { defaultInitialCredits: 0 });
+  messages = new FileMessageRepository(join(tmpDir, 'messages.json'));
+  queue = new FileOutboundQueue(join(tmpDir, 'queue.json'));
+  account = await repo.create({ email: 'notify@example.com', provider: 'local-dev' });
+  vi.stubEnv('ADMIN_TENANT_IDS', '');
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+  vi.unstubAllEnvs();
+  rmSync(tmpDir, { recursive: true, force: true });
+});
+
+function deps() {
+  return {
+    accountRepository: repo,
+    getProviderAdapter: () => new LocalDevProviderAdapter(),
+    walletStore,
+    outboundQueue: queue,
+    messageRepository: messages,
+  };
+}
+
+function note(to: string, extra: Record<string, unknown> = {}) {
+  return { to, subject: `Hi ${to}`, text: 'Your report is ready', ...extra };
+}
+
+describe('processSendBatch', () => {
+  it('queues every message with its own hold and reports results in order', async () => {
+    await walletStore.add('tenant-1', 10);
+
+    const result = await processSendBatch(
+      {
+        accountId: account.id,
+        tenantId: 'tenant-1',
+        messages: [note('a@example.com'), note('b@example.com', { cc: 'c@example.com' })],
+      },
+      deps(),
+      { agentId: 'agent-1' },
+    );
+
+    expect(result.status).toBe(202);
+    expect(result.body).toMatchObject({ mode: 'per-item', accepted: 2, failed: 0, balance: 7 });
+    const { results } = result.body as { results: Array<{ index: number; status: number; body: { id: string } }> };
+    expect(results.map((r) => [r.index, r.status])).toEqual([[0, 202], [1, 202]]);
+    expect(await messages.getById(results[1].body.id)).toMatchObject({ cost: 2, agentId: 'agent-1' });
+    const [first, second] = await Promise.all(results.map((r) => queue.get(r.body.id)));
+    expect(first!.holdId).toBeDefined();
+    expect(first!.holdId).not.toBe(second!.holdId);
+  });
+
+  it('per-item mode sends valid messages and reports the rest', async () => {
+    await walletStore.add('tenant-1', 1);
+
+    const result = await processSendBatch(
+      {
+        accountId: account.id,
+        tenantId: 'tenant-1',
+        messages: [note('a@example.com'), note('not-an-email'), note('b@example.com')],
+      },
+      deps(),
+    );
+
+    expect(result.status).toBe(207);
+    const { results } = result.body as { results: Array<{ status: number; body: { error?: string } }> };
+    expect(results.map((r) => r.status)).toEqual([202, 400, 402]);
+    expect(results[2].body).toMatchObject({ error: 'Insufficient credits', required: 1 });
+    expect(result.body).toMatchObject({ accepted: 1, failed: 2, balance: 0 });
+  });
+
+  it('all-or-nothing mode sends nothing when one message is invalid', async () => {
+    await walletStore.add('tenant-1', 10);
+
+    const result = await processSendBatch(
+      {
+        mode: 'all-or-nothing',
+        accountId: account.id,
+        tenantId: 'tenant-1',
+        messages: [note('a@example.com'), note('b@example.com', { subject: '' })],
+      },
+      deps(),
+    );
+
+    expect(result.status).toBe(400);
+    expect(result.body).toMatchObject({
+      error: 'Batch rejected',
+      results: [
+        { index: 0, status: 424 },
+        { index: 1, status: 400, body: { error: 'subject required' } },
+      ],
+    });
+    expect(await walletStore.getBalance('tenant-1')).toBe(10);
+    expect(await queue.claimDue(10, 1_000)).toEqual([]);
+  });
+
+  it('all-or-nothing mode reserves the whole batch or nothing', async () => {
+    await walletStore.add('tenant-1', 2);
+    const batch = {
+      mode: 'all-or-nothing',
+      accountId: account.id,
+      tenantId: 'tenant-1',
+      messages: [note('a@example.com'), note('b@example.com'), note('c@example.com')],
+    };
+
+    const short = await processSendBatch(batch, deps());
+    expect(short).toEqual({
+      status: 402,
+      body: { error: 'Insufficient credits', balance: 2, required: 3 },
+    });
+
+    await walletStore.add('tenant-1', 1);
+    const sent = await processSendBatch(batch, deps());
+    expect(sent.status).toBe(202);
+    expect(sent.body).toMatchObject({ accepted: 3, balance: 0 });
+  });
+
+  it('validates the batch itself', async () => {
+    vi.stubEnv('MAX_BATCH_SIZE', '2');
+    const three = [note('a@example.com'), note('b@example.com'), note('c@example.com')];
+
+    expect((await processSendBatch({ messages: [] }, deps())).status).toBe(400);
+    expect(await processSendBatch({ messages: three }, deps())).toEqual({
+      status: 400,
+      body: { error: 'Too many messages', messages: 3, max: 2 },
+    });
+    expect((await processSendBatch({ messages: three.slice(0, 1), mode: 'some' }, deps())).status).toBe(400);
+  });
+
+  it('rejects messages charged to another tenant', async () => {
+    await walletStore.add('tenant-1', 5);
+
+    const result = await processSendBatch(
+      {
+        accountId: account.id,
+        tenantId: 'tenant-1',
+        messages: [note('a@example.com', { tenantId: 'tenant-2' }), 'nope'],
+      },
+      deps(),
+    );
+
+    const { results } = result.body as { results: Array<{ status: number; body: unknown }> };
+    expect(results).toEqual([
+      { index: 0, status: 400, body: { error: 'tenantId must match the batch tenantId' } },
+      { index: 1, status: 400, body: { error: 'message must be an object' } },
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Tests for SendGrid provider adapter.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SendGridProviderAdapter, getProviderAdapter } from '../src/providers.js';
+import type { Account } from '../src/accounts.js';
+
+const baseAccount: Account = {
+  id: 'acct-sendgrid',
+  email: 'sender@sg.example.com',
+  provider: 'sendgrid',
+  status: 'pending',
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString()
+};
+
+describe('SendGridProviderAdapter', () => {
+  const originalFetch = globalThis.fetch;
+
+  beforeEach(() => {
+    vi.stubEnv('SENDGRID_API_KEY', 'SG.test-key');
+    vi.stubEnv('SENDGRID_FROM', '');
+    vi.stubEnv('SENDGRID_BASE_URL', '');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    globalThis.fetch = originalFetch;
+    vi.restoreAllMocks();
+  });
+
+  it('maps input onto the v3 mail/send payload', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(null, { status: 202, headers: { 'X-Message-Id': 'sg-msg-123' } })
+    );
+    globalThis.fetch = fetchMock;
+
+    const adapter = new SendGridProviderAdapter();
+    const result = await adapter.sendEmail({
+      account: baseAccount,
+      to: ['recipient@example.com'],
+      subject: 'Hello',
+      text: 'World',
+      html: '<p>World</p>',
+      replyTo: 'reply@example.com'
+    });
+
+    expect(result).toMatchObject({
+      id: 'sg-msg-123',
+      provider: 'sendgrid',
+      to: ['recipient@example.com'],
+      status: 'queued'
+    });
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://api.sendgrid.com/v3/mail/send',
+      expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({ Authorization: 'Bearer SG.test-key' })
+      })
+    );
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body).toEqual({
+      personalizations: [{ to: [{ email: 'recipient@example.com' }] }],
+      from: { email: baseAccount.email },
+      subject: 'Hello',
+      content: [
+        { type: 'text/plain', value: 'World' },
+        { type: 'text/html', value: '<p>World</p>' }
+      ],
+      reply_to: { email: 'reply@example.com' }
+    });
+  });
+
+  it('uses base URL override, per-account apiKey and display-name from', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(null, { status: 202, headers: { 'X-Message-Id': 'x' } })
+    );
+    globalThis.fetch = fetchMock;
+
+    const adapter = new SendGridProviderAdapter({ baseUrl: 'http://127.0.0.1:4010/' });
+    await adapter.sendEmail({
+      account: baseAccount,
+      to: ['u@ex.com'],
+      subject: 'Hi',
+      html: '<p>Hi</p>',
+      credentials: { apiKey: 'SG.account-key', from: 'Acme <noreply@sg.example.com>' }
+    });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://127.0.0.1:4010/v3/mail/send');
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer SG.account-key');
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.from).toEqual({ email: 'noreply@sg.example.com', name: 'Acme' });
+    expect(body.content).toEqual([{ type: 'text/html', value: '<p>Hi</p>' }]);
+  });
+
+  it('reads SENDGRID_BASE_URL', async () => {
+    vi.stubEnv('SENDGRID_BASE_URL', 'http://localhost:3030');
+    const fetchMock = vi.fn().mockResolvedValue(new Response(null, { status: 202 }));
+    globalThis.fetch = fetchMock;
+
+    const adapter = new SendGridProviderAdapter();
+    const result = await adapter.sendEmail({ account: baseAccount, to: ['u@ex.com'], subject: 'Hi', text: 'Hi' });
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:3030/v3/mail/send');
+    expect(result.id).toMatch(/^sendgrid-/);
+  });
+
+  it('throws with SendGrid error messages', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ errors: [{ message: 'The from address does not match a verified Sender Identity.' }] }), {
+        status: 403,
+        headers: { 'content-type': 'application/json' }
+      })
+    );
+
+    const adapter = new SendGridProviderAdapter();
+    await expect(
+      adapter.sendEmail({ account: baseAccount, to: ['u@ex.com'], subject: 'Hi', text: 'Hi' })
+    ).rejects.toMatchObject({
+      message: 'The from address does not match a verified Sender Identity.',
+      status: 403
+    });
+  });
+
+  it('throws when SENDGRID_API_KEY unset', async () => {
+    vi.stubEnv('SENDGRID_API_KEY', '');
+    const adapter = new SendGridProviderAdapter();
+    await expect(
+      adapter.sendEmail({ account: baseAccount, to: ['u@ex.com'], subject: 'Hi', text: 'Hi' })
+    ).rejects.toThrow('SENDGRID_API_KEY');
+  });
+
+  it('provisions when the API key has mail.send scope', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ scopes: ['mail.send', 'alerts.read'] }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      })
+    );
+    globalThis.fetch = fetchMock;
+
+    const adapter = new SendGridProviderAdapter();
+    const result = await adapter.provisionAccount({ account: baseAccount });
+
+    expect(result.status).toBe('active');
+    expect(fetchMock.mock.calls[0][0]).toBe('https://api.sendgrid.com/v3/scopes');
+  });
+
+  it('rejects provisioning when mail.send scope is missing', async () => {
+    globalThis.fetch = vi.fn().mockResolvedValue(
+      new Response(JSON.stringify({ scopes: ['alerts.read'] }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      })
+    );
+
+    const adapter = new SendGridProviderAdapter();
+    await expect(adapter.provisionAccount({ account: baseAccount })).rejects.toThrow('mail.send');
+  });
+});
+
+describe('getProviderAdapter sendgrid', () => {
+  it('returns singleton adapter for sendgrid', () => {
+    const first = getProviderAdapter('sendgrid');
+    const second = getProviderAdapter('sendgrid');
+    expect(first).toBe(second);
+    expect(first.provider).toBe('sendgrid');
+  });
+});
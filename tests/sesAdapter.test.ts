@@ -0,0 +1,252 @@
+/**
+ * Tests for SES provider adapter against a local fake SES v2 server.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import { SesProviderAdapter, getProviderAdapter } from '../src/providers.js';
+import { signRequest } from '../src/providers/sigv4.js';
+import type { Account } from '../src/accounts.js';
+
+const baseAccount: Account = {
+  id: 'acct-ses',
+  email: 'sender@ses.example.com',
+  provider: 'ses',
+  status: 'pending',
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString()
+};
+
+const credentials = { accessKeyId: 'AKIDTEST', secretAccessKey: 'secret-key' };
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  body: unknown;
+  signatureValid: boolean;
+}
+
+interface FakeSes {
+  server: Server;
+  endpoint: string;
+  requests: RecordedRequest[];
+  identities: Map<string, { VerifiedForSendingStatus: boolean; VerificationStatus: string; IdentityType: string }>;
+  failSendWith?: number;
+}
+
+/** Recompute the signature from what was received, as SES would. */
+function verifySignature(req: IncomingMessage, body: string, port: number): boolean {
+  const auth = String(req.headers.authorization ?? '');
+  const signedHeaders = /SignedHeaders=([^,]+)/.exec(auth)?.[1]?.split(';') ?? [];
+  const amzDate = String(req.headers['x-amz-date'] ?? '');
+  const headers: Record<string, string> = {};
+  for (const name of signedHeaders) headers[name] = String(req.headers[name] ?? '');
+  const date = new Date(
+    amzDate.replace(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})(\d{2})Z$/, '$1-$2-$3T$4:$5:$6Z')
+  );
+  const expected = signRequest({
+    method: req.method ?? 'GET',
+    url: `http://127.0.0.1:${port}${req.url}`,
+    headers,
+    body,
+    service: 'ses',
+    region: 'eu-west-1',
+    credentials,
+    date
+  });
+  return expected.authorization === auth;
+}
+
+function startFakeSes(): Promise<FakeSes> {
+  const fake = {
+    requests: [],
+    identities: new Map()
+  } as unknown as FakeSes;
+
+  fake.server = createServer((req, res) => {
+    let raw = '';
+    req.setEncoding('utf8');
+    req.on('data', (chunk: string) => (raw += chunk));
+    req.on('end', () => {
+      const addr = fake.server.address();
+      const port = addr && typeof addr === 'object' ? addr.port : 0;
+      const body = raw ? JSON.parse(raw) : undefined;
+      const path = req.url ?? '';
+      fake.requests.push({ method: req.method ?? '', path, body, signatureValid: verifySignature(req, raw, port) });
+      const send = (status: number, payload: unknown) => {
+        res.writeHead(status, { 'content-type': 'application/json' });
+        res.end(JSON.stringify(payload));
+      };
+
+      const identityMatch = /^\/v2\/email\/identities\/(.+)$/.exec(path);
+      if (req.method === 'GET' && identityMatch) {
+        const identity = fake.identities.get(decodeURIComponent(identityMatch[1]));
+        if (!identity) return send(404, { message: 'Identity not found' });
+        return send(200, identity);
+      }
+      if (req.method === 'POST' && path === '/v2/email/identities') {
+        const created = { IdentityType: 'EMAIL_ADDRESS', VerifiedForSendingStatus: false, VerificationStatus: 'PENDING' };
+        fake.identities.set(body.EmailIdentity, created);
+        return send(200, created);
+      }
+      if (req.method === 'POST' && path === '/v2/email/outbound-emails') {
+        if (fake.failSendWith) return send(fake.failSendWith, { message: 'Email address is not verified.' });
+        return send(200, { MessageId: 'ses-msg-1' });
+      }
+      send(404, { message: 'Unknown route' });
+    });
+  });
+
+  return new Promise((resolve) => {
+    fake.server.listen(0, '127.0.0.1', () => {
+      const addr = fake.server.address();
+      const port = addr && typeof addr === 'object' ? addr.port : 0;
+      fake.endpoint = `http://127.0.0.1:${port}`;
+      resolve(fake);
+    });
+  });
+}
+
+describe('SesProviderAdapter', () => {
+  let fake: FakeSes;
+
+  beforeEach(async () => {
+    fake = await startFakeSes();
+    vi.stubEnv('AWS_ACCESS_KEY_ID', credentials.accessKeyId);
+    vi.stubEnv('AWS_SECRET_ACCESS_KEY', credentials.secretAccessKey);
+    vi.stubEnv('AWS_SESSION_TOKEN', '');
+    vi.stubEnv('AWS_REGION', 'eu-west-1');
+    vi.stubEnv('SES_FROM', '');
+    vi.stubEnv('SES_CONFIGURATION_SET', '');
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await new Promise<void>((resolve) => fake.server.close(() => resolve()));
+  });
+
+  it('sends email via SES v2 with a valid SigV4 signature', async () => {
+    const adapter = new SesProviderAdapter({ endpoint: fake.endpoint });
+    const result = await adapter.sendEmail({
+      account: baseAccount,
+      to: ['recipient@example.com'],
+      subject: 'Hello',
+      text: 'World',
+      html: '<p>World</p>',
+      replyTo: 'reply@example.com'
+    });
+
+    expect(result).toMatchObject({
+      id: 'ses-msg-1',
+      provider: 'ses',
+      to: ['recipient@example.com'],
+      status: 'queued'
+    });
+    const request = fake.requests[0];
+    expect(request.signatureValid).toBe(true);
+    expect(request.body).toEqual({
+      FromEmailAddress: baseAccount.email,
+      Destination: { ToAddresses: ['recipient@example.com'] },
+      ReplyToAddresses: ['reply@example.com'],
+      Content: {
+        Simple: {
+          Subject: { Data: 'Hello', Charset: 'UTF-8' },
+          Body: {
+            Text: { Data: 'World', Charset: 'UTF-8' },
+            Html: { Data: '<p>World</p>', Charset: 'UTF-8' }
+          }
+        }
+      }
+    });
+  });
+
+  it('uses per-account ses credentials over env', async () => {
+    vi.stubEnv('AWS_ACCESS_KEY_ID', '');
+    vi.stubEnv('AWS_SECRET_ACCESS_KEY', '');
+    const adapter = new SesProviderAdapter({ endpoint: fake.endpoint });
+    await adapter.sendEmail({
+      account: baseAccount,
+      to: ['recipient@example.com'],
+      subject: 'Hello',
+      text: 'World',
+      credentials: { ses: { ...credentials, region: 'eu-west-1' } }
+    });
+    expect(fake.requests[0].signatureValid).toBe(true);
+  });
+
+  it('throws with SES error message on failure', async () => {
+    fake.failSendWith = 400;
+    const adapter = new SesProviderAdapter({ endpoint: fake.endpoint });
+    await expect(
+      adapter.sendEmail({ account: baseAccount, to: ['r@example.com'], subject: 'Hi', text: 'Hi' })
+    ).rejects.toMatchObject({ message: 'Email address is not verified.', status: 400 });
+  });
+
+  it('throws when AWS credentials are missing', async () => {
+    vi.stubEnv('AWS_ACCESS_KEY_ID', '');
+    const adapter = new SesProviderAdapter({ endpoint: fake.endpoint });
+    await expect(
+      adapter.sendEmail({ account: baseAccount, to: ['r@example.com'], subject: 'Hi', text: 'Hi' })
+    ).rejects.toThrow('AWS_ACCESS_KEY_ID');
+  });
+
+  it('activates account when identity is verified for sending', async () => {
+    fake.identities.set(baseAccount.email, {
+      IdentityType: 'EMAIL_ADDRESS',
+      VerifiedForSendingStatus: true,
+      VerificationStatus: 'SUCCESS'
+    });
+    const adapter = new SesProviderAdapter({ endpoint: fake.endpoint });
+    const result = await adapter.provisionAccount({ account: baseAccount });
+
+    expect(result.status).toBe('active');
+    expect(result.externalId).toBe(baseAccount.email);
+    expect(result.metadata).toMatchObject({ verificationStatus: 'SUCCESS', region: 'eu-west-1' });
+    expect(fake.requests[0].path).toBe('/v2/email/identities/sender%40ses.example.com');
+    expect(fake.requests[0].signatureValid).toBe(true);
+  });
+
+  it('falls back to the verified domain identity', async () => {
+    fake.identities.set('ses.example.com', {
+      IdentityType: 'DOMAIN',
+      VerifiedForSendingStatus: true,
+      VerificationStatus: 'SUCCESS'
+    });
+    const adapter = new SesProviderAdapter({ endpoint: fake.endpoint });
+    const result = await adapter.provisionAccount({ account: baseAccount });
+
+    expect(result.status).toBe('active');
+    expect(result.externalId).toBe('ses.example.com');
+  });
+
+  it('creates the email identity and stays pending when unknown', async () => {
+    const adapter = new SesProviderAdapter({ endpoint: fake.endpoint });
+    const result = await adapter.provisionAccount({ account: baseAccount });
+
+    expect(result.status).toBe('pending');
+    expect(result.metadata).toMatchObject({ verificationStatus: 'PENDING', verifiedForSending: false });
+    const create = fake.requests.find((r) => r.method === 'POST');
+    expect(create?.body).toEqual({ EmailIdentity: baseAccount.email });
+  });
+
+  it('uses SES_ENDPOINT when no endpoint option is given', async () => {
+    vi.stubEnv('SES_ENDPOINT', fake.endpoint);
+    const adapter = new SesProviderAdapter();
+    const result = await adapter.sendEmail({
+      account: baseAccount,
+      to: ['recipient@example.com'],
+      subject: 'Hello',
+      text: 'World'
+    });
+    expect(result.id).toBe('ses-msg-1');
+  });
+});
+
+describe('getProviderAdapter ses', () => {
+  it('returns singleton adapter for ses', () => {
+    const first = getProviderAdapter('ses');
+    const second = getProviderAdapter('ses');
+    expect(first).toBe(second);
+    expect(first.provider).toBe('ses');
+  });
+});
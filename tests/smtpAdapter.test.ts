@@ -0,0 +1,457 @@
+/**
+ * Tests for SMTP provider adapter against an in-process SMTP stand-in.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createServer, type Server, type Socket } from 'node:net';
+import { SmtpProviderAdapter, getProviderAdapter } from '../src/providers.js';
+import type { Account } from '../src/accounts.js';
+import { generateDkimKey } from '../src/mime/dkim.js';
+import { SmtpNotSentError, sendSmtpMessage } from '../src/providers/smtpClient.js';
+
+const baseAccount: Account = {
+  id: 'acct-smtp',
+  email: 'agent@smtp.example.com',
+  provider: 'smtp',
+  status: 'pending',
+  createdAt: new Date().toISOString(),
+  updatedAt: new Date().toISOString()
+};
+
+interface ReceivedMessage {
+  from?: string;
+  to: string[];
+  data: string;
+}
+
+interface StandIn {
+  server: Server;
+  port: number;
+  commands: string[];
+  messages: ReceivedMessage[];
+}
+
+/** Tiny SMTP server without STARTTLS: EHLO, AUTH PLAIN/LOGIN, MAIL/RCPT/DATA, QUIT. */
+function startSmtpStandIn(options: {
+  user: string;
+  pass: string;
+  authMechanisms?: string;
+  rejectRecipient?: string;
+}): Promise<StandIn> {
+  const commands: string[] = [];
+  const messages: ReceivedMessage[] = [];
+
+  const server = createServer((socket: Socket) => {
+    let buffer = '';
+    let inData = false;
+    let loginStep: 'user' | 'pass' | undefined;
+    let loginUser = '';
+    let current: ReceivedMessage = { to: [], data: '' };
+    const reply = (line: string) => socket.write(line + '\r\n');
+    socket.setEncoding('utf8');
+    reply('220 standin ESMTP');
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      if (inData) {
+        const end = buffer.indexOf('\r\n.\r\n');
+        if (end === -1) return;
+        current.data = buffer.slice(0, end);
+        buffer = buffer.slice(end + 5);
+        inData = false;
+        messages.push(current);
+        current = { to: [], data: '' };
+        reply('250 OK queued as 1234');
+      }
+      let index = buffer.indexOf('\r\n');
+      while (index !== -1 && !inData) {
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        commands.push(line);
+        const decode = (b64: string) => Buffer.from(b64, 'base64').toString('utf8');
+        if (loginStep === 'user') {
+          loginUser = decode(line);
+          loginStep = 'pass';
+          reply('334 UGFzc3dvcmQ6');
+        } else if (loginStep === 'pass') {
+          loginStep = undefined;
+          reply(
+            loginUser === options.user && decode(line) === options.pass
+              ? '235 Authenticated'
+              : '535 Authentication failed'
+          );
+        } else if (/^EHLO /i.test(line)) {
+          reply('250-standin');
+          if (options.authMechanisms !== '') {
+            reply(`250-AUTH ${options.authMechanisms ?? 'PLAIN LOGIN'}`);
+          }
+          reply('250 8BITMIME');
+        } else if (/^AUTH PLAIN /i.test(line)) {
+          const [, user, pass] = decode(line.slice(11)).split('\0');
+          reply(
+            user === options.user && pass === options.pass
+              ? '235 Authenticated'
+              : '535 Authentication failed'
+          );
+        } else if (/^AUTH LOGIN$/i.test(line)) {
+          loginStep = 'user';
+          reply('334 VXNlcm5hbWU6');
+        } else if (/^MAIL FROM:/i.test(line)) {
+          current.from = line.slice(10).replace(/[<>]/g, '');
+          reply('250 OK');
+        } else if (/^RCPT TO:/i.test(line)) {
+          const rcpt = line.slice(8).replace(/[<>]/g, '');
+          if (rcpt === options.rejectRecipient) {
+            reply('550 No such user');
+          } else {
+            current.to.push(rcpt);
+            reply('250 OK');
+          }
+        } else if (/^DATA$/i.test(line)) {
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+          return;
+        } else if (/^QUIT$/i.test(line)) {
+          reply('221 Bye');
+          socket.end();
+        } else {
+          reply('502 Command not implemented');
+        }
+        index = buffer.indexOf('\r\n');
+      }
+    });
+  });
+
+  return new Promise((resolve) => {
+    server.listen(0, '127.0.0.1', () => {
+      const addr = server.address();
+      const port = addr && typeof addr === 'object' ? addr.port : 0;
+      resolve({ server, port, commands, messages });
+    });
+  });
+}
+
+/** The stand-in has no TLS, so these opt in to plaintext AUTH. */
+function smtpCredentials(port: number, overrides?: Record<string, unknown>) {
+  return {
+    smtp: {
+      host: '127.0.0.1',
+      port,
+      secure: false,
+      user: 'agent',
+      pass: 'secret',
+      allowInsecureAuth: true,
+      ...overrides
+    }
+  };
+}
+
+describe('SmtpProviderAdapter', () => {
+  let standIn: StandIn;
+
+  beforeEach(async () => {
+    standIn = await startSmtpStandIn({
+      user: 'agent',
+      pass: 'secret',
+      rejectRecipient: 'nobody@example.com'
+    });
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await new Promise<void>((resolve) => standIn.server.close(() => resolve()));
+  });
+
+  it('sends email with AUTH PLAIN and per-account credentials', async () => {
+    const adapter = new SmtpProviderAdapter();
+    const result = await adapter.sendEmail({
+      account: baseAccount,
+      to: ['recipient@example.com'],
+      subject: 'Hello',
+      text: 'World',
+      replyTo: 'reply@example.com',
+      credentials: smtpCredentials(standIn.port)
+    });
+
+    expect(result.provider).toBe('smtp');
+    expect(result.status).toBe('sent');
+    expect(result.to).toEqual(['recipient@example.com']);
+    expect(result.id).toMatch(/^<.+@smtp\.example\.com>$/);
+
+    expect(standIn.commands.some((c) => c.startsWith('AUTH PLAIN '))).toBe(true);
+    expect(standIn.messages).toHaveLength(1);
+    const message = standIn.messages[0];
+    expect(message.from).toBe(baseAccount.email);
+    expect(message.to).toEqual(['recipient@example.com']);
+    expect(message.data).toContain('Subject: Hello');
+    expect(message.data).toContain('Reply-To: reply@example.com');
+    expect(message.data).toContain(`Message-ID: ${result.id}`);
+    expect(message.data).toContain('Content-Transfer-Encoding: quoted-printable');
+    expect(message.data).toMatch(/\r?\n\r?\nWorld\s*$/);
+  });
+
+  it('delivers to cc and bcc recipients without exposing bcc in headers', async () => {
+    const adapter = new SmtpProviderAdapter();
+    await adapter.sendEmail({
+      account: baseAccount,
+      to: ['recipient@example.com', 'second@example.com'],
+      cc: ['copy@example.com'],
+      bcc: ['hidden@example.com'],
+      subject: 'Hello',
+      text: 'World',
+      credentials: smtpCredentials(standIn.port)
+    });
+
+    const message = standIn.messages[0];
+    expect(message.to).toEqual([
+      'recipient@example.com',
+      'second@example.com',
+      'copy@example.com',
+      'hidden@example.com'
+    ]);
+    expect(message.data).toContain('To: recipient@example.com, second@example.com');
+    expect(message.data).toContain('Cc: copy@example.com');
+    expect(message.data).not.toContain('hidden@example.com');
+  });
+
+  it('falls back to AUTH LOGIN when PLAIN is not offered', async () => {
+    await new Promise<void>((resolve) => standIn.server.close(() => resolve()));
+    standIn = await startSmtpStandIn({ user: 'agent', pass: 'secret', authMechanisms: 'LOGIN' });
+
+    const adapter = new SmtpProviderAdapter();
+    await adapter.sendEmail({
+      account: baseAccount,
+      to: ['recipient@example.com'],
+      subject: 'Hello',
+      html: '<p>Hi</p>',
+      credentials: smtpCredentials(standIn.port)
+    });
+
+    expect(standIn.commands).toContain('AUTH LOGIN');
+    expect(standIn.messages).toHaveLength(1);
+    expect(standIn.messages[0].data).toContain('Content-Type: text/html; charset=utf-8');
+  });
+
+  it('builds multipart/alternative when text and html are both set', async () => {
+    const adapter = new SmtpProviderAdapter();
+    const result = await adapter.sendEmail({
+      account: baseAccount,
+      to: ['recipient@example.com'],
+      subject: 'Grüße',
+      text: 'plain',
+      html: '<b>rich</b>',
+      credentials: smtpCredentials(standIn.port, { from: 'Agent <custom@smtp.example.com>' })
+    });
+
+    const message = standIn.messages[0];
+    expect(result.from).toBe('Agent <custom@smtp.example.com>');
+    expect(message.from).toBe('custom@smtp.example.com');
+    expect(message.data).toContain('From: Agent <custom@smtp.example.com>');
+    expect(message.data).toContain('multipart/alternative');
+    expect(message.data).toContain(`Subject: =?UTF-8?B?${Buffer.from('Grüße').toString('base64')}?=`);
+  });
+
+  it('wraps the body and attachments in multipart/mixed', async () => {
+    const adapter = new SmtpProviderAdapter();
+    const content = Buffer.from('x'.repeat(100)).toString('base64');
+    await adapter.sendEmail({
+      account: baseAccount,
+      to: ['recipient@example.com'],
+      subject: 'Report',
+      text: 'attached',
+      html: '<img src="cid:chart">',
+      attachments: [
+        { filename: 'report.csv', content, contentType: 'text/csv' },
+        { filename: 'chart.png', content: 'iVBORw0=', contentType: 'image/png', contentId: 'chart' }
+      ],
+      credentials: smtpCredentials(standIn.port)
+    });
+
+    const data = standIn.messages[0].data;
+    expect(data).toMatch(/Content-Type: multipart\/mixed; boundary="[^"]+"/);
+    expect(data).toContain('multipart/alternative');
+    expect(data).toContain('Content-Disposition: attachment; filename="report.csv"');
+    expect(data).toContain('Content-Disposition: inline; filename="chart.png"');
+    expect(data).toContain('Content-ID: <chart>');
+    expect(data).toContain(content.slice(0, 76) + '\r\n' + content.slice(76));
+  });
+
+  it('DKIM-signs with the key for the From domain', async () => {
+    const key = generateDkimKey('smtp.example.com', 'ernest', 'ed25519-sha256');
+    const lookup = vi.fn(async (domain: string) => (domain === key.domain ? key : null));
+    const adapter = new SmtpProviderAdapter();
+    await adapter.sendEmail({
+      account: baseAccount,
+      to: ['recipient@example.com'],
+      subject: 'Signed',
+      text: 'Hello',
+      credentials: smtpCredentials(standIn.port),
+      dkimKeys: { get: lookup }
+    });
+
+    expect(lookup).toHaveBeenCalledWith('smtp.example.com');
+    expect(standIn.messages[0].data).toMatch(/^DKIM-Signature: v=1; a=ed25519-sha256;/);
+    expect(standIn.messages[0].data).toContain('d=smtp.example.com;');
+  });
+
+  it('never sends credentials without TLS unless the account opts in', async () => {
+    const adapter = new SmtpProviderAdapter();
+    await expect(
+      adapter.sendEmail({
+        account: baseAccount,
+        to: ['recipient@example.com'],
+        subject: 'Hello',
+        text: 'World',
+        credentials: smtpCredentials(standIn.port, { allowInsecureAuth: undefined })
+      })
+    ).rejects.toThrow('unencrypted connection');
+    expect(standIn.commands.some((c) => c.startsWith('AUTH'))).toBe(false);
+    expect(standIn.commands.join('\n')).not.toContain(Buffer.from('\0agent\0secret').toString('base64'));
+    expect(standIn.messages).toHaveLength(0);
+  });
+
+  it('does not guess a mechanism when the server offers no AUTH', async () => {
+    await new Promise<void>((resolve) => standIn.server.close(() => resolve()));
+    standIn = await startSmtpStandIn({ user: 'agent', pass: 'secret', authMechanisms: '' });
+
+    const adapter = new SmtpProviderAdapter();
+    await expect(
+      adapter.sendEmail({
+        account: baseAccount,
+        to: ['recipient@example.com'],
+        subject: 'Hello',
+        text: 'World',
+        credentials: smtpCredentials(standIn.port)
+      })
+    ).rejects.toThrow('server offers: none');
+    expect(standIn.commands.some((c) => c.startsWith('AUTH'))).toBe(false);
+  });
+
+  it('throws with reply code when authentication fails', async () => {
+    const adapter = new SmtpProviderAdapter();
+    await expect(
+      adapter.sendEmail({
+        account: baseAccount,
+        to: ['recipient@example.com'],
+        subject: 'Hello',
+        text: 'World',
+        credentials: smtpCredentials(standIn.port, { pass: 'wrong' })
+      })
+    ).rejects.toMatchObject({ code: 535 });
+    expect(standIn.messages).toHaveLength(0);
+  });
+
+  it('throws when the server rejects a recipient', async () => {
+    const adapter = new SmtpProviderAdapter();
+    await expect(
+      adapter.sendEmail({
+        account: baseAccount,
+        to: ['nobody@example.com'],
+        subject: 'Hello',
+        text: 'World',
+        credentials: smtpCredentials(standIn.port)
+      })
+    ).rejects.toThrow('550');
+  });
+
+  it('uses SMTP_* env when account has no credentials', async () => {
+    vi.stubEnv('SMTP_HOST', '127.0.0.1');
+    vi.stubEnv('SMTP_PORT', String(standIn.port));
+    vi.stubEnv('SMTP_USER', 'agent');
+    vi.stubEnv('SMTP_PASS', 'secret');
+    vi.stubEnv('SMTP_ALLOW_INSECURE_AUTH', 'true');
+
+    const adapter = new SmtpProviderAdapter();
+    const result = await adapter.sendEmail({
+      account: baseAccount,
+      to: ['recipient@example.com'],
+      subject: 'Hello',
+      text: 'World'
+    });
+    expect(result.status).toBe('sent');
+  });
+
+  it('throws when no credentials are available', async () => {
+    vi.stubEnv('SMTP_HOST', '');
+    const adapter = new SmtpProviderAdapter();
+    await expect(
+      adapter.sendEmail({
+        account: baseAccount,
+        to: ['recipient@example.com'],
+        subject: 'Hello',
+        text: 'World'
+      })
+    ).rejects.toThrow('SMTP credentials');
+  });
+
+  it('provisions by verifying the connection and activates the account', async () => {
+    const adapter = new SmtpProviderAdapter();
+    const result = await adapter.provisionAccount({
+      account: baseAccount,
+      credentials: smtpCredentials(standIn.port)
+    });
+
+    expect(result.status).toBe('active');
+    expect(result.externalId).toBe('agent');
+    expect(result.metadata).toMatchObject({ host: '127.0.0.1', port: standIn.port });
+    expect(standIn.commands).toContain('QUIT');
+  });
+});
+
+describe('getProviderAdapter smtp', () => {
+  it('returns singleton adapter for smtp', () => {
+    const first = getProviderAdapter('smtp');
+    const second = getProviderAdapter('smtp');
+    expect(first).toBe(second);
+    expect(first.provider).toBe('smtp');
+  });
+});
+
+describe('sendSmtpMessage', () => {
+  it('aborts when replies arrive with the STARTTLS 220, before the handshake', async () => {
+    const commands: string[] = [];
+    const server = createServer((socket: Socket) => {
+      socket.setEncoding('utf8');
+      socket.write('220 standin ESMTP\r\n');
+      socket.on('data', (chunk: string) => {
+        for (const line of chunk.split('\r\n').filter(Boolean)) {
+          commands.push(line);
+          if (/^EHLO /i.test(line)) socket.write('250-standin\r\n250 STARTTLS\r\n');
+          // A man in the middle answering ahead of the handshake
+          else if (line === 'STARTTLS') socket.write('220 Go ahead\r\n250 injected\r\n');
+        }
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+    const addr = server.address();
+    const port = addr && typeof addr === 'object' ? addr.port : 0;
+
+    try {
+      await expect(
+        sendSmtpMessage({ host: '127.0.0.1', port, timeoutMs: 2000 }, { from: 'a@b.com', to: ['c@d.com'] }, 'x')
+      ).rejects.toThrow('SMTP server sent data before the STARTTLS handshake');
+      expect(commands).not.toContain('QUIT');
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+
+  it('marks sessions lost before DATA as not sent', async () => {
+    // Drops the connection on the first command
+    const server = createServer((socket: Socket) => {
+      socket.write('220 standin ESMTP\r\n');
+      socket.on('data', () => socket.destroy());
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', () => resolve()));
+    const addr = server.address();
+    const port = addr && typeof addr === 'object' ? addr.port : 0;
+
+    try {
+      await expect(
+        sendSmtpMessage({ host: '127.0.0.1', port, timeoutMs: 2000 }, { from: 'a@b.com', to: ['c@d.com'] }, 'x')
+      ).rejects.toBeInstanceOf(SmtpNotSentError);
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  });
+});
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import {
+  signSvixPayload,
+  verifySvixSignature,
+  WebhookVerificationError,
+} from '../src/webhooks/svix.js';
+
+const secret = `whsec_${Buffer.from('test-webhook-secret').toString('base64')}`;
+const body = JSON.stringify({ type: 'email.delivered', data: { email_id: 'abc' } });
+const now = new Date('2026-01-01T00:00:00Z');
+const timestamp = String(Math.floor(now.getTime() / 1000));
+
+describe('verifySvixSignature', () => {
+  it('accepts a valid signature among several', () => {
+    const signature = `v1,bm90LXRoaXMtb25l ${signSvixPayload(secret, 'msg_1', timestamp, body)}`;
+    expect(() =>
+      verifySvixSignature(secret, { id: 'msg_1', timestamp, signature }, body, { now })
+    ).not.toThrow();
+  });
+
+  it('rejects a tampered body', () => {
+    const signature = signSvixPayload(secret, 'msg_1', timestamp, body);
+    expect(() =>
+      verifySvixSignature(secret, { id: 'msg_1', timestamp, signature }, `${body} `, { now })
+    ).toThrow(WebhookVerificationError);
+  });
+
+  it('rejects timestamps outside the tolerance', () => {
+    const stale = String(Number(timestamp) - 301);
+    const signature = signSvixPayload(secret, 'msg_1', stale, body);
+    expect(() =>
+      verifySvixSignature(secret, { id: 'msg_1', timestamp: stale, signature }, body, { now })
+    ).toThrow('outside tolerance');
+  });
+
+  it('rejects missing headers', () => {
+    expect(() => verifySvixSignature(secret, { id: 'msg_1', timestamp }, body, { now })).toThrow(
+      'Missing'
+    );
+  });
+});
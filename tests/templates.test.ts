@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync } from 'node:fs';
+import { join } from 'node:path';
+import { tmpdir } from 'node:os';
+
+import {
+  MissingTemplateVariablesError,
+  extractTemplateVariables,
+  renderTemplate,
+} from '../src/templates.js';
+import { FileTemplateRepository } from '../src/fileTemplateRepository.js';
+import { processCreateTemplate, processUpdateTemplate } from '../src/handlers/templates.js';
+
+describe('renderTemplate', () => {
+  const template = {
+    subject: 'Report for {{ name }}',
+    text: 'Hi {{name}}, you have {{count}} alerts.',
+    html: '<p>Hi {{name}}, you have <b>{{count}}</b> alerts.</p>',
+  };
+
+  it('substitutes variables and escapes them in html only', () => {
+    expect(renderTemplate(template, { name: 'Tom & <Jerry>', count: 3 })).toEqual({
+      subject: 'Report for Tom & <Jerry>',
+      text: 'Hi Tom & <Jerry>, you have 3 alerts.',
+      html: '<p>Hi Tom &amp; &lt;Jerry&gt;, you have <b>3</b> alerts.</p>',
+    });
+  });
+
+  it('reports every missing variable', () => {
+    expect(() => renderTemplate(template, { name: 'x' })).toThrow(MissingTemplateVariablesError);
+    expect(() => renderTemplate(template, {})).toThrow(
+      expect.objectContaining({ missing: ['count', 'name'] })
+    );
+  });
+
+  it('does not treat inherited properties as provided', () => {
+    expect(() => renderTemplate({ subject: '{{constructor}}' }, {})).toThrow(
+      MissingTemplateVariablesError
+    );
+  });
+
+  it('extracts sorted unique placeholder names', () => {
+    expect(extractTemplateVariables('{{b}} {{ a }}', undefined, '{{b}}{{not valid}}')).toEqual(['a', 'b']);
+  });
+});
+
+describe('template handlers', () => {
+  let dir: string;
+  let templateRepository: FileTemplateRepository;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'ernest-templates-'));
+    templateRepository = new FileTemplateRepository(join(dir, 'templates.json'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('creates templates with their required variables', async () => {
+    const result = await processCreateTemplate(
+      { name: 'alert', subject: 'Alert: {{title}}', html: '<p>{{body}}</p>' },
+      { templateRepository }
+    );
+
+    expect(result.status).toBe(201);
+    expect(result.body).toMatchObject({ name: 'alert', variables: ['body', 'title'] });
+    expect(await templateRepository.list()).toHaveLength(1);
+  });
+
+  it('validates create input', async () => {
+    const deps = { templateRepository };
+    expect((await processCreateTemplate({ subject: 's', text: 't' }, deps)).status).toBe(400);
+    expect((await processCreateTemplate({ name: 'n', text: 't' }, deps)).status).toBe(400);
+    expect((await processCreateTemplate({ name: 'n', subject: 's' }, deps)).status).toBe(400);
+    expect((await processCreateTemplate({ name: 'n', subject: 's', html: 5 }, deps)).status).toBe(400);
+  });
+
+  it('updates fields, recomputes variables and keeps at least one body', async () => {
+    const created = await templateRepository.create({ name: 'n', subject: 'Hi', text: '{{a}}', html: '{{b}}' });
+
+    const updated = await processUpdateTemplate(created.id, { text: null, subject: 'Hi {{c}}' }, { templateRepository });
+    expect(updated.status).toBe(200);
+    expect(updated.body).toMatchObject({ subject: 'Hi {{c}}', variables: ['b', 'c'] });
+    expect((updated.body as { text?: string }).text).toBeUndefined();
+
+    const empty = await processUpdateTemplate(created.id, { html: null }, { templateRepository });
+    expect(empty.status).toBe(400);
+    const missing = await processUpdateTemplate('nope', { name: 'x' }, { templateRepository });
+    expect(missing.status).toBe(404);
+  });
+
+  it('deletes templates', async () => {
+    const created = await templateRepository.create({ name: 'n', subject: 'Hi', text: 't' });
+    expect(await templateRepository.delete(created.id)).toBe(true);
+    expect(await templateRepository.delete(created.id)).toBe(false);
+    expect(await templateRepository.getById(created.id)).toBeNull();
+  });
+});